@@ -1,21 +1,25 @@
 import {
   DefaultLogger,
-  isWsFormattedFuturesUserDataAccountUpdate,
-  isWsFormattedFuturesUserDataEvent,
-  isWsFormattedFuturesUserDataTradeUpdateEvent,
   USDMClient,
   WebsocketClient,
-  WsMessageFuturesUserDataAccountUpdateFormatted,
-  WsMessageFuturesUserDataTradeUpdateEventFormatted
 } from 'binance';
 import 'dotenv/config';
 import {
   AccountStateStore,
 } from '../src/AccountStateStore.js';
-import { EngineOrder } from '../src/lib/types/order.js';
 import {
-  EngineSimplePosition,
-} from '../src/lib/types/position.js';
+  applyBinanceUsdmAccountConfigUpdate,
+  applyBinanceUsdmAccountUpdate,
+  applyBinanceUsdmOrderUpdate,
+  mapBinanceUsdmRestAccountBalances,
+  mapBinanceUsdmRestOrder,
+  mapBinanceUsdmRestPosition,
+} from '../src/lib/adapters/binance-usdm.js';
+import {
+  BinanceUsdmWsAccountConfigUpdateEvent,
+  BinanceUsdmWsAccountUpdateEvent,
+  BinanceUsdmWsOrderUpdateEvent,
+} from '../src/lib/adapters/binance-usdm.types.js';
 const key = process.env.BINANCE_API_KEY || '';
 const secret = process.env.BINANCE_API_SECRET || '';
 
@@ -48,7 +52,8 @@ const wsClient = new WebsocketClient(
   {
     api_key: key,
     api_secret: secret,
-    beautify: true,
+    // The adapters map the raw (non-beautified) user data events
+    beautify: false,
   },
   logger
 );
@@ -60,43 +65,33 @@ async function syncPositionsFromREST() {
   try {
     console.log(new Date(), 'Syncing positions and orders from REST API...');
     
-    // Clear existing positions and orders from state
-    state.getAllPositions().forEach(pos => {
-      state.deleteActivePosition(pos.symbol, pos.positionSide);
-    });
-    state.clearAllOrders();
-    
     // Fetch account information to get balance
     const accountInfo = await restClient.getAccountInformationV3();
     
-    if (accountInfo && accountInfo.totalWalletBalance) {
-      state.setWalletBalance(Number(accountInfo.totalWalletBalance));
-      console.log(new Date(), `Updated wallet balance: ${accountInfo.totalWalletBalance} USDT`);
-    }
-    
     // Fetch all positions
     const positions = await restClient.getPositionsV3();
     
     // Filter active positions (non-zero position amount)
     const activePositions = positions.filter(pos => Number(pos.positionAmt) !== 0);
-    
-    // Update state with active positions
-    activePositions.forEach(pos => {
-      const enginePos = mapBinanceRestPositionToEnginePosition(pos);
-      state.setActivePosition(pos.symbol, enginePos.positionSide, enginePos);
-      console.log(new Date(), `Position updated for ${pos.symbol} ${enginePos.positionSide}: ${pos.positionAmt} @ ${pos.entryPrice} (UPNL: ${pos.unRealizedProfit})`);
-    });
 
     // Fetch all open orders
     const openOrders = await restClient.getAllOpenOrders();
     
-    // Update state with open orders
-    openOrders.forEach(order => {
-      const engineOrder = mapBinanceRestOrderToEngineOrder(order);
-      
-      state.upsertActiveOrder(engineOrder);
-      console.log(new Date(), `Order synced: ${order.symbol} ${order.side} ${order.type} ${order.status}`);
+    // Reconcile the state with the exchange, instead of wiping & re-inserting everything
+    const report = state.reconcile({
+      positions: activePositions.map(pos => mapBinanceUsdmRestPosition(pos)),
+      orders: openOrders.map(order => mapBinanceUsdmRestOrder(order)),
+      balances: mapBinanceUsdmRestAccountBalances(accountInfo),
     });
+
+    // Any drift means websocket state had silently diverged from REST
+    if (report.hasDrift) {
+      console.warn(new Date(), 'State drift detected during sync:', {
+        positions: report.positions.map(diff => `${diff.type}: ${diff.symbol} ${diff.side}`),
+        orders: report.orders.map(diff => `${diff.type}: ${diff.symbol} ${diff.exchangeOrderId}`),
+        balances: report.balances.map(diff => `${diff.type}: ${diff.asset}`),
+      });
+    }
     
     // Summary of active positions and orders
     const activePositionCount = state.getTotalActivePositions();
@@ -124,20 +119,22 @@ async function main() {
     console.log(new Date(), `WebSocket connection opened: ${data.wsKey}`);
   });
   
-  wsClient.on('formattedMessage', (data) => {
-    if (isWsFormattedFuturesUserDataEvent(data)) {
-      // Handle different types of user data events
-      if (isWsFormattedFuturesUserDataAccountUpdate(data)) {
+  wsClient.on('message', (data: any) => {
+    // Handle different types of user data events
+    switch (data?.e) {
+      case 'ACCOUNT_UPDATE':
         handleAccountUpdate(data);
         return;
-      } 
-      
-      if (isWsFormattedFuturesUserDataTradeUpdateEvent(data)) {
+      case 'ORDER_TRADE_UPDATE':
         handleOrderUpdate(data);
         return;
-      } 
-      
-      console.log(new Date(), 'Other user data event:', data.eventType);
+      case 'ACCOUNT_CONFIG_UPDATE':
+        applyBinanceUsdmAccountConfigUpdate(state, data as BinanceUsdmWsAccountConfigUpdateEvent);
+        return;
+    }
+
+    if (data?.e) {
+      console.log(new Date(), 'Other user data event:', data.e);
     }
   });
   
@@ -172,150 +169,30 @@ async function main() {
 /**
  * Handle account update events from WebSocket
  */
-function handleAccountUpdate(data: WsMessageFuturesUserDataAccountUpdateFormatted ) {
-  const { updateData } = data;
-  
-  // Update balance if available
-  if (updateData.updatedBalances && updateData.updatedBalances.length > 0) {
-    const usdtBalance = updateData.updatedBalances.find(b => b.asset === 'USDT');
-    if (usdtBalance) {
-      state.setWalletBalance(Number(usdtBalance.walletBalance));
-      console.log(new Date(), `Updated wallet balance from WS: ${usdtBalance.walletBalance} USDT`);
-    }
+function handleAccountUpdate(data: BinanceUsdmWsAccountUpdateEvent) {
+  // Balances, positions (including closed positions) & margin modes
+  applyBinanceUsdmAccountUpdate(state, data);
+
+  for (const pos of data.a.P) {
+    console.log(new Date(), `Position updated from WS for ${pos.s} ${pos.ps}: ${pos.pa} @ ${pos.ep} (UPNL: ${pos.up})`);
   }
-  
-  // Update positions
-  if (updateData.updatedPositions && updateData.updatedPositions.length > 0) {
-    updateData.updatedPositions.forEach(pos => {
-      // Handle position close
-      if (pos.positionAmount === 0) {
-        // Normalize position side (BOTH to LONG/SHORT)
-        const positionSide = pos.positionSide === 'BOTH'
-          ? (pos.positionAmount > 0 ? 'LONG' : 'SHORT')
-          : pos.positionSide;
-          
-        state.deleteActivePosition(pos.symbol, positionSide);
-        console.log(new Date(), `Position closed for ${pos.symbol} ${positionSide}`);
-        return;
-      }
-      
-      // Handle position update
-      const enginePos = mapBinanceWsPositionToEnginePosition(pos, data.transactionTime);
-      state.setActivePosition(pos.symbol, enginePos.positionSide, enginePos);
-      console.log(new Date(), `Position updated from WS for ${pos.symbol} ${enginePos.positionSide}: ${pos.positionAmount} @ ${pos.entryPrice} (UPNL: ${pos.unrealisedPnl})`);
-    });
+  const usdtBalance = data.a.B.find(b => b.a === 'USDT');
+  if (usdtBalance) {
+    console.log(new Date(), `Updated wallet balance from WS: ${usdtBalance.wb} USDT`);
   }
 }
 
-/**
- * Maps Binance USDM Futures order to internal EngineOrder format
- */
-function mapBinanceRestOrderToEngineOrder(order: any): EngineOrder {
-  return {
-    exchangeOrderId: order.orderId.toString(),
-    customOrderId: order.clientOrderId,
-    symbol: order.symbol,
-    orderSide: order.side,
-    orderType: order.type,
-    positionSide: order.positionSide === 'BOTH' ? 'NONE' : order.positionSide,
-    status: order.status === 'CANCELED' ? 'CANCELLED' : order.status,
-    price: Number(order.price),
-    originalQuantity: Number(order.origQty),
-    executedQuantity: Number(order.executedQty),
-    averagePrice: Number(order.avgPrice),
-    createdAtMs: Number(order.time),
-    updatedAtMs: Number(order.updateTime),
-    isreduceOnly: order.reduceOnly,
-  };
-}
-
-/**
- * Maps Binance USDM Futures WebSocket order update to internal EngineOrder format
- */
-function mapBinanceWsOrderToEngineOrder(order: any): EngineOrder {
-  return {
-    exchangeOrderId: order.orderId.toString(),
-    customOrderId: order.clientOrderId,
-    symbol: order.symbol,
-    orderSide: order.orderSide,
-    orderType: order.orderType,
-    positionSide: order.positionSide === 'BOTH' ? 'NONE' : order.positionSide,
-    status: order.orderStatus === 'CANCELED' ? 'CANCELLED' : order.orderStatus,
-    price: Number(order.originalPrice),
-    originalQuantity: Number(order.originalQuantity),
-    executedQuantity: Number(order.lastFilledQuantity),
-    averagePrice: Number(order.averagePrice),
-    createdAtMs: Number(order.orderTradeTime),
-    updatedAtMs: Date.now(),
-    isreduceOnly: order.isReduceOnly,
-  };
-}
-
-/**
- * Maps Binance USDM Futures position from REST API to internal EngineSimplePosition format
- */
-function mapBinanceRestPositionToEnginePosition(pos: any): EngineSimplePosition {
-  // Handle BOTH position side (convert to LONG or SHORT based on amount)
-  const positionSide = pos.positionSide === 'BOTH' 
-    ? (Number(pos.positionAmt) > 0 ? 'LONG' : 'SHORT')
-    : pos.positionSide;
-  
-  return {
-    symbol: pos.symbol,
-    timestampMs: Date.now(),
-    positionSide: positionSide,
-    orderPositionSide: positionSide,
-    positionPrice: Number(pos.entryPrice),
-    assetQty: Number(pos.positionAmt),
-    value: Number(pos.positionAmt) * Number(pos.entryPrice),
-    valueUpnl: Number(pos.unRealizedProfit),
-    liquidationPrice: Number(pos.liquidationPrice || 0),
-    stopLossPrice: undefined,
-    takeProfitPrice: undefined,
-    marginValue: (Number(pos.positionAmt) * Number(pos.entryPrice)),
-  };
-}
-
-/**
- * Maps Binance USDM Futures position from WebSocket to internal EngineSimplePosition format
- */
-function mapBinanceWsPositionToEnginePosition(pos: any, transactionTime: number): EngineSimplePosition {
-  // Handle position side (BOTH to LONG/SHORT)
-  const positionSide = pos.positionSide === 'BOTH'
-    ? (pos.positionAmount > 0 ? 'LONG' : 'SHORT')
-    : pos.positionSide;
-  
-  return {
-    symbol: pos.symbol,
-    timestampMs: transactionTime,
-    positionSide: positionSide,
-    orderPositionSide: positionSide,
-    positionPrice: pos.entryPrice,
-    assetQty: pos.positionAmount,
-    value: pos.positionAmount * pos.entryPrice,
-    valueUpnl: pos.unrealisedPnl,
-    liquidationPrice: Number(pos.liquidationPrice || 0),
-    stopLossPrice: undefined,
-    takeProfitPrice: undefined,
-    marginValue: (pos.positionAmount * pos.entryPrice),
-  };
-}
-
 /**
  * Handle order update events from WebSocket
  */
-function handleOrderUpdate(data: WsMessageFuturesUserDataTradeUpdateEventFormatted) {
-  const { order } = data;
-  
+function handleOrderUpdate(data: BinanceUsdmWsOrderUpdateEvent) {
+  // Update order in state
+  const order = applyBinanceUsdmOrderUpdate(state, data);
+
   console.log(
     new Date(),
-    `Order update: ${order.symbol} ${order.orderSide} ${order.orderType} ${order.orderStatus} - Qty: ${order.originalQuantity}, Price: ${order.originalPrice}`
+    `Order update: ${order.symbol} ${order.orderSide} ${order.orderType} ${order.status} - Qty: ${order.originalQuantity}, Price: ${order.price}`
   );
-  
-  // Update order in state
-  const engineOrder = mapBinanceWsOrderToEngineOrder(order);
-  
-  state.upsertActiveOrder(engineOrder);
 }
 
 /**
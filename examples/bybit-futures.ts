@@ -9,10 +9,19 @@ import 'dotenv/config';
 import {
   AccountStateStore,
 } from '../src/AccountStateStore.js';
-import { EngineOrder } from '../src/lib/types/order.js';
 import {
-  EngineSimplePosition,
-} from '../src/lib/types/position.js';
+  applyBybitV5OrderUpdate,
+  applyBybitV5PositionUpdate,
+  applyBybitV5WalletUpdate,
+  mapBybitV5Order,
+  mapBybitV5Position,
+  mapBybitV5WalletBalances,
+} from '../src/lib/adapters/bybit-v5.js';
+import {
+  BybitV5Order,
+  BybitV5Position,
+  BybitV5WsMessage,
+} from '../src/lib/adapters/bybit-v5.types.js';
 
 const key = process.env.BYBIT_API_KEY || '';
 const secret = process.env.BYBIT_API_SECRET || '';
@@ -58,55 +67,44 @@ async function syncPositionsFromREST() {
   try {
     console.log(new Date(), 'Syncing positions and orders from REST API...');
     
-    // Clear existing positions and orders from state
-    state.getAllPositions().forEach(pos => {
-      state.deleteActivePosition(pos.symbol, pos.positionSide);
-    });
-    state.clearAllOrders();
-    
     // Fetch wallet balance
     const walletBalance = await restClient.getWalletBalance({
       accountType: 'UNIFIED',
     });
     
-    if (walletBalance && walletBalance.result.list.length > 0) {
-      const usdtBalance = walletBalance.result.list[0].coin.find(b => b.coin === 'USDT');
-      if (usdtBalance) {
-        state.setWalletBalance(Number(usdtBalance.walletBalance));
-        console.log(new Date(), `Updated wallet balance: ${usdtBalance.walletBalance} USDT`);
-      }
-    }
-    
     // Fetch all positions
     const positions = await restClient.getPositionInfo({
       category: 'linear',
       settleCoin: 'USDT',
     });
-
-    console.log("Positions:", positions);
     
      // Filter active positions (non-zero position amount)
     const activePositions = positions.result.list.filter(pos => Number(pos.size) !== 0); 
-    
-    // Update state with active positions
-    activePositions.forEach(pos => {
-      const enginePos = mapBybitRestPositionToEnginePosition(pos);
-      state.setActivePosition(pos.symbol, enginePos.positionSide, enginePos);
-      console.log(new Date(), `Position updated for ${pos.symbol} ${enginePos.positionSide}: ${pos.size} @ ${pos.avgPrice} (UPNL: ${pos.unrealisedPnl})`);
-    }); 
 
     // Fetch all open orders
     const openOrders = await restClient.getActiveOrders({
       category: 'linear',
       settleCoin: 'USDT',
     });
+
+    // Unified accounts can hold several coins as collateral
+    const wallet = walletBalance.result.list[0];
     
-    // Update state with open orders
-    openOrders.result.list.forEach(order => {
-      const engineOrder = mapBybitRestOrderToEngineOrder(order);
-      state.upsertActiveOrder(engineOrder);
-      console.log(new Date(), `Order synced: ${engineOrder.symbol} ${engineOrder.orderSide} ${engineOrder.orderType} ${engineOrder.status}`);
+    // Reconcile the state with the exchange, instead of wiping & re-inserting everything
+    const report = state.reconcile({
+      positions: activePositions.map(pos => mapBybitV5Position(pos as BybitV5Position)),
+      orders: openOrders.result.list.map(order => mapBybitV5Order(order as BybitV5Order)),
+      balances: wallet ? mapBybitV5WalletBalances(wallet) : [],
     });
+
+    // Any drift means websocket state had silently diverged from REST
+    if (report.hasDrift) {
+      console.warn(new Date(), 'State drift detected during sync:', {
+        positions: report.positions.map(diff => `${diff.type}: ${diff.symbol} ${diff.side}`),
+        orders: report.orders.map(diff => `${diff.type}: ${diff.symbol} ${diff.exchangeOrderId}`),
+        balances: report.balances.map(diff => `${diff.type}: ${diff.asset}`),
+      });
+    }
     
     // Summary of active positions and orders
     const activePositionCount = state.getTotalActivePositions();
@@ -186,44 +184,27 @@ async function main() {
  * Handle position update events from WebSocket
  */
 function handlePositionUpdate(data: BybitWebSocketPosition) {
-  const { data: positionData } = data;
-  
-  if (!positionData || !Array.isArray(positionData) || positionData.length === 0) return;
-  
-  const position = positionData[0];
-  
-  // Handle position close
-  if (!position.side || Number(position.size) === 0) {
-    const positionSide = position.side === 'Buy' ? 'LONG' : 'SHORT';
-    state.deleteActivePosition(position.symbol, positionSide);
-    //console.log(new Date(), `Position closed for ${position.symbol} ${positionSide}`);
-    return;
-  }
-  
-  // Handle position update
-  const enginePos = mapBybitWsPositionToEnginePosition(position);
-  state.setActivePosition(position.symbol, enginePos.positionSide, enginePos);
-  console.log(new Date(), `Position updated from WS for ${position.symbol} ${enginePos.positionSide}: ${position.size} @ ${position.entryPrice} (UPNL: ${position.unrealisedPnl})`);
+  // Positions (including closed positions) & leverage
+  applyBybitV5PositionUpdate(state, data as BybitV5WsMessage<BybitV5Position>);
+
+  data.data.forEach(position => {
+    console.log(new Date(), `Position updated from WS for ${position.symbol} ${position.side}: ${position.size} @ ${position.entryPrice} (UPNL: ${position.unrealisedPnl})`);
+  });
 }
 
 /**
  * Handle order update events from WebSocket
  */
 function handleOrderUpdate(data: BybitWebSocketOrder) {
-  const { data: orderData } = data;
-  
-  if (!orderData || !Array.isArray(orderData) || orderData.length === 0) return;
-  
-  const order = orderData[0];
-  
-  console.log(
-    new Date(),
-    `Order update: ${order.symbol} ${order.side} ${order.orderType} ${order.orderStatus} - Qty: ${order.qty}, Price: ${order.price}`
-  );
-  
-  // Update order in state
-  const engineOrder = mapBybitWsOrderToEngineOrder(order);
-  state.upsertActiveOrder(engineOrder);
+  data.data.forEach(order => {
+    console.log(
+      new Date(),
+      `Order update: ${order.symbol} ${order.side} ${order.orderType} ${order.orderStatus} - Qty: ${order.qty}, Price: ${order.price}`
+    );
+  });
+
+  // Update orders in state
+  applyBybitV5OrderUpdate(state, data as BybitV5WsMessage<BybitV5Order>);
 }
 
 /**
@@ -234,13 +215,10 @@ function handleWalletUpdate(data: BybitWebSocketWallet) {
   
   if (!walletData || !Array.isArray(walletData) || walletData.length === 0) return;
   
-  const wallet = walletData[0];
+  // Update balances per coin
+  applyBybitV5WalletUpdate(state, data);
   
-  // Update total wallet balance
-  if (wallet.totalWalletBalance) {
-    state.setWalletBalance(Number(wallet.totalWalletBalance));
-    console.log(new Date(), `Updated total wallet balance from WS: ${wallet.totalWalletBalance} USD`);
-  }
+  const wallet = walletData[0];
   
   // Log additional wallet information
   console.log(new Date(), `Wallet Update:
@@ -266,122 +244,6 @@ function handleWalletUpdate(data: BybitWebSocketWallet) {
   }
 }
 
-/**
- * Maps Bybit REST order to internal EngineOrder format
- */
-function mapBybitRestOrderToEngineOrder(order: any): EngineOrder {
-  return {
-    exchangeOrderId: order.orderId,
-    customOrderId: order.orderLinkId,
-    symbol: order.symbol,
-    orderSide: order.side === 'Buy' ? 'BUY' : 'SELL',
-    orderType: order.orderType === 'Market' ? 'MARKET' : 'LIMIT',
-    positionSide: order.side === 'Buy' ? 'LONG' : 'SHORT',
-    status: mapBybitOrderStatusToEngineStatus(order.orderStatus),
-    price: Number(order.price),
-    originalQuantity: Number(order.qty),
-    executedQuantity: Number(order.cumExecQty),
-    averagePrice: Number(order.avgPrice),
-    createdAtMs: Number(order.createdTime),
-    updatedAtMs: Number(order.updatedTime),
-    isreduceOnly: order.reduceOnly,
-  };
-}
-
-/**
- * Maps Bybit order status to Engine order status
- */
-function mapBybitOrderStatusToEngineStatus(bybitStatus: string): EngineOrder['status'] {
-  switch (bybitStatus) {
-    case 'New':
-      return 'NEW';
-    case 'PartiallyFilled':
-      return 'PARTIALLY_FILLED';
-    case 'Untriggered':
-      return 'NEW'; // Untriggered orders are treated as NEW in our system
-    case 'Rejected':
-      return 'REJECTED';
-    case 'PartiallyFilledCanceled':
-      return 'CANCELLED'; // We don't have a specific status for partially filled canceled
-    case 'Filled':
-      return 'FILLED';
-    case 'Cancelled':
-      return 'CANCELLED';
-    case 'Triggered':
-      return 'NEW'; // Triggered orders become NEW orders
-    case 'Deactivated':
-      return 'CANCELLED';
-    default:
-      return 'REJECTED'; // Default to REJECTED for unknown statuses
-  }
-}
-
-/**
- * Maps Bybit WebSocket order to internal EngineOrder format
- */
-function mapBybitWsOrderToEngineOrder(order: WSAccountOrderV5): EngineOrder {
-  return {
-    exchangeOrderId: order.orderId,
-    customOrderId: order.orderLinkId,
-    symbol: order.symbol,
-    orderSide: order.side === 'Buy' ? 'BUY' : 'SELL',
-    orderType: order.orderType === 'Market' ? 'MARKET' : 'LIMIT',
-    positionSide: order.side === 'Buy' ? 'LONG' : 'SHORT',
-    status: mapBybitOrderStatusToEngineStatus(order.orderStatus),
-    price: Number(order.price),
-    originalQuantity: Number(order.qty),
-    executedQuantity: Number(order.cumExecQty),
-    averagePrice: Number(order.avgPrice),
-    createdAtMs: Number(order.createdTime),
-    updatedAtMs: Number(order.updatedTime),
-    isreduceOnly: order.reduceOnly,
-  };
-}
-
-/**
- * Maps Bybit REST position to internal EngineSimplePosition format
- */
-function mapBybitRestPositionToEnginePosition(pos: any): EngineSimplePosition {
-  const positionSide = pos.side === 'Buy' ? 'LONG' : 'SHORT';
-  
-  return {
-    symbol: pos.symbol,
-    timestampMs: Date.now(),
-    positionSide: positionSide,
-    orderPositionSide: positionSide,
-    positionPrice: Number(pos.entryPrice),
-    assetQty: Number(pos.size),
-    value: Number(pos.size) * Number(pos.entryPrice),
-    valueUpnl: Number(pos.unrealisedPnl),
-    liquidationPrice: Number(pos.liqPrice || 0),
-    stopLossPrice: undefined,
-    takeProfitPrice: undefined,
-    marginValue: (Number(pos.size) * Number(pos.entryPrice)),
-  };
-}
-
-/**
- * Maps Bybit WebSocket position to internal EngineSimplePosition format
- */
-function mapBybitWsPositionToEnginePosition(pos: WSPositionV5): EngineSimplePosition {
-  const positionSide = pos.side === 'Buy' ? 'LONG' : 'SHORT';
-  
-  return {
-    symbol: pos.symbol,
-    timestampMs: Date.now(),
-    positionSide: positionSide,
-    orderPositionSide: positionSide,
-    positionPrice: Number(pos.entryPrice),
-    assetQty: Number(pos.size),
-    value: Number(pos.positionValue),
-    valueUpnl: Number(pos.unrealisedPnl),
-    liquidationPrice: Number(pos.liqPrice || 0),
-    stopLossPrice: Number(pos.stopLoss || 0),
-    takeProfitPrice: Number(pos.takeProfit || 0),
-    marginValue: Number(pos.positionBalance),
-  };
-}
-
 /**
  * Print account state summary
  */
@@ -390,7 +252,7 @@ function printAccountSummary() {
   const activeOrders = state.getOrdersSortedByPrice();
   
   console.log('\n=== Account Summary ===');
-  console.log(`Total Wallet Balance: ${state.getWalletBalance()} USD`);
+  console.log(`Wallet Balance: ${state.getWalletBalance()} USDT`);
   console.log(`Total Positions: ${state.getTotalActivePositions().total}`);
   console.log(`Unrealized PNL: ${summary.activePositionUpnlSum.toFixed(2)} USD`);
   console.log(`Active Orders: ${activeOrders.length}`);
@@ -1,12 +1,211 @@
-import { IncomingPriceEvent } from './lib/types/events.js';
-import { EngineOrder } from './lib/types/order.js';
+import { AccountStateJournal } from './lib/journal/AccountStateJournal.js';
+import { FillLedger } from './lib/ledger/FillLedger.js';
+import { TypedEventEmitter } from './lib/misc/TypedEventEmitter.js';
 import {
+  isTerminalOrderStatus,
+  OrderArchive,
+} from './lib/orders/OrderArchive.js';
+import { OrderIndex } from './lib/orders/OrderIndex.js';
+import {
+  getNearestStopLossPrice,
+  getNearestTakeProfitPrice,
+  getOrdersCoverageQty,
+  isStopLossOrderType,
+  isTakeProfitOrderType,
+} from './lib/orders/order-groups.js';
+import {
+  diffBalances,
+  diffOrders,
+  diffPositions,
+  isWithinTolerance,
+} from './lib/reconcile/reconcile.js';
+import { migrateSnapshot } from './lib/snapshot.js';
+import {
+  DEFAULT_QUOTE_ASSET,
+  EngineAggregateBalance,
+  EngineAssetBalance,
+  EngineAssetBalanceUpdate,
+} from './lib/types/balance.js';
+import { EngineContractSpec } from './lib/types/contract.js';
+import {
+  ENGINE_PRICE_TYPE,
+  EnginePriceType,
+  EngineSymbolPrices,
+  IncomingPriceEvent,
+} from './lib/types/events.js';
+import {
+  LiquidationEstimate,
+  MaintenanceMarginBracket,
+} from './lib/types/liquidation.js';
+import {
+  AccountStateJournalEntry,
+  AccountStateMutation,
+  AccountStateReplayOptions,
+} from './lib/types/journal.js';
+import {
+  EngineFill,
+  EngineFundingPayment,
+  EngineTradingFee,
+  FillLedgerState,
+  FillPositionContext,
+  PositionLifetimeState,
+  RealisedPnlState,
+} from './lib/types/ledger.js';
+import { EngineOrder, EnginePendingOrder } from './lib/types/order.js';
+import {
+  EngineOrderIntent,
+  EngineSymbolExposure,
+} from './lib/types/order-intent.js';
+import {
+  ArchivedOrder,
+  EngineOrderTransition,
+  OrderArchiveQuery,
+} from './lib/types/order-archive.js';
+import {
+  ENGINE_ORDER_ROLE,
+  EngineOrderGroup,
+  EngineOrderGroupMember,
+  EnginePositionProtection,
+} from './lib/types/order-group.js';
+import {
+  ENGINE_MARGIN_MODE,
+  ENGINE_POSITION_MODE,
+  EngineMarginMode,
+  EnginePositionMode,
   EnginePositionSide,
   EngineSimplePosition,
 } from './lib/types/position.js';
-import { getUnrealisedPNL } from './util/math.js';
+import {
+  AccountStateEventMap,
+  PositionChangeEvent,
+  PositionChangeType,
+} from './lib/types/state-events.js';
+import {
+  ReconcileInput,
+  ReconcileOptions,
+  ReconcileReport,
+} from './lib/types/reconcile.js';
+import {
+  StaleDataType,
+  StaleSymbolState,
+  StalenessThresholds,
+} from './lib/types/staleness.js';
+import {
+  ApplyFillToPositionOptions,
+  ApplyFillToPositionResult,
+  EngineFillInput,
+  FillSimulationResult,
+} from './lib/types/simulation.js';
+import { AccountStateStoreOptions } from './lib/types/store.js';
+import {
+  ACCOUNT_STATE_SNAPSHOT_VERSION,
+  AccountStateSnapshot,
+  SnapshotRestoreOptions,
+  VersionedSnapshot,
+} from './lib/types/snapshot.js';
+import {
+  getContractPositionValue,
+  getContractUnrealisedPNL,
+} from './util/math.js';
+import {
+  estimateLiquidationPrice,
+  getMaintenanceMargin,
+  getMarginRatio,
+} from './util/liquidation.math.js';
+import {
+  applyFillToPosition,
+  calulateDepthSummaryForAllPositions,
+} from './util/position.math.js';
+import { MarginModeCache } from './util/position.types.js';
+
+/** Compare asset quantities before & after a position change, to determine what kind of change it was */
+function getPositionChangeType(
+  previous: EngineSimplePosition | undefined,
+  current: EngineSimplePosition | undefined,
+): PositionChangeType {
+  const previousQty = previous?.assetQty || 0;
+  const currentQty = current?.assetQty || 0;
+
+  if (!previousQty && currentQty) {
+    return 'opened';
+  }
+  if (previousQty && !currentQty) {
+    return 'closed';
+  }
+  if (Math.sign(previousQty) !== Math.sign(currentQty)) {
+    return 'flipped';
+  }
+  if (Math.abs(currentQty) > Math.abs(previousQty)) {
+    return 'increased';
+  }
+  if (Math.abs(currentQty) < Math.abs(previousQty)) {
+    return 'reduced';
+  }
+  return 'updated';
+}
 
+/**
+ * Resolve which position an order affects.
+ *
+ * In one-way mode, all orders affect the net position (stored under NONE). Otherwise, orders without a position side are attributed by direction.
+ */
+export function getOrderPositionSide(
+  order: Pick<EngineOrder, 'orderSide' | 'isreduceOnly'> &
+    Partial<Pick<EngineOrder, 'positionSide'>>,
+  positionMode: EnginePositionMode,
+): EnginePositionSide {
+  if (positionMode === ENGINE_POSITION_MODE.ONE_WAY) {
+    return 'NONE';
+  }
+  if (order.positionSide && order.positionSide !== 'NONE') {
+    return order.positionSide;
+  }
 
+  const isBuy = order.orderSide === 'BUY';
+  if (order.isreduceOnly) {
+    return isBuy ? 'SHORT' : 'LONG';
+  }
+  return isBuy ? 'LONG' : 'SHORT';
+}
+
+/**
+ * Whether an order can only reduce a position: reduce-only orders, or in hedge mode, orders closing the position on their position side.
+ */
+function isPositionReducingOrder(
+  order: EngineOrder,
+  positionMode: EnginePositionMode,
+): boolean {
+  if (order.isreduceOnly) {
+    return true;
+  }
+  if (positionMode === ENGINE_POSITION_MODE.ONE_WAY) {
+    return false;
+  }
+  return (
+    (order.positionSide === 'LONG' && order.orderSide === 'SELL') ||
+    (order.positionSide === 'SHORT' && order.orderSide === 'BUY')
+  );
+}
+
+/** Whether a group member references this order, by exchange or custom order ID */
+function isOrderGroupMember(
+  member: EngineOrderGroupMember,
+  order: EngineOrder | EnginePendingOrder,
+): boolean {
+  return (
+    (!!order.exchangeOrderId && member.orderId === order.exchangeOrderId) ||
+    (!!order.customOrderId && member.orderId === order.customOrderId)
+  );
+}
+
+const POSITION_CHANGE_EVENT_NAMES = {
+  opened: 'positionOpened',
+  increased: 'positionIncreased',
+  reduced: 'positionReduced',
+  closed: 'positionClosed',
+  flipped: 'positionFlipped',
+  updated: 'positionUpdated',
+} as const;
 
 /**
  * This abstraction layer is a state cache for account state (so we know what changed when an event comes in).
@@ -17,15 +216,26 @@ import { getUnrealisedPNL } from './util/math.js';
  * - accountPositionMetadata - an object representing information about a position, per symbol
  *
  * This "accountPositionMetadata" can be any additional info to store about this symbol's position(s). A good place to store custom info.
+ *
+ * Any change to positions, orders, balance, leverage or metadata is emitted as a typed event (see AccountStateEventMap). Use on(), off() & once() to subscribe.
+ *
+ * Both hedge (dual) and one-way (net) position modes are supported, see AccountStateStoreOptions.positionMode.
+ *
+ * Optionally, every mutation can also be recorded in a journal (see AccountStateJournal), which can be replayed to rebuild state at any point in time.
  */
 export class AccountStateStore<
   TEnginePositionMetadata extends object = Record<string, unknown>,
-> {
+> extends TypedEventEmitter<AccountStateEventMap<TEnginePositionMetadata>> {
   private isPendingPersistPositionMetadata = false;
 
   // symbol:leverageValue
   private accountLeverageState: Record<string, number> = {};
 
+  // per symbol, per side, margin mode (if different from the default margin mode)
+  private accountMarginModeState: MarginModeCache = {};
+
+  private defaultMarginMode: EngineMarginMode;
+
   // per symbol, per side, cache a copy of the position state
   private accountPositionState: Record<
     string,
@@ -41,80 +251,888 @@ export class AccountStateStore<
   > = {};
 
   // Store all active orders, keyed by "endineOrder.exchangeOrderId"
-  private accountOrders: Map<string, EngineOrder> = new Map();
+  private accountOrders: OrderIndex = new OrderIndex();
+
+  // Orders placed but not acknowledged by the exchange yet, keyed by custom order ID
+  private pendingOrders: Map<string, EnginePendingOrder> = new Map();
+
+  private pendingOrderTimeoutMs: number;
+
+  // Linked orders (e.g. an entry with its stop loss & take profit orders), keyed by group ID
+  private orderGroups: Record<string, EngineOrderGroup> = {};
+
+  // per asset, balance state (e.g. USDT & BTC collateral in a unified account)
+  private accountBalanceState: Record<string, EngineAssetBalance> = {};
+
+  // per asset, price of one unit in the reporting asset
+  private assetConversionPrices: Record<string, number> = {};
+
+  // per symbol, per price type, the most recent price seen via processPriceEvent()
+  private symbolPrices: Record<string, EngineSymbolPrices> = {};
+
+  // which price type drives UPNL & liquidation estimates
+  private upnlPriceType: EnginePriceType;
+
+  // per symbol, per side, when the position was last set via setActivePosition()
+  private positionUpdateTimes: Record<
+    string,
+    Partial<Record<EnginePositionSide, number>>
+  > = {};
+
+  private stalenessThresholds: StalenessThresholds;
+
+  // symbols currently considered stale, as of the last staleness check
+  private staleSymbols: Map<string, StaleSymbolState> = new Map();
+
+  // per symbol, tiered maintenance margin brackets (if registered)
+  private maintenanceMarginBrackets: Record<
+    string,
+    MaintenanceMarginBracket[]
+  > = {};
+
+  // per symbol, contract spec (if registered)
+  private contractSpecs: Record<string, EngineContractSpec> = {};
+
+  private quoteAsset: string;
+
+  private reportingAsset: string;
 
   private accountOtherState = {
-    balance: 0,
     previousBalance: 0,
     hedgedPositions: 0,
   };
 
+  private positionMode: EnginePositionMode;
+
+  private journal: AccountStateJournal<TEnginePositionMetadata> | undefined;
+
+  // While > 0, mutations are applied as part of another journaled mutation and aren't journaled themselves
+  private journalSuspendDepth = 0;
+
+  // When the most recent mutation was applied (as journaled), used instead of the current time while applying it
+  private mutationTimeMs: number | undefined;
+
+  // While replaying a journal entry, when that entry was originally journaled
+  private replayTimeMs: number | undefined;
+
+  // While set, change events are queued here instead of emitted (e.g. until a reconcile applied without errors)
+  private deferredEvents: (() => void)[] | undefined;
+
+  // Incremental fills & realised PnL, derived from order updates
+  private fillLedger: FillLedger;
+
+  // Terminal orders & order status transitions. Only kept if enabled via options.
+  private orderArchive: OrderArchive | undefined;
+
+  // If enabled, positions are derived from fills in order updates
+  private positionsFromFills: boolean;
+
+  constructor(options: AccountStateStoreOptions<TEnginePositionMetadata> = {}) {
+    super();
+    this.positionMode = options.positionMode || ENGINE_POSITION_MODE.HEDGE;
+    this.defaultMarginMode =
+      options.defaultMarginMode || ENGINE_MARGIN_MODE.CROSS;
+    this.quoteAsset = options.quoteAsset || DEFAULT_QUOTE_ASSET;
+    this.reportingAsset = options.reportingAsset || this.quoteAsset;
+    this.upnlPriceType = options.upnlPriceType || ENGINE_PRICE_TYPE.LAST;
+    this.stalenessThresholds = {
+      priceMaxAgeMs: 60000,
+      ...options.staleness,
+    };
+    this.pendingOrderTimeoutMs = options.pendingOrderTimeoutMs ?? 10000;
+    this.journal = options.journal;
+    this.fillLedger = new FillLedger(
+      options.fillLedger,
+      () => this.getMutationTimeMs(),
+      (symbol) => this.getSettleAsset(symbol),
+    );
+    if (options.orderArchive) {
+      this.orderArchive = new OrderArchive(options.orderArchive, () =>
+        this.getMutationTimeMs(),
+      );
+    }
+    this.positionsFromFills = !!options.positionsFromFills;
+  }
+
+  /**
+   * Create a store from a snapshot previously created via toSnapshot().
+   *
+   * Snapshots from older schema versions are migrated first (see SnapshotRestoreOptions for custom migration hooks).
+   */
+  static fromSnapshot<
+    TEnginePositionMetadata extends object = Record<string, unknown>,
+  >(
+    snapshot: AccountStateSnapshot<TEnginePositionMetadata> | VersionedSnapshot,
+    options?: SnapshotRestoreOptions,
+    storeOptions?: AccountStateStoreOptions<TEnginePositionMetadata>,
+  ): AccountStateStore<TEnginePositionMetadata> {
+    const store = new AccountStateStore<TEnginePositionMetadata>(storeOptions);
+    store.restoreSnapshot(snapshot, options);
+    return store;
+  }
+
+  /**
+   * Rebuild a store by re-applying journaled mutations in sequence, optionally stopping at a specific sequence number or time.
+   *
+   * The returned store does not have a journal attached, unless one is provided via storeOptions.
+   */
+  static replay<
+    TEnginePositionMetadata extends object = Record<string, unknown>,
+  >(
+    journal:
+      | AccountStateJournal<TEnginePositionMetadata>
+      | AccountStateJournalEntry<TEnginePositionMetadata>[],
+    options: AccountStateReplayOptions = {},
+    storeOptions?: AccountStateStoreOptions<TEnginePositionMetadata>,
+  ): AccountStateStore<TEnginePositionMetadata> {
+    const entries = Array.isArray(journal)
+      ? [...journal]
+      : journal.getEntries();
+    entries.sort((a, b) => a.seq - b.seq);
+
+    const store = new AccountStateStore<TEnginePositionMetadata>(storeOptions);
+    for (const entry of entries) {
+      if (options.untilSeq !== undefined && entry.seq > options.untilSeq) {
+        break;
+      }
+      if (
+        options.untilTime !== undefined &&
+        entry.timestampMs > options.untilTime
+      ) {
+        break;
+      }
+
+      // Anything timed while applying the entry uses the time it was journaled, not the time of the replay
+      store.replayTimeMs = entry.timestampMs;
+      try {
+        store.applyMutation(structuredClone(entry));
+      } finally {
+        store.replayTimeMs = undefined;
+      }
+    }
+
+    return store;
+  }
+
+  getJournal(): AccountStateJournal<TEnginePositionMetadata> | undefined {
+    return this.journal;
+  }
+
+  /** Attach a journal to record all subsequent mutations (or pass undefined to stop journaling) */
+  setJournal(
+    journal: AccountStateJournal<TEnginePositionMetadata> | undefined,
+  ): void {
+    this.journal = journal;
+  }
+
+  /**
+   * Apply a mutation, as recorded in the journal, by calling the corresponding store method.
+   */
+  applyMutation(mutation: AccountStateMutation<TEnginePositionMetadata>): void {
+    switch (mutation.type) {
+      case 'setActivePosition':
+        return this.setActivePosition(
+          mutation.symbol,
+          mutation.side,
+          mutation.position,
+        );
+      case 'deleteActivePosition':
+        return this.deleteActivePosition(mutation.symbol, mutation.side);
+      case 'upsertActiveOrder':
+        return this.upsertActiveOrder(mutation.order);
+      case 'deleteOrder':
+        return this.deleteOrder(mutation.orderId);
+      case 'clearAllOrders':
+        return this.clearAllOrders();
+      case 'addPendingOrder':
+        return this.addPendingOrder(mutation.order);
+      case 'linkPendingOrder':
+        this.linkPendingOrder(
+          mutation.customOrderId,
+          mutation.exchangeOrderId,
+          mutation.updatedAtMs,
+        );
+        return;
+      case 'removePendingOrder':
+        return this.removePendingOrder(mutation.customOrderId);
+      case 'expirePendingOrders':
+        this.expirePendingOrders(mutation.nowMs);
+        return;
+      case 'setOrderGroup':
+        return this.setOrderGroup(mutation.group);
+      case 'deleteOrderGroup':
+        return this.deleteOrderGroup(mutation.groupId);
+      case 'applyFill':
+        this.applyFill(mutation.fill);
+        return;
+      case 'processPriceEvent':
+        return this.processPriceEvent(mutation.event);
+      case 'setWalletBalance':
+        return this.setWalletBalance(mutation.balance, mutation.asset);
+      case 'setAssetBalance':
+        return this.setAssetBalance(mutation.asset, mutation.balance);
+      case 'deleteAssetBalance':
+        return this.deleteAssetBalance(mutation.asset);
+      case 'setAssetConversionPrice':
+        return this.setAssetConversionPrice(mutation.asset, mutation.price);
+      case 'setContractSpec':
+        return this.setContractSpec(mutation.contractSpec);
+      case 'reconcile':
+        this.reconcile(mutation.input, mutation.options);
+        return;
+      case 'setMaintenanceMarginBrackets':
+        return this.setMaintenanceMarginBrackets(
+          mutation.symbol,
+          mutation.brackets,
+        );
+      case 'storePreviousBalance':
+        return this.storePreviousBalance();
+      case 'setSymbolLeverage':
+        return this.setSymbolLeverage(mutation.symbol, mutation.leverage);
+      case 'setAllSymbolMetadata':
+        return this.setAllSymbolMetadata(mutation.metadata);
+      case 'setSymbolMetadata':
+        this.setSymbolMetadata(mutation.symbol, mutation.metadata);
+        return;
+      case 'setSymbolMetadataValue':
+        this.setSymbolMetadataValue(
+          mutation.symbol,
+          mutation.key,
+          mutation.value as TEnginePositionMetadata[keyof TEnginePositionMetadata],
+        );
+        return;
+      case 'deletePositionMetadata':
+        return this.deletePositionMetadata(mutation.symbol);
+      case 'setIsPendingPersist':
+        return this.setIsPendingPersist(mutation.value);
+      case 'restoreSnapshot':
+        return this.restoreSnapshot(mutation.snapshot);
+      case 'resetSession':
+        return this.resetSession(mutation.sessionStartMs);
+      case 'recordTradingFee':
+        return this.recordTradingFee(mutation.fee);
+      case 'recordFundingPayment':
+        return this.recordFundingPayment(mutation.payment);
+      case 'setPositionMode':
+        return this.setPositionMode(mutation.positionMode);
+      case 'setSymbolMarginMode':
+        return this.setSymbolMarginMode(
+          mutation.symbol,
+          mutation.marginMode,
+          mutation.side,
+        );
+      default: {
+        const unhandledMutation: never = mutation;
+        throw new Error(
+          `Unhandled mutation type: ${JSON.stringify(unhandledMutation)}`,
+        );
+      }
+    }
+  }
+
+  private recordMutation(
+    mutation: AccountStateMutation<TEnginePositionMetadata>,
+  ): void {
+    if (this.journalSuspendDepth) {
+      return;
+    }
+    const timestampMs = this.startMutation();
+    this.journal?.append(mutation, timestampMs);
+  }
+
+  /** Resolve the time of a top-level mutation. Replays use the time the mutation was journaled. */
+  private startMutation(): number {
+    const timestampMs = this.replayTimeMs ?? Date.now();
+    this.mutationTimeMs = timestampMs;
+    this.fillLedger.initSessionStartMs(timestampMs);
+    return timestampMs;
+  }
+
+  private getMutationTimeMs(): number {
+    return this.mutationTimeMs ?? Date.now();
+  }
+
+  protected emit<
+    TEventName extends keyof AccountStateEventMap<TEnginePositionMetadata>,
+  >(
+    eventName: TEventName,
+    event: AccountStateEventMap<TEnginePositionMetadata>[TEventName],
+  ): void {
+    if (this.deferredEvents) {
+      this.deferredEvents.push(() => super.emit(eventName, event));
+      return;
+    }
+    super.emit(eventName, event);
+  }
+
+  /** Run store methods as part of another (already journaled) mutation, without journaling them again */
+  private withoutJournal<T>(fn: () => T): T {
+    this.journalSuspendDepth++;
+    try {
+      return fn();
+    } finally {
+      this.journalSuspendDepth--;
+    }
+  }
+
   dumpLogState(): void {
-    console.log(
-      `Position dump: `,
-      JSON.stringify(
-        {
-          accountLeverageState: this.accountLeverageState,
-          acconutPositionState: this.accountPositionState,
-          accountOtherState: this.accountOtherState,
-        },
-        null,
-        2,
+    console.log(`State dump: `, JSON.stringify(this.toSnapshot(), null, 2));
+  }
+
+  /**
+   * Return a serialisable (deep) copy of the full account state, including positions, orders, leverage, balances and metadata.
+   *
+   * Restore it via AccountStateStore.fromSnapshot() or restoreSnapshot().
+   */
+  toSnapshot(): AccountStateSnapshot<TEnginePositionMetadata> {
+    const positions: AccountStateSnapshot['positions'] = {};
+    for (const symbol in this.accountPositionState) {
+      for (const posSide in this.accountPositionState[symbol]) {
+        const side = posSide as EnginePositionSide;
+        const position = this.accountPositionState[symbol][side];
+        if (position) {
+          positions[symbol] = positions[symbol] || {};
+          positions[symbol][side] = position;
+        }
+      }
+    }
+
+    return structuredClone({
+      version: ACCOUNT_STATE_SNAPSHOT_VERSION,
+      createdAtMs: Date.now(),
+      positions,
+      orders: this.getOrders(),
+      pendingOrders: this.getPendingOrders(),
+      orderGroups: this.orderGroups,
+      leverage: this.accountLeverageState,
+      balances: this.accountBalanceState,
+      previousBalance: this.accountOtherState.previousBalance,
+      conversionPrices: this.assetConversionPrices,
+      contractSpecs: this.contractSpecs,
+      maintenanceMarginBrackets: this.maintenanceMarginBrackets,
+      hedgedPositions: this.accountOtherState.hedgedPositions,
+      metadata: this.accountPositionMetadata,
+      isPendingPersist: this.isPendingPersistPositionMetadata,
+      fillLedger: this.fillLedger.toState(),
+      orderArchive: this.orderArchive?.toState(),
+      positionMode: this.positionMode,
+      marginModes: this.accountMarginModeState,
+    });
+  }
+
+  /**
+   * Overwrite all state in this store with state from a snapshot (see toSnapshot()).
+   *
+   * Note: this replaces state wholesale and does not emit any change events.
+   */
+  restoreSnapshot(
+    snapshot: AccountStateSnapshot<TEnginePositionMetadata> | VersionedSnapshot,
+    options?: SnapshotRestoreOptions,
+  ): void {
+    const state = structuredClone(
+      migrateSnapshot<TEnginePositionMetadata>(
+        snapshot as VersionedSnapshot,
+        options?.migrations,
+        { quoteAsset: this.quoteAsset },
       ),
     );
+    this.recordMutation({ type: 'restoreSnapshot', snapshot: { ...state } });
+
+    this.accountPositionState = {};
+    this.positionUpdateTimes = {};
+    for (const symbol in state.positions) {
+      this.assertInitialStateActivePosition(symbol);
+      for (const posSide in state.positions[symbol]) {
+        const side = posSide as EnginePositionSide;
+        this.accountPositionState[symbol][side] = state.positions[symbol][side];
+      }
+    }
+
+    this.accountOrders = new OrderIndex(state.orders);
+    this.pendingOrders = new Map(
+      (state.pendingOrders || []).map((order) => [order.customOrderId, order]),
+    );
+    this.orderGroups = state.orderGroups || {};
+    this.accountLeverageState = state.leverage;
+    this.accountBalanceState = state.balances;
+    this.assetConversionPrices = state.conversionPrices || {};
+    this.contractSpecs = state.contractSpecs || {};
+    this.maintenanceMarginBrackets = state.maintenanceMarginBrackets || {};
+    this.accountOtherState = {
+      previousBalance: state.previousBalance,
+      hedgedPositions: state.hedgedPositions,
+    };
+    this.accountPositionMetadata = state.metadata;
+    this.isPendingPersistPositionMetadata = state.isPendingPersist;
+
+    if (state.positionMode) {
+      this.positionMode = state.positionMode;
+    }
+    this.accountMarginModeState = state.marginModes || {};
+    if (state.fillLedger) {
+      this.fillLedger.restoreState(state.fillLedger);
+    }
+    this.orderArchive?.restoreState(
+      state.orderArchive || { orders: [], activeTransitions: {} },
+    );
   }
 
   /**
-   * Pass a price update event to recalculate price-sensitive position state (such as UPNL)
+   * Reconcile the store against account state reported by the exchange (e.g. via REST, after a websocket reconnect), and return a report of any drift.
+   *
+   * Only the parts provided (positions, orders and/or balances) are reconciled:
+   * - Anything on the exchange but missing or different in the store is added or overwritten. Positions & balances are always refreshed, since UPNL, equity etc. change continuously.
+   * - Anything in the store that isn't on the exchange anymore (including stale orders) is removed.
+   *
+   * The diff is computed before any change is made, and changes are applied together: if applying fails, the store is rolled back to its previous state.
+   * Change events are only emitted (and the reconcile only journaled) once all changes were applied.
+   */
+  reconcile(
+    input: ReconcileInput,
+    options: ReconcileOptions = {},
+  ): ReconcileReport {
+    const { dryRun, qtyTolerance, priceTolerance, balanceTolerance } = options;
+
+    const positions = input.positions
+      ? diffPositions(
+          this.getAllPositions(),
+          input.positions,
+          (side) => this.getStorageSide(side),
+          qtyTolerance,
+          priceTolerance,
+        )
+      : [];
+    const orders = input.orders
+      ? diffOrders(this.getOrders(), input.orders, qtyTolerance, priceTolerance)
+      : [];
+    const balances = input.balances
+      ? diffBalances(
+          this.getAllAssetBalances(),
+          input.balances,
+          balanceTolerance,
+        )
+      : [];
+
+    // Applied reconciles are journaled, so they're timed like any other mutation
+    const timestampMs = dryRun
+      ? Date.now()
+      : this.journalSuspendDepth
+      ? this.getMutationTimeMs()
+      : this.startMutation();
+
+    const report: ReconcileReport = {
+      timestampMs,
+      hasDrift: !!(positions.length || orders.length || balances.length),
+      applied: !dryRun,
+      positions,
+      orders,
+      balances,
+    };
+
+    if (!dryRun) {
+      const rollbackState = this.toSnapshot();
+      const rollbackPositionUpdateTimes = structuredClone(
+        this.positionUpdateTimes,
+      );
+
+      const deferredEvents: (() => void)[] = [];
+      this.deferredEvents = deferredEvents;
+      try {
+        this.withoutJournal(() => this.applyReconcileReport(input, report));
+      } catch (e) {
+        this.withoutJournal(() => this.restoreSnapshot(rollbackState));
+        // Not part of snapshots, so restoreSnapshot() cleared them
+        this.positionUpdateTimes = rollbackPositionUpdateTimes;
+        throw e;
+      } finally {
+        this.deferredEvents = undefined;
+      }
+
+      if (!this.journalSuspendDepth) {
+        this.journal?.append(
+          { type: 'reconcile', input, options },
+          timestampMs,
+        );
+      }
+      for (const emitEvent of deferredEvents) {
+        emitEvent();
+      }
+    }
+
+    this.emit('reconciled', report);
+    return report;
+  }
+
+  private applyReconcileReport(
+    input: ReconcileInput,
+    report: ReconcileReport,
+  ): void {
+    for (const diff of report.balances) {
+      if (!diff.remote) {
+        this.deleteAssetBalance(diff.asset);
+      }
+    }
+    for (const { asset, ...balance } of input.balances || []) {
+      this.setAssetBalance(asset, balance);
+    }
+
+    for (const diff of report.positions) {
+      if (!diff.remote) {
+        this.deleteActivePosition(diff.symbol, diff.side);
+      }
+    }
+    for (const position of input.positions || []) {
+      if (position.assetQty) {
+        this.setActivePosition(position.symbol, position.positionSide, {
+          ...position,
+        });
+      }
+    }
+
+    for (const diff of report.orders) {
+      if (diff.remote) {
+        this.upsertActiveOrder({ ...diff.remote });
+      } else {
+        this.deleteOrder(diff.exchangeOrderId);
+      }
+    }
+  }
+
+  /**
+   * Pass a price update event to cache the price and recalculate price-sensitive position state (such as UPNL)
+   *
+   * Only prices of the UPNL price type (see AccountStateStoreOptions.upnlPriceType, default: last) affect positions. Other price types are only cached.
+   *
+   * For symbols with a contract spec (see setContractSpec()), position value & margin are also recalculated, in the settle asset.
    */
   public processPriceEvent(event: IncomingPriceEvent): void {
+    const priceType = event.priceType || ENGINE_PRICE_TYPE.LAST;
+    const timestampMs = event.timestampMs ?? Date.now();
+    // Journal the resolved timestamp, so replays are deterministic
+    this.recordMutation({
+      type: 'processPriceEvent',
+      event: { ...event, priceType, timestampMs },
+    });
+
     const { symbol, price } = event;
+    this.symbolPrices[symbol] = {
+      ...this.symbolPrices[symbol],
+      [priceType]: { price, timestampMs },
+    };
+
+    if (priceType !== this.upnlPriceType) {
+      return;
+    }
+
     const longPos = this.getActivePosition(symbol, 'LONG');
     if (longPos) {
-      longPos.valueUpnl = getUnrealisedPNL(
-        price,
-        longPos.assetQty,
-        longPos.positionPrice,
-      );
+      this.applyPriceToPosition(longPos, price);
     }
 
     const shortPos = this.getActivePosition(symbol, 'SHORT');
     if (shortPos) {
-      shortPos.valueUpnl = getUnrealisedPNL(
-        price,
-        shortPos.assetQty,
-        shortPos.positionPrice,
-      );
+      this.applyPriceToPosition(shortPos, price);
+    }
+
+    this.checkSymbolRecovered(symbol);
+  }
+
+  private applyPriceToPosition(
+    position: EngineSimplePosition,
+    price: number,
+  ): void {
+    const contractSpec = this.contractSpecs[position.symbol];
+    position.valueUpnl = getContractUnrealisedPNL(
+      contractSpec,
+      price,
+      position.assetQty,
+      position.positionPrice,
+    );
+
+    // Without a contract spec, value & margin are left as provided by the exchange
+    if (!contractSpec) {
+      return;
+    }
+
+    position.value = getContractPositionValue(
+      contractSpec,
+      price,
+      position.assetQty,
+    );
+    const leverage = this.getSymbolLeverage(position.symbol);
+    if (leverage) {
+      position.marginValue = position.value / leverage;
+    }
+  }
+
+  /** Most recent price of one type for a symbol (the UPNL price type, unless another type is provided) */
+  getPrice(
+    symbol: string,
+    priceType: EnginePriceType = this.upnlPriceType,
+  ): number | undefined {
+    return this.symbolPrices[symbol]?.[priceType]?.price;
+  }
+
+  /** Most recent price per price type for a symbol, with the time each price was seen */
+  getSymbolPrices(symbol: string): EngineSymbolPrices {
+    return structuredClone(this.symbolPrices[symbol] || {});
+  }
+
+  /** Price type that drives UPNL & liquidation estimates */
+  getUpnlPriceType(): EnginePriceType {
+    return this.upnlPriceType;
+  }
+
+  /** When the position for this symbol & side was last set via setActivePosition() (or its own timestamp, if restored from a snapshot) */
+  getPositionUpdatedAtMs(
+    symbol: string,
+    side: EnginePositionSide,
+  ): number | undefined {
+    const position = this.getActivePosition(symbol, side);
+    if (!position) {
+      return undefined;
+    }
+
+    return (
+      this.positionUpdateTimes[symbol]?.[this.getStorageSide(side)] ??
+      position.timestampMs
+    );
+  }
+
+  getStalenessThresholds(): StalenessThresholds {
+    return { ...this.stalenessThresholds };
+  }
+
+  /** Change staleness thresholds. Any thresholds not provided keep their current value. */
+  setStalenessThresholds(thresholds: StalenessThresholds): void {
+    this.stalenessThresholds = {
+      ...this.stalenessThresholds,
+      ...thresholds,
+    };
+  }
+
+  /**
+   * Symbols with stale data, as of now (or the provided time). Checks every symbol with an active position or a cached price:
+   * - price: the UPNL price is older than priceMaxAgeMs, or missing for a symbol with an active position.
+   * - position: an active position wasn't updated for longer than positionMaxAgeMs (if configured).
+   *
+   * This is a query only, see checkStaleness() to also emit "dataStale" & "dataRecovered" events.
+   */
+  getStaleSymbols(nowMs: number = Date.now()): StaleSymbolState[] {
+    const symbols = new Set([
+      ...Object.keys(this.symbolPrices),
+      ...this.getAllPositions().map((position) => position.symbol),
+    ]);
+
+    const staleSymbols: StaleSymbolState[] = [];
+    for (const symbol of symbols) {
+      const state = this.getSymbolStaleness(symbol, nowMs);
+      if (state.staleData.length) {
+        staleSymbols.push(state);
+      }
     }
+    return staleSymbols;
+  }
+
+  /**
+   * Check for stale data and emit "dataStale" for symbols that became stale, and "dataRecovered" for symbols that are up to date again.
+   *
+   * Call this periodically, or use a StalenessMonitor. Symbols also recover as soon as a fresh price or position update arrives.
+   */
+  checkStaleness(nowMs: number = Date.now()): StaleSymbolState[] {
+    const staleSymbols = this.getStaleSymbols(nowMs);
+    const staleSymbolNames = new Set(staleSymbols.map((state) => state.symbol));
+
+    for (const [symbol, previous] of [...this.staleSymbols]) {
+      if (!staleSymbolNames.has(symbol)) {
+        this.staleSymbols.delete(symbol);
+        this.emit('dataRecovered', { symbol, previous });
+      }
+    }
+
+    for (const state of staleSymbols) {
+      const wasStale = this.staleSymbols.has(state.symbol);
+      this.staleSymbols.set(state.symbol, state);
+      if (!wasStale) {
+        this.emit('dataStale', { ...state, staleData: [...state.staleData] });
+      }
+    }
+
+    return staleSymbols;
+  }
+
+  private getSymbolStaleness(symbol: string, nowMs: number): StaleSymbolState {
+    const { priceMaxAgeMs, positionMaxAgeMs } = this.stalenessThresholds;
+
+    const priceUpdatedAtMs =
+      this.symbolPrices[symbol]?.[this.upnlPriceType]?.timestampMs;
+
+    let positionUpdatedAtMs: number | undefined;
+    for (const position of this.getAllPositions()) {
+      if (position.symbol !== symbol) {
+        continue;
+      }
+      const updatedAtMs =
+        this.getPositionUpdatedAtMs(symbol, position.positionSide) ?? 0;
+      positionUpdatedAtMs =
+        positionUpdatedAtMs === undefined
+          ? updatedAtMs
+          : Math.min(positionUpdatedAtMs, updatedAtMs);
+    }
+
+    const priceAgeMs =
+      priceUpdatedAtMs === undefined ? undefined : nowMs - priceUpdatedAtMs;
+    const positionAgeMs =
+      positionUpdatedAtMs === undefined
+        ? undefined
+        : nowMs - positionUpdatedAtMs;
+
+    const staleData: StaleDataType[] = [];
+    if (
+      priceMaxAgeMs !== undefined &&
+      (priceAgeMs === undefined
+        ? positionUpdatedAtMs !== undefined
+        : priceAgeMs > priceMaxAgeMs)
+    ) {
+      staleData.push('price');
+    }
+    if (
+      positionMaxAgeMs !== undefined &&
+      positionAgeMs !== undefined &&
+      positionAgeMs > positionMaxAgeMs
+    ) {
+      staleData.push('position');
+    }
+
+    return {
+      symbol,
+      staleData,
+      priceUpdatedAtMs,
+      priceAgeMs,
+      positionUpdatedAtMs,
+      positionAgeMs,
+    };
+  }
+
+  /** Emit "dataRecovered" right away if a stale symbol is up to date again, without waiting for the next checkStaleness() */
+  private checkSymbolRecovered(symbol: string): void {
+    const previous = this.staleSymbols.get(symbol);
+    if (!previous) {
+      return;
+    }
+
+    if (!this.getSymbolStaleness(symbol, Date.now()).staleData.length) {
+      this.staleSymbols.delete(symbol);
+      this.emit('dataRecovered', { symbol, previous });
+    }
+  }
+
+  /**
+   * Register the contract spec for a symbol (linear or inverse, contract size & settle asset).
+   *
+   * Without a contract spec, a symbol is treated as a linear contract with position quantities in the base asset, settled in the quote asset.
+   */
+  setContractSpec(contractSpec: EngineContractSpec): void {
+    this.recordMutation({ type: 'setContractSpec', contractSpec });
+    this.contractSpecs[contractSpec.symbol] = { ...contractSpec };
+  }
+
+  getContractSpec(symbol: string): EngineContractSpec | undefined {
+    const contractSpec = this.contractSpecs[symbol];
+    return contractSpec ? { ...contractSpec } : undefined;
+  }
+
+  getAllContractSpecs(): EngineContractSpec[] {
+    return Object.values(this.contractSpecs).map((spec) => ({ ...spec }));
+  }
+
+  /** Asset that PnL & margin for a symbol are settled in (the quote asset, unless a contract spec says otherwise) */
+  getSettleAsset(symbol: string): string {
+    return this.contractSpecs[symbol]?.settleAsset || this.quoteAsset;
   }
 
   /**
    * Return some loggable summary state. Takes the last seen price event into account, when looking at position upnl.
    *
+   * Realised PnL is derived from fills (see getRealisedPnl()) since the session started, and is broken down into gross trading PnL, fees and funding.
+   * Like position values, realised PnL & fees in other assets are converted via conversion prices (see getRealisedPnlByAsset() for the unconverted values).
+   * The raw balance change is also included, though this can include transfers.
+   *
+   * Balances are for the quote asset, unless another asset is provided. See getAggregateSessionSummary() for all assets combined.
+   *
    * Don't rely on this too much, it's a rushed implementation
    */
-  public getSessionSummary(startingBalance: number) {
-    const balanceNow = this.getWalletBalance();
+  public getSessionSummary(
+    startingBalance: number,
+    asset: string = this.quoteAsset,
+  ) {
+    return this.buildSessionSummary(
+      startingBalance,
+      this.getWalletBalance(asset),
+      asset,
+    );
+  }
+
+  /**
+   * Same as getSessionSummary(), but for the wallet balance of all assets combined, valued in the reporting asset (see getAggregateBalance()).
+   *
+   * The starting balance should also be valued in the reporting asset.
+   */
+  public getAggregateSessionSummary(startingBalance: number) {
+    return this.buildSessionSummary(
+      startingBalance,
+      this.getAggregateBalance().walletBalance,
+      this.reportingAsset,
+    );
+  }
 
+  private buildSessionSummary(
+    startingBalance: number,
+    balanceNow: number,
+    balanceAsset: string,
+  ) {
     const positions = this.getAllPositions().map((pos) => ({
       ...pos,
       leverage: this.getSymbolLeverage(pos.symbol),
+      marginMode: this.getSymbolMarginMode(pos.symbol, pos.positionSide),
+      settleAsset: this.getSettleAsset(pos.symbol),
     }));
 
     let activePositionUpnlSum = 0;
     let quoteMarginLockedSum = 0;
     for (const position of positions) {
-      activePositionUpnlSum += position.valueUpnl;
-      quoteMarginLockedSum += position.marginValue;
+      const rate = this.getSummaryConversionRate(
+        position.settleAsset,
+        balanceAsset,
+      );
+      activePositionUpnlSum += position.valueUpnl * rate;
+      quoteMarginLockedSum += position.marginValue * rate;
+    }
+
+    const realisedPnlByAsset = this.getRealisedPnlByAsset();
+    let grossTradingPnl = 0;
+    let fees = 0;
+    let funding = 0;
+    for (const settleAsset in realisedPnlByAsset) {
+      const pnlState = realisedPnlByAsset[settleAsset];
+      const rate = this.getSummaryConversionRate(settleAsset, balanceAsset);
+      grossTradingPnl += pnlState.realisedPnl * rate;
+      funding += pnlState.funding * rate;
+      for (const feeAsset in pnlState.feesByAsset) {
+        fees +=
+          pnlState.feesByAsset[feeAsset] *
+          this.getSummaryConversionRate(feeAsset, balanceAsset);
+      }
     }
 
-    const realisedPnl = balanceNow - startingBalance;
+    const balanceChange = balanceNow - startingBalance;
 
     const summary = {
       activePositions: positions,
       activePositionUpnlSum,
       account: {
         quoteBalanceState: {
+          asset: balanceAsset,
           startedWith: startingBalance,
           now: balanceNow,
           quoteMarginLockedSum: quoteMarginLockedSum,
@@ -123,8 +1141,14 @@ export class AccountStateStore<
             startingBalance + activePositionUpnlSum,
         },
         pnlState: {
-          realisedPnl,
+          realisedPnl: grossTradingPnl - fees + funding,
+          grossTradingPnl,
+          fees,
+          funding,
+          realisedPnlByAsset,
+          realisedPnlBySymbol: this.fillLedger.getRealisedPnlBySymbol(),
           unrealisedPnl: activePositionUpnlSum,
+          balanceChange,
         },
       },
     };
@@ -132,6 +1156,96 @@ export class AccountStateStore<
     return summary;
   }
 
+  /**
+   * Rate to value an amount in one asset in the balance asset of a session summary.
+   *
+   * Without a conversion price, the quote asset is assumed to be equivalent to the balance asset, while any other asset is left out.
+   */
+  private getSummaryConversionRate(
+    asset: string,
+    balanceAsset: string,
+  ): number {
+    return (
+      this.convertAssetValue(1, asset, balanceAsset) ??
+      (asset === this.quoteAsset ? 1 : 0)
+    );
+  }
+
+  /**
+   * Project the account state after a hypothetical fill (e.g. "what if this order filled at this price?"), without changing this store.
+   *
+   * The fill is applied to a copy of this store via applyFill(), and the settle asset's wallet balance is adjusted by the realised PnL & fee.
+   *
+   * @param startingBalance for the projected session summary. Default: the current wallet balance, so the summary shows the change caused by this fill.
+   */
+  simulateFill(
+    fill: EngineFillInput,
+    startingBalance: number = this.getWalletBalance(),
+  ): FillSimulationResult<TEnginePositionMetadata> {
+    const { symbol } = fill;
+    const timestampMs = fill.timestampMs ?? Date.now();
+
+    const simulation = AccountStateStore.fromSnapshot<TEnginePositionMetadata>(
+      this.toSnapshot(),
+      undefined,
+      {
+        positionMode: this.positionMode,
+        defaultMarginMode: this.defaultMarginMode,
+        quoteAsset: this.quoteAsset,
+        reportingAsset: this.reportingAsset,
+        upnlPriceType: this.upnlPriceType,
+      },
+    );
+    simulation.symbolPrices = structuredClone(this.symbolPrices);
+    if (!simulation.getPrice(symbol)) {
+      simulation.processPriceEvent({
+        symbol,
+        price: fill.price,
+        priceType: this.upnlPriceType,
+        timestampMs,
+      });
+    }
+
+    const positionSide = getOrderPositionSide(
+      {
+        orderSide: fill.orderSide,
+        positionSide: fill.positionSide || 'NONE',
+        isreduceOnly: !!fill.isreduceOnly,
+      },
+      this.positionMode,
+    );
+    const previous = simulation.getActivePosition(symbol, positionSide);
+    const { realisedPnl } = simulation.applyFill({ ...fill, timestampMs });
+    const position = simulation.getActivePosition(symbol, positionSide);
+
+    const settleAsset = this.getSettleAsset(symbol);
+    simulation.setWalletBalance(
+      simulation.getWalletBalance(settleAsset) + realisedPnl - (fill.fee || 0),
+      settleAsset,
+    );
+
+    return {
+      fill: { ...fill },
+      positionSide,
+      previous: previous ? { ...previous } : undefined,
+      current: position ? { ...position } : undefined,
+      realisedPnl,
+      marginUsed: position?.marginValue || 0,
+      depthSummary: calulateDepthSummaryForAllPositions(
+        simulation.getWalletBalance(),
+        simulation.getSymbolLeverageCache(),
+        simulation.getAllPositions(),
+        this.quoteAsset,
+        this.defaultMarginMode,
+        simulation.getSymbolMarginModeCache(),
+        simulation.getPositionMode(),
+      ),
+      liquidation: simulation.getLiquidationEstimate(symbol, positionSide),
+      sessionSummary: simulation.getSessionSummary(startingBalance),
+      store: simulation,
+    };
+  }
+
   /**
    * Utility method to check if metadata was recently changed (and hasn't been persisted yet)
    */
@@ -145,21 +1259,164 @@ export class AccountStateStore<
    * After you've persisted it somewhere, you should set this back to "false".
    */
   setIsPendingPersist(value: boolean): void {
+    this.recordMutation({ type: 'setIsPendingPersist', value });
     this.isPendingPersistPositionMetadata = value;
   }
 
-  setWalletBalance(bal: number): void {
-    this.accountOtherState.balance = bal;
+  /** Set the wallet balance of one asset (the quote asset, unless another asset is provided) */
+  setWalletBalance(bal: number, asset: string = this.quoteAsset): void {
+    this.recordMutation({ type: 'setWalletBalance', balance: bal, asset });
+    this.updateAssetBalance(asset, { walletBalance: bal });
   }
 
-  getWalletBalance(): number {
-    return this.accountOtherState.balance;
+  /** Wallet balance of one asset (the quote asset, unless another asset is provided). 0 if unknown. */
+  getWalletBalance(asset: string = this.quoteAsset): number {
+    return this.accountBalanceState[asset]?.walletBalance || 0;
+  }
+
+  /** Sum of wallet balances for all assets, valued in the reporting asset. Assets without a conversion price are excluded. */
+  getAggregateWalletBalance(): number {
+    return this.getAggregateBalance().walletBalance;
   }
 
   /**
-   * Overwrites "previous balance" with current balance. Can be used to track balance changes before/after events
+   * Update the balance state of one asset. Any fields not provided keep their previous value.
+   *
+   * For a new asset, available balance & equity default to the wallet balance.
+   */
+  setAssetBalance(asset: string, balance: EngineAssetBalanceUpdate): void {
+    this.recordMutation({ type: 'setAssetBalance', asset, balance });
+    this.updateAssetBalance(asset, balance);
+  }
+
+  getAssetBalance(asset: string): EngineAssetBalance | undefined {
+    const balance = this.accountBalanceState[asset];
+    return balance ? { ...balance } : undefined;
+  }
+
+  getAllAssetBalances(): EngineAssetBalance[] {
+    return Object.values(this.accountBalanceState).map((balance) => ({
+      ...balance,
+    }));
+  }
+
+  deleteAssetBalance(asset: string): void {
+    this.recordMutation({ type: 'deleteAssetBalance', asset });
+    if (this.accountBalanceState[asset]) {
+      this.updateAssetBalance(asset, { walletBalance: 0 });
+      delete this.accountBalanceState[asset];
+    }
+  }
+
+  private updateAssetBalance(
+    asset: string,
+    balance: EngineAssetBalanceUpdate,
+  ): void {
+    const previous = this.accountBalanceState[asset];
+    const walletBalance = balance.walletBalance ?? previous?.walletBalance ?? 0;
+
+    this.accountBalanceState[asset] = {
+      asset,
+      walletBalance,
+      availableBalance:
+        balance.availableBalance ?? previous?.availableBalance ?? walletBalance,
+      lockedBalance: balance.lockedBalance ?? previous?.lockedBalance ?? 0,
+      equity: balance.equity ?? previous?.equity ?? walletBalance,
+    };
+
+    const previousWalletBalance = previous?.walletBalance || 0;
+    if (previousWalletBalance !== walletBalance) {
+      this.emit('balanceChanged', {
+        asset,
+        previous: previousWalletBalance,
+        current: walletBalance,
+        delta: walletBalance - previousWalletBalance,
+      });
+    }
+  }
+
+  /** Asset used by single-asset balance methods, such as getWalletBalance() */
+  getQuoteAsset(): string {
+    return this.quoteAsset;
+  }
+
+  /** Asset that aggregate balances are valued in */
+  getReportingAsset(): string {
+    return this.reportingAsset;
+  }
+
+  /** Set the price of one unit of an asset, in the reporting asset (e.g. BTC: 65000 if reporting in USDT) */
+  setAssetConversionPrice(asset: string, price: number): void {
+    this.recordMutation({ type: 'setAssetConversionPrice', asset, price });
+    this.assetConversionPrices[asset] = price;
+  }
+
+  /** Price of one unit of an asset in the reporting asset, if known. Always 1 for the reporting asset itself. */
+  getAssetConversionPrice(asset: string): number | undefined {
+    if (asset === this.reportingAsset) {
+      return 1;
+    }
+    return this.assetConversionPrices[asset];
+  }
+
+  getAssetConversionPrices(): Record<string, number> {
+    return { ...this.assetConversionPrices };
+  }
+
+  /** Convert a value between two assets via conversion prices. Undefined if either asset has no conversion price. */
+  convertAssetValue(
+    value: number,
+    fromAsset: string,
+    toAsset: string = this.reportingAsset,
+  ): number | undefined {
+    if (fromAsset === toAsset) {
+      return value;
+    }
+
+    const fromPrice = this.getAssetConversionPrice(fromAsset);
+    const toPrice = this.getAssetConversionPrice(toAsset);
+    if (fromPrice === undefined || !toPrice) {
+      return undefined;
+    }
+    return (value * fromPrice) / toPrice;
+  }
+
+  /** Balances of all assets combined, valued in the reporting asset (or another asset with a known conversion price) */
+  getAggregateBalance(
+    reportingAsset: string = this.reportingAsset,
+  ): EngineAggregateBalance {
+    const aggregate: EngineAggregateBalance = {
+      reportingAsset,
+      walletBalance: 0,
+      availableBalance: 0,
+      lockedBalance: 0,
+      equity: 0,
+      unpricedAssets: [],
+    };
+
+    for (const balance of Object.values(this.accountBalanceState)) {
+      const rate = this.convertAssetValue(1, balance.asset, reportingAsset);
+      if (rate === undefined) {
+        if (balance.walletBalance || balance.equity) {
+          aggregate.unpricedAssets.push(balance.asset);
+        }
+        continue;
+      }
+
+      aggregate.walletBalance += balance.walletBalance * rate;
+      aggregate.availableBalance += balance.availableBalance * rate;
+      aggregate.lockedBalance += balance.lockedBalance * rate;
+      aggregate.equity += balance.equity * rate;
+    }
+
+    return aggregate;
+  }
+
+  /**
+   * Overwrites "previous balance" with current balance (of the quote asset). Can be used to track balance changes before/after events
    */
   storePreviousBalance(): void {
+    this.recordMutation({ type: 'storePreviousBalance' });
     this.accountOtherState.previousBalance = this.getWalletBalance();
   }
 
@@ -235,15 +1492,60 @@ export class AccountStateStore<
   isSymbolInAnyPosition(symbol: string): boolean {
     return (
       this.isSymbolSideInPosition(symbol, 'LONG') ||
-      this.isSymbolSideInPosition(symbol, 'SHORT')
+      this.isSymbolSideInPosition(symbol, 'SHORT') ||
+      this.isSymbolSideInPosition(symbol, 'NONE')
     );
   }
 
+  /** Returns true in hedge mode, where separate long & short positions can be open per symbol */
   isDualPositionMode() {
-    return true;
+    return this.positionMode === ENGINE_POSITION_MODE.HEDGE;
+  }
+
+  getPositionMode(): EnginePositionMode {
+    return this.positionMode;
+  }
+
+  /**
+   * Switch between hedge & one-way position mode. Exchanges only allow this without open positions, so this throws if any position is open.
+   */
+  setPositionMode(positionMode: EnginePositionMode): void {
+    if (positionMode === this.positionMode) {
+      return;
+    }
+
+    if (this.getAllPositions().length) {
+      throw new Error(
+        `Cannot change position mode to "${positionMode}" while positions are open`,
+      );
+    }
+
+    this.recordMutation({ type: 'setPositionMode', positionMode });
+    this.positionMode = positionMode;
+  }
+
+  /**
+   * Return the net position quantity for a symbol (long quantity minus short quantity). Short quantities are expected to be negative.
+   */
+  getNetPositionQty(symbol: string): number {
+    this.assertInitialStateActivePosition(symbol);
+
+    let netQty = 0;
+    for (const posSide in this.accountPositionState[symbol]) {
+      const position =
+        this.accountPositionState[symbol][posSide as EnginePositionSide];
+      netQty += position?.assetQty || 0;
+    }
+    return netQty;
   }
   setSymbolLeverage(symbol: string, leverage: number): void {
+    this.recordMutation({ type: 'setSymbolLeverage', symbol, leverage });
+    const previous = this.accountLeverageState[symbol];
     this.accountLeverageState[symbol] = leverage;
+
+    if (previous !== leverage) {
+      this.emit('leverageChanged', { symbol, previous, current: leverage });
+    }
   }
 
   getSymbolLeverage(symbol: string): number | undefined {
@@ -254,6 +1556,246 @@ export class AccountStateStore<
     return this.accountLeverageState;
   }
 
+  /**
+   * Set the margin mode for a symbol. In hedge mode, optionally only for one side of the symbol.
+   */
+  setSymbolMarginMode(
+    symbol: string,
+    marginMode: EngineMarginMode,
+    side?: EnginePositionSide,
+  ): void {
+    this.recordMutation({
+      type: 'setSymbolMarginMode',
+      symbol,
+      marginMode,
+      side,
+    });
+
+    const sides: EnginePositionSide[] = side
+      ? [this.getStorageSide(side)]
+      : ['LONG', 'SHORT', 'NONE'];
+
+    this.accountMarginModeState[symbol] =
+      this.accountMarginModeState[symbol] || {};
+
+    for (const marginModeSide of sides) {
+      const previous = this.getSymbolMarginMode(symbol, marginModeSide);
+      this.accountMarginModeState[symbol][marginModeSide] = marginMode;
+
+      if (previous !== marginMode) {
+        this.emit('marginModeChanged', {
+          symbol,
+          side: marginModeSide,
+          previous,
+          current: marginMode,
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the margin mode for a symbol (or one side of a symbol, in hedge mode). Falls back to the default margin mode.
+   */
+  getSymbolMarginMode(
+    symbol: string,
+    side: EnginePositionSide = 'NONE',
+  ): EngineMarginMode {
+    return (
+      this.accountMarginModeState[symbol]?.[this.getStorageSide(side)] ||
+      this.defaultMarginMode
+    );
+  }
+
+  /** Margin mode for any symbol without a margin mode set via setSymbolMarginMode() */
+  getDefaultMarginMode(): EngineMarginMode {
+    return this.defaultMarginMode;
+  }
+
+  /** Per symbol, per side, any margin modes set via setSymbolMarginMode() */
+  getSymbolMarginModeCache(): MarginModeCache {
+    return this.accountMarginModeState;
+  }
+
+  /** Set the tiered maintenance margin brackets (risk limits) for a symbol, used to estimate liquidation prices */
+  setMaintenanceMarginBrackets(
+    symbol: string,
+    brackets: MaintenanceMarginBracket[],
+  ): void {
+    this.recordMutation({
+      type: 'setMaintenanceMarginBrackets',
+      symbol,
+      brackets,
+    });
+    this.maintenanceMarginBrackets[symbol] = brackets.map((bracket) => ({
+      ...bracket,
+    }));
+  }
+
+  getMaintenanceMarginBrackets(
+    symbol: string,
+  ): MaintenanceMarginBracket[] | undefined {
+    return this.maintenanceMarginBrackets[symbol]?.map((bracket) => ({
+      ...bracket,
+    }));
+  }
+
+  /**
+   * Estimate the liquidation price, margin ratio & distance to liquidation for an active position, using the most recent price of the UPNL price type (see getPrice()).
+   *
+   * - Isolated positions are backed by their isolated margin (or margin value, if the isolated margin is unknown).
+   * - Cross positions are backed by the wallet balance of the settle asset, less isolated margin, plus the UPNL less maintenance margin of other cross positions.
+   *
+   * Returns undefined if there is no such position, or no price has been seen for the symbol yet.
+   */
+  getLiquidationEstimate(
+    symbol: string,
+    side: EnginePositionSide,
+  ): LiquidationEstimate | undefined {
+    const position = this.getActivePosition(symbol, side);
+    const price = this.getPrice(symbol);
+    if (!position?.assetQty || !price) {
+      return undefined;
+    }
+
+    const contractSpec = this.contractSpecs[symbol];
+    const brackets = this.maintenanceMarginBrackets[symbol];
+    const marginMode = this.getSymbolMarginMode(symbol, position.positionSide);
+    const settleAsset = this.getSettleAsset(symbol);
+
+    const maintenanceMargin = this.getPositionMaintenanceMargin(position);
+    const upnl = getContractUnrealisedPNL(
+      contractSpec,
+      price,
+      position.assetQty,
+      position.positionPrice,
+    );
+    const margin =
+      marginMode === ENGINE_MARGIN_MODE.ISOLATED
+        ? position.isolatedMargin ?? position.marginValue
+        : this.getCrossCollateral(settleAsset, position);
+
+    const liquidationPrice = estimateLiquidationPrice(
+      {
+        positionQty: position.assetQty,
+        entryPrice: position.positionPrice,
+        margin,
+        brackets,
+        referencePrice: price,
+      },
+      contractSpec,
+    );
+    const distance =
+      liquidationPrice === undefined
+        ? undefined
+        : Math.abs(price - liquidationPrice);
+
+    return {
+      symbol,
+      side: position.positionSide,
+      marginMode,
+      settleAsset,
+      price,
+      liquidationPrice,
+      exchangeLiquidationPrice: position.liquidationPrice,
+      maintenanceMargin,
+      marginBalance: margin + upnl,
+      marginRatio: getMarginRatio(maintenanceMargin, margin + upnl),
+      distance,
+      distancePct:
+        distance === undefined ? undefined : (distance / price) * 100,
+    };
+  }
+
+  /** Liquidation estimates for all active positions with a known UPNL price (see getLiquidationEstimate()) */
+  getLiquidationDistances(): LiquidationEstimate[] {
+    const estimates: LiquidationEstimate[] = [];
+    for (const position of this.getAllPositions()) {
+      const estimate = this.getLiquidationEstimate(
+        position.symbol,
+        position.positionSide,
+      );
+      if (estimate) {
+        estimates.push(estimate);
+      }
+    }
+    return estimates;
+  }
+
+  /**
+   * Cross margin ratio for one settle asset (the quote asset, by default): maintenance margin of all cross positions / cross margin balance.
+   *
+   * The account is liquidated when this reaches 1.
+   */
+  getCrossMarginRatio(settleAsset: string = this.quoteAsset): number {
+    let maintenanceMargin = 0;
+    let upnl = 0;
+    for (const position of this.getAllPositions()) {
+      if (
+        this.getSettleAsset(position.symbol) !== settleAsset ||
+        this.getSymbolMarginMode(position.symbol, position.positionSide) !==
+          ENGINE_MARGIN_MODE.CROSS
+      ) {
+        continue;
+      }
+      maintenanceMargin += this.getPositionMaintenanceMargin(position);
+      upnl += position.valueUpnl;
+    }
+
+    return getMarginRatio(
+      maintenanceMargin,
+      this.getCrossCollateral(settleAsset) + upnl,
+    );
+  }
+
+  /** Maintenance margin for a position, valued at the most recent UPNL price (or the entry price) */
+  private getPositionMaintenanceMargin(position: EngineSimplePosition): number {
+    const price = this.getPrice(position.symbol) || position.positionPrice;
+    return getMaintenanceMargin(
+      this.maintenanceMarginBrackets[position.symbol],
+      getContractPositionValue(
+        this.contractSpecs[position.symbol],
+        price,
+        position.assetQty,
+      ),
+    );
+  }
+
+  /**
+   * Collateral available to cross positions in a settle asset: wallet balance, less isolated margin.
+   *
+   * If a position is provided, the UPNL less maintenance margin of all other cross positions is included too.
+   */
+  private getCrossCollateral(
+    settleAsset: string,
+    position?: EngineSimplePosition,
+  ): number {
+    let collateral = this.getWalletBalance(settleAsset);
+
+    for (const otherPosition of this.getAllPositions()) {
+      if (
+        this.getSettleAsset(otherPosition.symbol) !== settleAsset ||
+        (otherPosition.symbol === position?.symbol &&
+          otherPosition.positionSide === position.positionSide)
+      ) {
+        continue;
+      }
+
+      const marginMode = this.getSymbolMarginMode(
+        otherPosition.symbol,
+        otherPosition.positionSide,
+      );
+      if (marginMode === ENGINE_MARGIN_MODE.ISOLATED) {
+        collateral -= otherPosition.isolatedMargin ?? otherPosition.marginValue;
+      } else if (position) {
+        collateral +=
+          otherPosition.valueUpnl -
+          this.getPositionMaintenanceMargin(otherPosition);
+      }
+    }
+
+    return collateral;
+  }
+
   private assertInitialStateActivePosition(symbol: string): void {
     if (!this.accountPositionState[symbol]) {
       this.accountPositionState[symbol] = {
@@ -263,31 +1805,162 @@ export class AccountStateStore<
       };
     }
   }
+  /**
+   * In one-way mode, positions are always stored under the NONE side (as one net position per symbol)
+   */
+  private getStorageSide(side: EnginePositionSide): EnginePositionSide {
+    return this.positionMode === ENGINE_POSITION_MODE.ONE_WAY ? 'NONE' : side;
+  }
+
+  /**
+   * Get the position for this symbol & side.
+   *
+   * In one-way mode, the net position is returned for the NONE side, for LONG if the net quantity is positive, or for SHORT if it's negative.
+   */
   getActivePosition(
     symbol: string,
     side: EnginePositionSide,
   ): EngineSimplePosition | undefined {
     this.assertInitialStateActivePosition(symbol);
-    return this.accountPositionState[symbol][side];
+
+    if (this.positionMode !== ENGINE_POSITION_MODE.ONE_WAY) {
+      return this.accountPositionState[symbol][side];
+    }
+
+    const netPosition = this.accountPositionState[symbol].NONE;
+    if (side === 'NONE' || !netPosition) {
+      return netPosition;
+    }
+
+    const isLong = netPosition.assetQty > 0;
+    const isShort = netPosition.assetQty < 0;
+    if ((side === 'LONG' && isLong) || (side === 'SHORT' && isShort)) {
+      return netPosition;
+    }
+    return undefined;
   }
 
+  /**
+   * Overwrite the position for this symbol & side. In one-way mode, this always overwrites the net position for the symbol.
+   */
   setActivePosition(
     symbol: string,
-    side: EnginePositionSide,
+    requestedSide: EnginePositionSide,
     newState: EngineSimplePosition,
   ): void {
+    this.recordMutation({
+      type: 'setActivePosition',
+      symbol,
+      side: requestedSide,
+      position: newState,
+    });
+    const side = this.getStorageSide(requestedSide);
     this.assertInitialStateActivePosition(symbol);
+    const previous = this.accountPositionState[symbol][side];
+    const previousCopy = previous ? { ...previous } : undefined;
+
+    this.fillLedger.trackPosition(
+      symbol,
+      side,
+      newState.positionPrice,
+      newState.assetQty,
+    );
+
     this.accountPositionState[symbol][side] = newState;
+    this.positionUpdateTimes[symbol] = {
+      ...this.positionUpdateTimes[symbol],
+      [side]: this.getMutationTimeMs(),
+    };
+    this.syncPositionProtection(symbol);
+    this.emitPositionChange(symbol, side, previousCopy, { ...newState });
+    this.checkSymbolRecovered(symbol);
   }
 
-  deleteActivePosition(symbol: string, side: EnginePositionSide): void {
+  /**
+   * Delete the position for this symbol & side. In one-way mode, this always deletes the net position for the symbol.
+   */
+  deleteActivePosition(
+    symbol: string,
+    requestedSide: EnginePositionSide,
+  ): void {
+    this.recordMutation({
+      type: 'deleteActivePosition',
+      symbol,
+      side: requestedSide,
+    });
+    const side = this.getStorageSide(requestedSide);
     this.assertInitialStateActivePosition(symbol);
+    const previous = this.accountPositionState[symbol][side];
     delete this.accountPositionState[symbol][side];
+    delete this.positionUpdateTimes[symbol]?.[side];
+
+    if (previous) {
+      this.emitPositionChange(symbol, side, { ...previous }, undefined);
+    }
+    this.checkSymbolRecovered(symbol);
   }
 
-  /** Overwrite the full metadata store. This should be keyed by symbol! */
+  private emitPositionChange(
+    symbol: string,
+    side: EnginePositionSide,
+    previous: EngineSimplePosition | undefined,
+    current: EngineSimplePosition | undefined,
+  ): void {
+    const event: PositionChangeEvent = {
+      symbol,
+      side,
+      changeType: getPositionChangeType(previous, current),
+      previous,
+      current,
+    };
+
+    const changeTimestamp = current?.timestampMs || this.getMutationTimeMs();
+    if (event.changeType === 'closed' || event.changeType === 'flipped') {
+      this.fillLedger.onPositionClosed(symbol, side, changeTimestamp);
+    }
+    if (event.changeType === 'opened' || event.changeType === 'flipped') {
+      this.fillLedger.onPositionOpened(symbol, side, changeTimestamp);
+    }
+
+    this.emit(POSITION_CHANGE_EVENT_NAMES[event.changeType], event);
+    this.emit('positionChanged', event);
+
+    if (event.changeType === 'closed' || event.changeType === 'flipped') {
+      this.pruneOrderGroups(symbol);
+
+      const orphanedOrders = this.getOrphanedOrders(symbol).filter(
+        (order) => this.getOrphanedOrderSide(order) === side,
+      );
+      if (orphanedOrders.length) {
+        this.emit('ordersOrphaned', {
+          symbol,
+          side,
+          orders: orphanedOrders.map((order) => ({ ...order })),
+        });
+      }
+    }
+  }
+
+  /**
+   * Overwrite the full metadata store. This should be keyed by symbol!
+   *
+   * Marks metadata as pending persist. When restoring persisted metadata, set it back to "false" afterwards (as MetadataPersistenceScheduler.restore() does).
+   */
   setAllSymbolMetadata(data: typeof this.accountPositionMetadata): void {
+    this.recordMutation({ type: 'setAllSymbolMetadata', metadata: data });
+    const previousMetadata = this.accountPositionMetadata;
     this.accountPositionMetadata = data;
+    this.isPendingPersistPositionMetadata = true;
+
+    const symbols = new Set([
+      ...Object.keys(previousMetadata),
+      ...Object.keys(data),
+    ]);
+    for (const symbol of symbols) {
+      if (previousMetadata[symbol] !== data[symbol]) {
+        this.emitMetadataChange(symbol, previousMetadata[symbol]);
+      }
+    }
   }
 
   /** Return position metadata for all symbols */
@@ -310,14 +1983,32 @@ export class AccountStateStore<
     symbol: string,
     data: TEnginePositionMetadata,
   ): TEnginePositionMetadata {
+    this.recordMutation({ type: 'setSymbolMetadata', symbol, metadata: data });
+    const previous = this.accountPositionMetadata[symbol];
     this.accountPositionMetadata[symbol] = data;
     this.isPendingPersistPositionMetadata = true;
+    this.emitMetadataChange(symbol, previous);
     return data;
   }
 
   deletePositionMetadata(symbol: string): void {
+    this.recordMutation({ type: 'deletePositionMetadata', symbol });
+    const previous = this.accountPositionMetadata[symbol];
     delete this.accountPositionMetadata[symbol];
     this.isPendingPersistPositionMetadata = true;
+    this.emitMetadataChange(symbol, previous);
+  }
+
+  private emitMetadataChange(
+    symbol: string,
+    previous: TEnginePositionMetadata | undefined,
+  ): void {
+    const current = this.accountPositionMetadata[symbol];
+    this.emit('metadataChanged', {
+      symbol,
+      previous: previous ? { ...previous } : undefined,
+      current: current ? { ...current } : undefined,
+    });
   }
 
   /**
@@ -338,8 +2029,16 @@ export class AccountStateStore<
       );
     }
 
+    this.recordMutation({
+      type: 'setSymbolMetadataValue',
+      symbol,
+      key,
+      value: newValue,
+    });
+    const previous = { ...symbolMetadata };
     symbolMetadata[key] = newValue;
     this.isPendingPersistPositionMetadata = true;
+    this.emitMetadataChange(symbol, previous);
 
     return symbolMetadata;
   }
@@ -362,14 +2061,14 @@ export class AccountStateStore<
    * Get orders for a specific symbol
    */
   getOrdersForSymbol(symbol: string): EngineOrder[] {
-    return this.getOrders().filter(order => order.symbol === symbol);
+    return this.accountOrders.getForSymbol(symbol);
   }
 
   /**
    * Get orders for a specific symbol and side
    */
   getOrdersForSymbolSide(symbol: string, side: 'BUY' | 'SELL'): EngineOrder[] {
-    return this.getOrders().filter(order => order.symbol === symbol && order.orderSide === side);
+    return this.accountOrders.getForSymbolSide(symbol, side);
   }
 
   /**
@@ -379,41 +2078,792 @@ export class AccountStateStore<
     return this.accountOrders.get(orderId);
   }
 
+  /**
+   * Get an order by its custom (client) order ID. Falls back to pending orders, which don't have an exchange order ID yet.
+   */
+  getOrderByCustomId(
+    customOrderId: string,
+  ): EngineOrder | EnginePendingOrder | undefined {
+    return (
+      this.accountOrders.getByCustomId(customOrderId) ||
+      this.pendingOrders.get(customOrderId)
+    );
+  }
+
+  /**
+   * Track an order that was placed, but not acknowledged by the exchange yet. Pending orders are keyed by their custom order ID.
+   *
+   * The pending order is linked to its exchange order ID once an order update with the same custom order ID arrives (see upsertActiveOrder()), or via linkPendingOrder().
+   */
+  addPendingOrder(order: EnginePendingOrder): void {
+    if (!order.customOrderId) {
+      throw new Error('Pending orders require a customOrderId');
+    }
+
+    this.recordMutation({ type: 'addPendingOrder', order });
+    this.pendingOrders.set(order.customOrderId, { ...order });
+    this.emit('pendingOrderAdded', { order: { ...order } });
+  }
+
+  getPendingOrder(customOrderId: string): EnginePendingOrder | undefined {
+    return this.pendingOrders.get(customOrderId);
+  }
+
+  /** Get orders not acknowledged by the exchange yet, optionally for one symbol */
+  getPendingOrders(symbol?: string): EnginePendingOrder[] {
+    const pendingOrders = Array.from(this.pendingOrders.values());
+    return symbol
+      ? pendingOrders.filter((order) => order.symbol === symbol)
+      : pendingOrders;
+  }
+
+  /**
+   * Link a pending order to its exchange order ID (e.g. from the REST response when placing the order), and track it as an active order.
+   *
+   * Returns the linked order. If an order update already linked it, the stored order is returned instead.
+   */
+  linkPendingOrder(
+    customOrderId: string,
+    exchangeOrderId: string,
+    updatedAtMs: number = Date.now(),
+  ): EngineOrder | undefined {
+    this.recordMutation({
+      type: 'linkPendingOrder',
+      customOrderId,
+      exchangeOrderId,
+      updatedAtMs,
+    });
+
+    const pending = this.pendingOrders.get(customOrderId);
+    if (!pending) {
+      return this.getOrder(exchangeOrderId);
+    }
+
+    const order: EngineOrder = { ...pending, exchangeOrderId, updatedAtMs };
+    this.withoutJournal(() => this.upsertActiveOrder(order));
+    return order;
+  }
+
+  /**
+   * Register an order about to be sent to the exchange, so it's included in exposure queries (see getSymbolExposure()) before the exchange confirms it.
+   *
+   * The order is tracked as a pending order until an order update with the same custom order ID arrives. If that doesn't happen within the timeout, it's rolled back by expirePendingOrders() (or a PendingOrderMonitor).
+   */
+  registerOrderIntent(intent: EngineOrderIntent): EnginePendingOrder {
+    const createdAtMs = intent.createdAtMs ?? Date.now();
+    const order: EnginePendingOrder = {
+      customOrderId: intent.customOrderId,
+      symbol: intent.symbol,
+      orderSide: intent.orderSide,
+      positionSide: intent.positionSide || 'NONE',
+      orderType: intent.orderType || 'LIMIT',
+      status: 'NEW',
+      price: intent.price,
+      originalQuantity: intent.quantity,
+      executedQuantity: 0,
+      averagePrice: 0,
+      createdAtMs,
+      updatedAtMs: createdAtMs,
+      isreduceOnly: intent.isreduceOnly,
+      expiresAtMs:
+        createdAtMs + (intent.timeoutMs ?? this.pendingOrderTimeoutMs),
+    };
+
+    this.addPendingOrder(order);
+    return { ...order };
+  }
+
+  /**
+   * Roll back pending orders that weren't confirmed by the exchange before they expired, emitting "pendingOrderExpired" for each.
+   *
+   * Call this periodically, or use a PendingOrderMonitor. Returns the expired orders.
+   */
+  expirePendingOrders(nowMs: number = Date.now()): EnginePendingOrder[] {
+    const expiredOrders = this.getPendingOrders().filter(
+      (order) => order.expiresAtMs !== undefined && order.expiresAtMs <= nowMs,
+    );
+    if (!expiredOrders.length) {
+      return [];
+    }
+
+    this.recordMutation({ type: 'expirePendingOrders', nowMs });
+    for (const order of expiredOrders) {
+      this.pendingOrders.delete(order.customOrderId);
+      this.emit('pendingOrderExpired', { order: { ...order } });
+    }
+    for (const symbol of new Set(expiredOrders.map((order) => order.symbol))) {
+      this.pruneOrderGroups(symbol);
+    }
+    return expiredOrders;
+  }
+
+  /**
+   * Net position & open order quantities for a symbol. Pending orders (see registerOrderIntent()) are included unless disabled.
+   */
+  getSymbolExposure(
+    symbol: string,
+    includePending: boolean = true,
+  ): EngineSymbolExposure {
+    let positionQty = 0;
+    for (const position of Object.values(
+      this.accountPositionState[symbol] || {},
+    )) {
+      positionQty += position?.assetQty || 0;
+    }
+
+    const openQty = { BUY: 0, SELL: 0 };
+    for (const order of this.getOrdersForSymbol(symbol)) {
+      openQty[order.orderSide] += Math.max(
+        0,
+        order.originalQuantity - order.executedQuantity,
+      );
+    }
+
+    const pendingQty = { BUY: 0, SELL: 0 };
+    if (includePending) {
+      for (const order of this.getPendingOrders(symbol)) {
+        pendingQty[order.orderSide] += Math.max(
+          0,
+          order.originalQuantity - order.executedQuantity,
+        );
+      }
+    }
+
+    const openBuyQty = openQty.BUY + pendingQty.BUY;
+    const openSellQty = openQty.SELL + pendingQty.SELL;
+
+    return {
+      symbol,
+      positionQty,
+      openBuyQty,
+      openSellQty,
+      pendingBuyQty: pendingQty.BUY,
+      pendingSellQty: pendingQty.SELL,
+      maxLongQty: positionQty + openBuyQty,
+      maxShortQty: positionQty - openSellQty,
+    };
+  }
+
+  /** Stop tracking a pending order that will not be linked (e.g. it was rejected, or never acknowledged) */
+  removePendingOrder(customOrderId: string): void {
+    this.recordMutation({ type: 'removePendingOrder', customOrderId });
+    const pending = this.pendingOrders.get(customOrderId);
+    this.pendingOrders.delete(customOrderId);
+
+    if (pending) {
+      this.pruneOrderGroups(pending.symbol);
+      this.emit('pendingOrderRemoved', { order: { ...pending } });
+    }
+  }
+
   /**
    * Upsert an active order into the state store
    * Main entry point for order state updates
-   * Only keeps active and partially filled orders in state
+   * Only keeps active, partially filled and pending cancel orders in state
    * Deletes orders if they are not longer active(cancelled, filled, expired, etc)
    */
   upsertActiveOrder(order: EngineOrder): void {
-    // Only store active or partially filled orders
-    if (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') {
-      this.accountOrders.set(order.exchangeOrderId, order);
+    this.recordMutation({ type: 'upsertActiveOrder', order });
+    const previous = this.accountOrders.get(order.exchangeOrderId);
+
+    // With positionsFromFills, the position is only stored once the fill was recorded, so realised PnL is attributed to the position it closed
+    let fillResult: ApplyFillToPositionResult | undefined;
+    const fill = this.fillLedger.processOrderUpdate(order, (filledOrder) =>
+      this.getFillPositionContext(filledOrder, (result) => {
+        fillResult = result;
+      }),
+    );
+    if (fill && fillResult) {
+      this.setPositionFromFill(
+        fill.symbol,
+        fill.positionSide,
+        this.getActivePosition(fill.symbol, fill.positionSide),
+        fillResult.position,
+      );
+    }
+    this.orderArchive?.processOrderUpdate(order);
+
+    // The exchange acknowledged a pending order
+    const pending = order.customOrderId
+      ? this.pendingOrders.get(order.customOrderId)
+      : undefined;
+    if (pending) {
+      this.pendingOrders.delete(order.customOrderId);
+    }
+
+    // Only store orders that can still fill (including orders pending cancellation)
+    if (!isTerminalOrderStatus(order.status)) {
+      this.accountOrders.set(order);
+      this.syncPositionProtection(order.symbol);
+
+      if (previous) {
+        this.emit('orderUpdated', {
+          previous: { ...previous },
+          current: { ...order },
+        });
+      } else {
+        this.emit('orderAdded', { order: { ...order } });
+      }
     } else {
       // Remove order if it's no longer active
-      this.deleteOrder(order.exchangeOrderId);
+      this.accountOrders.delete(order.exchangeOrderId);
+      this.syncPositionProtection(order.symbol);
+      this.pruneOrderGroups(order.symbol);
+
+      if (previous) {
+        this.emit('orderRemoved', {
+          previous: { ...previous },
+          current: { ...order },
+        });
+      }
+    }
+
+    if (pending) {
+      this.emit('pendingOrderLinked', {
+        pending: { ...pending },
+        order: { ...order },
+      });
+    }
+
+    if (fill) {
+      this.emit('orderFilled', { fill: { ...fill }, order: { ...order } });
+    }
+  }
+
+  /** Whether positions are derived from fills in order updates, see AccountStateStoreOptions.positionsFromFills */
+  isPositionsFromFillsEnabled(): boolean {
+    return this.positionsFromFills;
+  }
+
+  /**
+   * Apply a fill to its position: increases average into the entry price, reductions realise PnL, and positions close at zero (net positions in one-way mode can also flip).
+   *
+   * Use this to maintain positions from fills (e.g. paper trading, or exchanges without a reliable position stream), instead of setActivePosition().
+   * The fill & fee are recorded in the fill ledger (see getFills() & getRealisedPnl()). Wallet balances are not changed.
+   *
+   * To derive positions from fills in order updates instead, see AccountStateStoreOptions.positionsFromFills.
+   */
+  applyFill(fill: EngineFillInput): EngineFill {
+    const timestampMs = fill.timestampMs ?? Date.now();
+    this.recordMutation({ type: 'applyFill', fill: { ...fill, timestampMs } });
+
+    const { symbol } = fill;
+    const positionSide = getOrderPositionSide(
+      {
+        orderSide: fill.orderSide,
+        positionSide: fill.positionSide || 'NONE',
+        isreduceOnly: !!fill.isreduceOnly,
+      },
+      this.positionMode,
+    );
+    const previous = this.getActivePosition(symbol, positionSide);
+    const result = applyFillToPosition(
+      previous,
+      { ...fill, timestampMs },
+      this.getApplyFillOptions(symbol, positionSide),
+    );
+
+    const engineFill: EngineFill = {
+      fillId: this.fillLedger.getNextAppliedFillId(
+        fill.exchangeOrderId || symbol,
+      ),
+      exchangeOrderId: fill.exchangeOrderId || '',
+      customOrderId: fill.customOrderId || '',
+      symbol,
+      orderSide: fill.orderSide,
+      positionSide,
+      qty: fill.qty,
+      price: fill.price,
+      closedQty: result.closedQty,
+      closedEntryPrice: result.closedEntryPrice,
+      realisedPnl: result.realisedPnl,
+      timestampMs,
+    };
+
+    // Record the fill before the position changes, so realised PnL is attributed to the position it closed
+    this.fillLedger.recordFill(engineFill);
+    if (fill.fee) {
+      this.fillLedger.recordTradingFee({
+        symbol,
+        positionSide,
+        amount: fill.fee,
+        asset: this.getSettleAsset(symbol),
+        exchangeOrderId: fill.exchangeOrderId,
+        timestampMs,
+      });
     }
+    this.setPositionFromFill(symbol, positionSide, previous, result.position);
+
+    return { ...engineFill };
+  }
+
+  private getApplyFillOptions(
+    symbol: string,
+    positionSide: EnginePositionSide,
+  ): ApplyFillToPositionOptions {
+    return {
+      positionSide,
+      contractSpec: this.contractSpecs[symbol],
+      leverage: this.getSymbolLeverage(symbol),
+      markPrice: this.getPrice(symbol),
+    };
+  }
+
+  /** Store the position resulting from a fill, as part of an already journaled mutation */
+  private setPositionFromFill(
+    symbol: string,
+    positionSide: EnginePositionSide,
+    previous: EngineSimplePosition | undefined,
+    position: EngineSimplePosition | undefined,
+  ): void {
+    this.withoutJournal(() => {
+      if (position) {
+        this.setActivePosition(symbol, positionSide, position);
+      } else if (previous) {
+        this.deleteActivePosition(symbol, positionSide);
+      }
+    });
+  }
+
+  /**
+   * @param onFillResult with positionsFromFills, called with the result of applying the fill to its position (see AccountStateStoreOptions.positionsFromFills)
+   */
+  private getFillPositionContext(
+    order: EngineOrder,
+    onFillResult: (result: ApplyFillToPositionResult) => void,
+  ): FillPositionContext {
+    const positionSide = getOrderPositionSide(order, this.positionMode);
+    const position = this.getActivePosition(order.symbol, positionSide);
+
+    return {
+      positionSide,
+      assetQty: position?.assetQty || 0,
+      entryPrice: position?.positionPrice,
+      contractSpec: this.contractSpecs[order.symbol],
+      getFillResult: this.positionsFromFills
+        ? (fill) => {
+            const result = applyFillToPosition(
+              position,
+              { ...fill, isreduceOnly: order.isreduceOnly },
+              this.getApplyFillOptions(fill.symbol, positionSide),
+            );
+            onFillResult(result);
+            return result;
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Get fills derived from order updates (most recent fills only, see FillLedgerOptions), optionally filtered by symbol and/or position side
+   */
+  getFills(symbol?: string, side?: EnginePositionSide): EngineFill[] {
+    return this.fillLedger.getFills(symbol, side);
+  }
+
+  /**
+   * Get realised PnL from fills since the session started, optionally filtered by symbol and/or position side
+   */
+  getRealisedPnl(symbol?: string, side?: EnginePositionSide): RealisedPnlState {
+    return this.fillLedger.getRealisedPnl(symbol, side);
+  }
+
+  /**
+   * Realised PnL from fills since the session started, per settle asset (see getSettleAsset()), optionally filtered by symbol and/or position side.
+   *
+   * Fees paid in another asset than the settle asset (e.g. BNB) are only included in feesByAsset.
+   */
+  getRealisedPnlByAsset(
+    symbol?: string,
+    side?: EnginePositionSide,
+  ): Record<string, RealisedPnlState> {
+    return this.fillLedger.getRealisedPnlByAsset(symbol, side);
+  }
+
+  /** Realised PnL from fills per symbol, per position side, since the session started */
+  getRealisedPnlBySymbol(): FillLedgerState['sessionRealisedPnl'] {
+    return this.fillLedger.getRealisedPnlBySymbol();
+  }
+
+  /** Record a trading fee (commission). Only needed for fees not already included in order updates (see EngineOrder.cumulativeFee). */
+  recordTradingFee(fee: EngineTradingFee): void {
+    this.recordMutation({ type: 'recordTradingFee', fee });
+    this.fillLedger.recordTradingFee(fee);
+  }
+
+  /** Record a funding payment for a position. Positive amounts were received, negative amounts were paid. */
+  recordFundingPayment(payment: EngineFundingPayment): void {
+    this.recordMutation({ type: 'recordFundingPayment', payment });
+    this.fillLedger.recordFundingPayment(payment);
+  }
+
+  /** Get recent trading fees, optionally filtered by symbol and/or position side */
+  getTradingFees(
+    symbol?: string,
+    side?: EnginePositionSide,
+  ): EngineTradingFee[] {
+    return this.fillLedger.getTradingFees(symbol, side);
+  }
+
+  /** Get recent funding payments, optionally filtered by symbol and/or position side */
+  getFundingPayments(
+    symbol?: string,
+    side?: EnginePositionSide,
+  ): EngineFundingPayment[] {
+    return this.fillLedger.getFundingPayments(symbol, side);
   }
 
   /**
-   * Remove an order from tracking 
+   * Realised PnL, fees & funding over the lifetime of the current (or most recently closed) position for this symbol & side
+   */
+  getPositionLifetimePnl(
+    symbol: string,
+    side: EnginePositionSide,
+  ): PositionLifetimeState | undefined {
+    return this.fillLedger.getPositionLifetime(symbol, side);
+  }
+
+  /** When the current session started (see resetSession()) */
+  getSessionStartMs(): number {
+    return this.fillLedger.getSessionStartMs();
+  }
+
+  /** Start a new session, resetting session realised PnL, fee & funding aggregates */
+  resetSession(sessionStartMs: number = Date.now()): void {
+    this.recordMutation({ type: 'resetSession', sessionStartMs });
+    this.fillLedger.resetSession(sessionStartMs);
+  }
+
+  /**
+   * Remove an order from tracking
    */
   deleteOrder(orderId: string): void {
+    this.recordMutation({ type: 'deleteOrder', orderId });
+    const previous = this.accountOrders.get(orderId);
     this.accountOrders.delete(orderId);
+    this.fillLedger.forgetOrder(orderId);
+    this.orderArchive?.forgetOrder(orderId);
+
+    if (previous) {
+      this.syncPositionProtection(previous.symbol);
+      this.pruneOrderGroups(previous.symbol);
+      this.emit('orderRemoved', {
+        previous: { ...previous },
+        current: undefined,
+      });
+    }
   }
 
   /**
    * Clear all orders
    */
   clearAllOrders(): void {
+    this.recordMutation({ type: 'clearAllOrders' });
+    const previousOrders = this.getOrders();
     this.accountOrders.clear();
+    for (const previous of previousOrders) {
+      this.fillLedger.forgetOrder(previous.exchangeOrderId);
+      this.orderArchive?.forgetOrder(previous.exchangeOrderId);
+    }
+    for (const symbol of new Set(previousOrders.map((order) => order.symbol))) {
+      this.syncPositionProtection(symbol);
+      this.pruneOrderGroups(symbol);
+    }
+
+    for (const previous of previousOrders) {
+      this.emit('orderRemoved', {
+        previous: { ...previous },
+        current: undefined,
+      });
+    }
+  }
+
+  /**
+   * Link related orders into a group (e.g. an entry order with its stop loss & take profit orders), overwriting any group with the same ID.
+   *
+   * Orders are referenced by exchange or custom order ID, so orders can be grouped before the exchange acknowledges them.
+   * While the group's position is open, its stopLossPrice & takeProfitPrice are kept in sync with the group's active stop loss & take profit orders.
+   * Groups are removed automatically once none of their orders are active or pending, and their position is closed.
+   */
+  setOrderGroup(group: EngineOrderGroup): void {
+    this.recordMutation({ type: 'setOrderGroup', group });
+    this.orderGroups[group.groupId] = {
+      ...group,
+      orders: group.orders.map((member) => ({ ...member })),
+    };
+    this.syncPositionProtection(group.symbol);
+  }
+
+  /** Stop tracking an order group. The orders themselves are not affected. */
+  deleteOrderGroup(groupId: string): void {
+    this.recordMutation({ type: 'deleteOrderGroup', groupId });
+    delete this.orderGroups[groupId];
+  }
+
+  getOrderGroup(groupId: string): EngineOrderGroup | undefined {
+    return this.orderGroups[groupId];
+  }
+
+  /** Get order groups, optionally for one symbol */
+  getOrderGroups(symbol?: string): EngineOrderGroup[] {
+    const groups = Object.values(this.orderGroups);
+    return symbol ? groups.filter((group) => group.symbol === symbol) : groups;
+  }
+
+  /** Get the groups an order belongs to, by exchange or custom order ID */
+  getOrderGroupsForOrder(orderId: string): EngineOrderGroup[] {
+    const order = this.getOrder(orderId) || this.getOrderByCustomId(orderId);
+    return this.getOrderGroups().filter((group) =>
+      group.orders.some(
+        (member) =>
+          member.orderId === orderId ||
+          (!!order && isOrderGroupMember(member, order)),
+      ),
+    );
+  }
+
+  /**
+   * Stop loss & take profit protection for an active position, from orders linked via order groups and reduce-only stop loss & take profit orders closing the position.
+   *
+   * Returns undefined if there is no active position for this symbol & side.
+   */
+  getPositionProtection(
+    symbol: string,
+    side: EnginePositionSide,
+  ): EnginePositionProtection | undefined {
+    const position = this.getActivePosition(symbol, side);
+    if (!position?.assetQty) {
+      return undefined;
+    }
+
+    const linked = this.getLinkedProtectionOrders(symbol, position);
+    const stopLossOrders = [...(linked.stopLoss || [])];
+    const takeProfitOrders = [...(linked.takeProfit || [])];
+    const linkedOrderIds = new Set(
+      [...stopLossOrders, ...takeProfitOrders].map(
+        (order) => order.exchangeOrderId,
+      ),
+    );
+
+    const storageSide = this.getStorageSide(side);
+    const closingSide = position.assetQty > 0 ? 'SELL' : 'BUY';
+    for (const order of this.getOrdersForSymbolSide(symbol, closingSide)) {
+      if (
+        linkedOrderIds.has(order.exchangeOrderId) ||
+        !isPositionReducingOrder(order, this.positionMode) ||
+        getOrderPositionSide(order, this.positionMode) !== storageSide
+      ) {
+        continue;
+      }
+      if (isStopLossOrderType(order.orderType)) {
+        stopLossOrders.push(order);
+      } else if (isTakeProfitOrderType(order.orderType)) {
+        takeProfitOrders.push(order);
+      }
+    }
+
+    // Without linked stop loss orders, a stop loss on the position (e.g. a Bybit position TP/SL) closes the whole position
+    let stopLossQty = getOrdersCoverageQty(stopLossOrders);
+    if (!linked.stopLoss && position.stopLossPrice) {
+      stopLossQty = Infinity;
+    }
+    const positionQty = Math.abs(position.assetQty);
+
+    return {
+      symbol,
+      side,
+      stopLossOrders: stopLossOrders.map((order) => ({ ...order })),
+      takeProfitOrders: takeProfitOrders.map((order) => ({ ...order })),
+      stopLossPrice:
+        getNearestStopLossPrice(stopLossOrders, position.assetQty) ??
+        position.stopLossPrice,
+      takeProfitPrice:
+        getNearestTakeProfitPrice(takeProfitOrders, position.assetQty) ??
+        position.takeProfitPrice,
+      stopLossQty,
+      isProtected: stopLossQty > 0,
+      isFullyProtected:
+        stopLossQty >= positionQty ||
+        isWithinTolerance(stopLossQty, positionQty),
+    };
+  }
+
+  /** Whether an active position has a stop loss, see getPositionProtection() */
+  isPositionProtected(symbol: string, side: EnginePositionSide): boolean {
+    return !!this.getPositionProtection(symbol, side)?.isProtected;
+  }
+
+  /**
+   * Get active orders left over from a closed position, optionally for one symbol: reduce-only orders without a position to reduce, and stop loss & take profit orders linked to a position that closed.
+   *
+   * Stop loss & take profit orders in a bracket are not orphaned while the bracket's entry order is still open.
+   */
+  getOrphanedOrders(symbol?: string): EngineOrder[] {
+    const orders = symbol ? this.getOrdersForSymbol(symbol) : this.getOrders();
+    return orders.filter(
+      (order) => this.getOrphanedOrderSide(order) !== undefined,
+    );
+  }
+
+  /** The (storage) side of the closed position an order was meant to reduce, or undefined if the order isn't orphaned */
+  private getOrphanedOrderSide(
+    order: EngineOrder,
+  ): EnginePositionSide | undefined {
+    const group = this.getOrderGroupsForOrder(order.exchangeOrderId).find(
+      (orderGroup) =>
+        orderGroup.orders.some(
+          (member) =>
+            member.role !== ENGINE_ORDER_ROLE.ENTRY &&
+            isOrderGroupMember(member, order),
+        ),
+    );
+
+    if (group) {
+      const hasOpenEntry = group.orders.some(
+        (member) =>
+          member.role === ENGINE_ORDER_ROLE.ENTRY &&
+          !!this.getOrderGroupOrder(member),
+      );
+      if (
+        hasOpenEntry ||
+        this.getActivePosition(order.symbol, group.positionSide)?.assetQty
+      ) {
+        return undefined;
+      }
+      return this.getStorageSide(group.positionSide);
+    }
+
+    if (!isPositionReducingOrder(order, this.positionMode)) {
+      return undefined;
+    }
+
+    const side = getOrderPositionSide(order, this.positionMode);
+    const position = this.getActivePosition(order.symbol, side);
+    // A reduce-only order in the same direction as the position (e.g. after the position flipped) can't reduce it
+    if (
+      position?.assetQty &&
+      position.assetQty > 0 !== (order.orderSide === 'BUY')
+    ) {
+      return undefined;
+    }
+    return side;
+  }
+
+  /** Resolve a group member to its active order (by exchange or custom order ID) or pending order */
+  private getOrderGroupOrder(
+    member: EngineOrderGroupMember,
+  ): EngineOrder | EnginePendingOrder | undefined {
+    return (
+      this.getOrder(member.orderId) || this.getOrderByCustomId(member.orderId)
+    );
+  }
+
+  /**
+   * Active stop loss & take profit orders linked to a position via order groups.
+   *
+   * A role is only included if at least one group for this position has a member with that role.
+   */
+  private getLinkedProtectionOrders(
+    symbol: string,
+    position: EngineSimplePosition,
+  ): { stopLoss?: EngineOrder[]; takeProfit?: EngineOrder[] } {
+    const linked: { stopLoss?: EngineOrder[]; takeProfit?: EngineOrder[] } = {};
+
+    for (const group of this.getOrderGroups(symbol)) {
+      if (this.getActivePosition(symbol, group.positionSide) !== position) {
+        continue;
+      }
+
+      for (const member of group.orders) {
+        if (member.role === ENGINE_ORDER_ROLE.ENTRY) {
+          continue;
+        }
+
+        const orders = (linked[member.role] = linked[member.role] || []);
+        const order =
+          this.getOrder(member.orderId) ||
+          this.accountOrders.getByCustomId(member.orderId);
+        if (order && !orders.includes(order)) {
+          orders.push(order);
+        }
+      }
+    }
+
+    return linked;
+  }
+
+  /** Keep the stop loss & take profit prices of positions in sync with their linked (active) stop loss & take profit orders */
+  private syncPositionProtection(symbol: string): void {
+    for (const position of Object.values(
+      this.accountPositionState[symbol] || {},
+    )) {
+      if (!position?.assetQty) {
+        continue;
+      }
+
+      const linked = this.getLinkedProtectionOrders(symbol, position);
+      if (linked.stopLoss) {
+        position.stopLossPrice = getNearestStopLossPrice(
+          linked.stopLoss,
+          position.assetQty,
+        );
+      }
+      if (linked.takeProfit) {
+        position.takeProfitPrice = getNearestTakeProfitPrice(
+          linked.takeProfit,
+          position.assetQty,
+        );
+      }
+    }
+  }
+
+  /** Remove groups without any active or pending orders, once their position is closed */
+  private pruneOrderGroups(symbol: string): void {
+    for (const group of this.getOrderGroups(symbol)) {
+      const hasOrders = group.orders.some(
+        (member) => !!this.getOrderGroupOrder(member),
+      );
+      if (
+        !hasOrders &&
+        !this.getActivePosition(symbol, group.positionSide)?.assetQty
+      ) {
+        delete this.orderGroups[group.groupId];
+      }
+    }
   }
 
   /**
    * Get orders by status
+   * Terminal statuses (e.g. FILLED or CANCELLED) are looked up in the order archive, if enabled (see AccountStateStoreOptions.orderArchive)
    */
   getOrdersByStatus(status: EngineOrder['status']): EngineOrder[] {
-    return this.getOrders().filter(order => order.status === status);
+    if (this.orderArchive && isTerminalOrderStatus(status)) {
+      return this.orderArchive
+        .getArchivedOrders({ status })
+        .map((archived) => archived.order);
+    }
+    return this.accountOrders.getByStatus(status);
+  }
+
+  /**
+   * Get terminal (filled, cancelled, expired or rejected) orders from the order archive, oldest first.
+   * Always empty unless the order archive is enabled (see AccountStateStoreOptions.orderArchive).
+   */
+  getArchivedOrders(query?: OrderArchiveQuery): ArchivedOrder[] {
+    return this.orderArchive?.getArchivedOrders(query) || [];
+  }
+
+  /** Get a terminal order from the order archive, including its status transitions */
+  getArchivedOrder(orderId: string): ArchivedOrder | undefined {
+    return this.orderArchive?.getArchivedOrder(orderId);
+  }
+
+  /**
+   * Get the status transitions of an active or archived order, oldest first.
+   * Undefined if the order is unknown, or the order archive is not enabled.
+   */
+  getOrderHistory(orderId: string): EngineOrderTransition[] | undefined {
+    return this.orderArchive?.getOrderTransitions(orderId);
   }
 
   /**
@@ -1,5 +1,54 @@
+export * from './lib/types/balance.js';
+export * from './lib/types/contract.js';
 export * from './lib/types/events.js';
+export * from './lib/types/liquidation.js';
+export * from './lib/types/order.js';
 export * from './lib/types/position.js';
+export * from './lib/types/state-events.js';
+export * from './lib/misc/TypedEventEmitter.js';
+export * from './lib/types/persistence.js';
+export * from './lib/types/snapshot.js';
+export * from './lib/snapshot.js';
+export * from './lib/types/journal.js';
+export * from './lib/journal/AccountStateJournal.js';
+export * from './lib/types/store.js';
+export * from './lib/types/ledger.js';
+export * from './lib/ledger/FillLedger.js';
+export * from './lib/types/order-archive.js';
+export * from './lib/orders/OrderArchive.js';
+export * from './lib/orders/OrderIndex.js';
+export * from './lib/types/order-intent.js';
+export * from './lib/orders/PendingOrderMonitor.js';
+export * from './lib/types/order-group.js';
+export * from './lib/orders/order-groups.js';
+export * from './lib/persistence/FileSystemMetadataPersistenceAdapter.js';
+export * from './lib/persistence/InMemoryMetadataPersistenceAdapter.js';
+export * from './lib/persistence/MetadataPersistenceScheduler.js';
+export * from './lib/types/reconcile.js';
+export * from './lib/reconcile/reconcile.js';
+export * from './lib/types/staleness.js';
+export * from './lib/staleness/StalenessMonitor.js';
+export * from './lib/types/risk.js';
+export * from './lib/risk/PreTradeRiskChecker.js';
+export * from './lib/types/simulation.js';
+export * from './lib/types/paper.js';
+export * from './lib/paper/PaperTradingEngine.js';
+export * from './lib/types/backtest.js';
+export * from './lib/backtest/price-history.js';
+export * from './lib/backtest/BacktestRunner.js';
+export * from './lib/adapters/common.js';
+export * from './lib/adapters/binance-usdm.types.js';
+export * from './lib/adapters/binance-usdm.js';
+export * from './lib/adapters/bybit-v5.types.js';
+export * from './lib/adapters/bybit-v5.js';
+export * from './lib/adapters/okx-v5.types.js';
+export * from './lib/adapters/okx-v5.js';
+export * from './lib/adapters/bitget-v2.types.js';
+export * from './lib/adapters/bitget-v2.js';
+export * from './lib/adapters/gate-futures.types.js';
+export * from './lib/adapters/gate-futures.js';
+export * from './util/math.js';
+export * from './util/liquidation.math.js';
 export * from './util/position.math.js';
 export * from './util/position.types.js';
 export * from './util/reporting.js';
@@ -0,0 +1,290 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EngineAssetBalance } from '../types/balance.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  ENGINE_MARGIN_MODE,
+  EngineOrderPositionSide,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../types/position.js';
+import {
+  BinanceUsdmPositionSide,
+  BinanceUsdmRestAccount,
+  BinanceUsdmRestOrder,
+  BinanceUsdmRestPosition,
+  BinanceUsdmWsAccountConfigUpdateEvent,
+  BinanceUsdmWsAccountPosition,
+  BinanceUsdmWsAccountUpdateEvent,
+  BinanceUsdmWsOrderUpdateEvent,
+} from './binance-usdm.types.js';
+import {
+  deleteStaleNetPositionSide,
+  toNumber,
+  toOptionalPrice,
+} from './common.js';
+
+const BINANCE_USDM_ORDER_TYPES: EngineOrder['orderType'][] = [
+  'LIMIT',
+  'MARKET',
+  'STOP',
+  'STOP_MARKET',
+  'TAKE_PROFIT',
+  'TAKE_PROFIT_MARKET',
+  'TRAILING_STOP_MARKET',
+];
+
+export function mapBinanceUsdmOrderStatus(
+  status: string,
+): EngineOrder['status'] {
+  switch (status) {
+    case 'NEW':
+      return 'NEW';
+    case 'PARTIALLY_FILLED':
+      return 'PARTIALLY_FILLED';
+    case 'FILLED':
+    // Liquidation & auto-deleveraging orders are filled by the exchange
+    case 'NEW_INSURANCE':
+    case 'NEW_ADL':
+      return 'FILLED';
+    case 'CANCELED':
+      return 'CANCELLED';
+    case 'EXPIRED':
+    case 'EXPIRED_IN_MATCH':
+      return 'EXPIRED';
+    case 'REJECTED':
+    default:
+      return 'REJECTED';
+  }
+}
+
+export function mapBinanceUsdmOrderType(
+  type: string,
+): EngineOrder['orderType'] {
+  return BINANCE_USDM_ORDER_TYPES.includes(type as EngineOrder['orderType'])
+    ? (type as EngineOrder['orderType'])
+    : 'LIMIT';
+}
+
+/** In one-way mode (BOTH), the side is derived from the sign of the position amount */
+export function getBinanceUsdmPositionSide(
+  positionSide: BinanceUsdmPositionSide,
+  positionAmt: number,
+): EnginePositionSide {
+  if (positionSide !== 'BOTH') {
+    return positionSide;
+  }
+  return positionAmt < 0 ? 'SHORT' : 'LONG';
+}
+
+function getOrderPositionSide(
+  positionSide: BinanceUsdmPositionSide,
+): EngineOrder['positionSide'] {
+  return positionSide === 'BOTH' ? 'NONE' : positionSide;
+}
+
+export function mapBinanceUsdmRestOrder(
+  order: BinanceUsdmRestOrder,
+): EngineOrder {
+  return {
+    exchangeOrderId: String(order.orderId),
+    customOrderId: order.clientOrderId,
+    symbol: order.symbol,
+    orderSide: order.side,
+    positionSide: getOrderPositionSide(order.positionSide),
+    orderType: mapBinanceUsdmOrderType(order.type),
+    status: mapBinanceUsdmOrderStatus(order.status),
+    price: toNumber(order.price),
+    originalQuantity: toNumber(order.origQty),
+    executedQuantity: toNumber(order.executedQty),
+    averagePrice: toNumber(order.avgPrice),
+    createdAtMs: order.time,
+    updatedAtMs: order.updateTime,
+    isreduceOnly: order.reduceOnly,
+    triggerPrice: toOptionalPrice(order.stopPrice),
+  };
+}
+
+/**
+ * Map an ORDER_TRADE_UPDATE event to an order.
+ *
+ * Binance only sends the commission of the last trade, so pass the cumulative fee of the previous update for this order to keep a running total.
+ */
+export function mapBinanceUsdmWsOrder(
+  event: BinanceUsdmWsOrderUpdateEvent,
+  previousCumulativeFee: number = 0,
+): EngineOrder {
+  const order = event.o;
+  const tradeFee = order.x === 'TRADE' ? toNumber(order.n) : 0;
+
+  return {
+    exchangeOrderId: String(order.i),
+    customOrderId: order.c,
+    symbol: order.s,
+    orderSide: order.S,
+    positionSide: getOrderPositionSide(order.ps),
+    orderType: mapBinanceUsdmOrderType(order.o),
+    status: mapBinanceUsdmOrderStatus(order.X),
+    price: toNumber(order.p),
+    originalQuantity: toNumber(order.q),
+    executedQuantity: toNumber(order.z),
+    averagePrice: toNumber(order.ap),
+    createdAtMs: order.T,
+    updatedAtMs: event.E,
+    isreduceOnly: order.R,
+    triggerPrice: toOptionalPrice(order.sp),
+    cumulativeFee: previousCumulativeFee + tradeFee,
+    feeAsset: order.N || undefined,
+    isMaker: order.x === 'TRADE' ? order.m : undefined,
+  };
+}
+
+export function mapBinanceUsdmRestPosition(
+  position: BinanceUsdmRestPosition,
+): EngineSimplePosition {
+  const assetQty = toNumber(position.positionAmt);
+  const positionSide = getBinanceUsdmPositionSide(
+    position.positionSide,
+    assetQty,
+  );
+  const value = Math.abs(toNumber(position.notional));
+  const leverage = toNumber(position.leverage);
+  const isolatedMargin = toNumber(position.isolatedWallet);
+
+  return {
+    symbol: position.symbol,
+    timestampMs: position.updateTime,
+    positionSide,
+    orderPositionSide: position.positionSide as EngineOrderPositionSide,
+    positionPrice: toNumber(position.entryPrice),
+    assetQty,
+    value,
+    valueUpnl: toNumber(position.unRealizedProfit),
+    marginValue:
+      position.initialMargin !== undefined
+        ? toNumber(position.initialMargin)
+        : leverage
+        ? value / leverage
+        : 0,
+    isolatedMargin: isolatedMargin || undefined,
+    liquidationPrice: toNumber(position.liquidationPrice),
+    stopLossPrice: undefined,
+    takeProfitPrice: undefined,
+  };
+}
+
+/**
+ * Map a position from an ACCOUNT_UPDATE event.
+ *
+ * Fields not included in the event (e.g. liquidation price & margin) are carried over from the existing position, if provided.
+ */
+export function mapBinanceUsdmWsPosition(
+  position: BinanceUsdmWsAccountPosition,
+  eventTimeMs: number,
+  existing?: EngineSimplePosition,
+): EngineSimplePosition {
+  const assetQty = toNumber(position.pa);
+  const positionPrice = toNumber(position.ep);
+  const isolatedMargin =
+    position.mt === 'isolated' ? toNumber(position.iw) : undefined;
+
+  return {
+    symbol: position.s,
+    timestampMs: eventTimeMs,
+    positionSide: getBinanceUsdmPositionSide(position.ps, assetQty),
+    orderPositionSide: position.ps as EngineOrderPositionSide,
+    positionPrice,
+    assetQty,
+    value: Math.abs(assetQty) * positionPrice,
+    valueUpnl: toNumber(position.up),
+    marginValue: isolatedMargin ?? existing?.marginValue ?? 0,
+    isolatedMargin,
+    liquidationPrice: existing?.liquidationPrice || 0,
+    stopLossPrice: existing?.stopLossPrice,
+    takeProfitPrice: existing?.takeProfitPrice,
+  };
+}
+
+export function mapBinanceUsdmRestAccountBalances(
+  account: BinanceUsdmRestAccount,
+): EngineAssetBalance[] {
+  return account.assets.map((asset) => ({
+    asset: asset.asset,
+    walletBalance: toNumber(asset.walletBalance),
+    availableBalance: toNumber(asset.availableBalance),
+    lockedBalance: toNumber(asset.initialMargin),
+    equity: toNumber(asset.marginBalance),
+  }));
+}
+
+/** Apply an ORDER_TRADE_UPDATE event to the store, keeping a running total of fees per order */
+export function applyBinanceUsdmOrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  event: BinanceUsdmWsOrderUpdateEvent,
+): EngineOrder {
+  const previous = store.getOrder(String(event.o.i));
+  const order = mapBinanceUsdmWsOrder(event, previous?.cumulativeFee);
+  store.upsertActiveOrder(order);
+  return order;
+}
+
+/** Apply an ACCOUNT_UPDATE event (balances, positions & margin modes) to the store */
+export function applyBinanceUsdmAccountUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  event: BinanceUsdmWsAccountUpdateEvent,
+): void {
+  for (const balance of event.a.B) {
+    store.setAssetBalance(balance.a, { walletBalance: toNumber(balance.wb) });
+  }
+
+  for (const position of event.a.P) {
+    const assetQty = toNumber(position.pa);
+    if (!assetQty) {
+      // A closed one-way position could have been stored under either side
+      const sides: EnginePositionSide[] =
+        position.ps === 'BOTH' ? ['LONG', 'SHORT'] : [position.ps];
+      for (const side of sides) {
+        store.deleteActivePosition(position.s, side);
+      }
+      continue;
+    }
+
+    const side = getBinanceUsdmPositionSide(position.ps, assetQty);
+    const marginMode =
+      position.mt === 'isolated'
+        ? ENGINE_MARGIN_MODE.ISOLATED
+        : ENGINE_MARGIN_MODE.CROSS;
+    // Binance margin modes apply to both sides of a symbol
+    if (store.getSymbolMarginMode(position.s, side) !== marginMode) {
+      store.setSymbolMarginMode(position.s, marginMode);
+    }
+
+    if (position.ps === 'BOTH') {
+      deleteStaleNetPositionSide(store, position.s, side);
+    }
+    store.setActivePosition(
+      position.s,
+      side,
+      mapBinanceUsdmWsPosition(
+        position,
+        event.E,
+        store.getActivePosition(position.s, side),
+      ),
+    );
+  }
+}
+
+/** Apply an ACCOUNT_CONFIG_UPDATE event (leverage changes) to the store */
+export function applyBinanceUsdmAccountConfigUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  event: BinanceUsdmWsAccountConfigUpdateEvent,
+): void {
+  if (event.ac) {
+    store.setSymbolLeverage(event.ac.s, event.ac.l);
+  }
+}
@@ -0,0 +1,159 @@
+import { NumericValue } from './common.js';
+
+/**
+ * Raw Binance USDM futures payloads, as sent by the exchange. Only fields used by the adapters are typed.
+ *
+ * Numeric fields accept strings (raw API responses) or numbers (e.g. SDK responses with "beautify" enabled).
+ */
+
+export type BinanceUsdmPositionSide = 'BOTH' | 'LONG' | 'SHORT';
+
+/** GET /fapi/v2/positionRisk or GET /fapi/v3/positionRisk */
+export interface BinanceUsdmRestPosition {
+  symbol: string;
+  positionSide: BinanceUsdmPositionSide;
+  /** Signed: negative for short positions */
+  positionAmt: NumericValue;
+  entryPrice: NumericValue;
+  unRealizedProfit: NumericValue;
+  liquidationPrice: NumericValue;
+  notional: NumericValue;
+  /** Isolated margin, excluding unrealised PnL */
+  isolatedWallet?: NumericValue;
+  /** v3 only */
+  initialMargin?: NumericValue;
+  /** v2 only */
+  leverage?: NumericValue;
+  /** v2 only */
+  marginType?: 'cross' | 'isolated';
+  updateTime: number;
+}
+
+/** GET /fapi/v1/openOrders */
+export interface BinanceUsdmRestOrder {
+  orderId: NumericValue;
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: BinanceUsdmPositionSide;
+  type: string;
+  status: string;
+  price: NumericValue;
+  origQty: NumericValue;
+  executedQty: NumericValue;
+  avgPrice: NumericValue;
+  stopPrice?: NumericValue;
+  reduceOnly: boolean;
+  time: number;
+  updateTime: number;
+}
+
+export interface BinanceUsdmRestAccountAsset {
+  asset: string;
+  walletBalance: NumericValue;
+  availableBalance: NumericValue;
+  /** Wallet balance including unrealised PnL */
+  marginBalance: NumericValue;
+  initialMargin: NumericValue;
+}
+
+/** GET /fapi/v2/account or GET /fapi/v3/account */
+export interface BinanceUsdmRestAccount {
+  assets: BinanceUsdmRestAccountAsset[];
+}
+
+/** "o" in an ORDER_TRADE_UPDATE user data event */
+export interface BinanceUsdmWsOrder {
+  /** Symbol */
+  s: string;
+  /** Client order ID */
+  c: string;
+  /** Side */
+  S: 'BUY' | 'SELL';
+  /** Order type */
+  o: string;
+  /** Original quantity */
+  q: NumericValue;
+  /** Original price */
+  p: NumericValue;
+  /** Average price */
+  ap: NumericValue;
+  /** Stop price */
+  sp: NumericValue;
+  /** Execution type, e.g. NEW, TRADE, CANCELED */
+  x: string;
+  /** Order status */
+  X: string;
+  /** Order ID */
+  i: NumericValue;
+  /** Cumulative filled quantity */
+  z: NumericValue;
+  /** Commission asset of the last trade, if any */
+  N?: string;
+  /** Commission of the last trade, if any */
+  n?: NumericValue;
+  /** Order trade time */
+  T: number;
+  /** Is the last trade the maker side */
+  m: boolean;
+  /** Is reduce only */
+  R: boolean;
+  /** Position side */
+  ps: BinanceUsdmPositionSide;
+}
+
+export interface BinanceUsdmWsOrderUpdateEvent {
+  e: 'ORDER_TRADE_UPDATE';
+  /** Event time */
+  E: number;
+  o: BinanceUsdmWsOrder;
+}
+
+export interface BinanceUsdmWsAccountBalance {
+  /** Asset */
+  a: string;
+  /** Wallet balance */
+  wb: NumericValue;
+}
+
+export interface BinanceUsdmWsAccountPosition {
+  /** Symbol */
+  s: string;
+  /** Signed position amount */
+  pa: NumericValue;
+  /** Entry price */
+  ep: NumericValue;
+  /** Unrealised PnL */
+  up: NumericValue;
+  /** Margin type */
+  mt: 'cross' | 'isolated';
+  /** Isolated wallet (if isolated position) */
+  iw: NumericValue;
+  /** Position side */
+  ps: BinanceUsdmPositionSide;
+}
+
+export interface BinanceUsdmWsAccountUpdateEvent {
+  e: 'ACCOUNT_UPDATE';
+  /** Event time */
+  E: number;
+  a: {
+    /** Event reason type */
+    m: string;
+    B: BinanceUsdmWsAccountBalance[];
+    P: BinanceUsdmWsAccountPosition[];
+  };
+}
+
+/** Emitted when leverage changes for a symbol */
+export interface BinanceUsdmWsAccountConfigUpdateEvent {
+  e: 'ACCOUNT_CONFIG_UPDATE';
+  /** Event time */
+  E: number;
+  ac?: {
+    /** Symbol */
+    s: string;
+    /** Leverage */
+    l: number;
+  };
+}
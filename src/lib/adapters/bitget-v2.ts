@@ -0,0 +1,269 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EngineAssetBalance } from '../types/balance.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  ENGINE_MARGIN_MODE,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../types/position.js';
+import {
+  BitgetV2Account,
+  BitgetV2Order,
+  BitgetV2PlanOrder,
+  BitgetV2Position,
+  BitgetV2WsMessage,
+} from './bitget-v2.types.js';
+import { toNumber, toOptionalPrice } from './common.js';
+
+function getSymbol(payload: { symbol?: string; instId?: string }): string {
+  return payload.symbol || payload.instId || '';
+}
+
+function getOrderPositionSide(
+  posSide: BitgetV2Order['posSide'],
+): EngineOrder['positionSide'] {
+  if (posSide === 'long') {
+    return 'LONG';
+  }
+  if (posSide === 'short') {
+    return 'SHORT';
+  }
+  return 'NONE';
+}
+
+export function mapBitgetV2OrderStatus(status: string): EngineOrder['status'] {
+  switch (status) {
+    case 'live':
+    case 'new':
+    case 'init':
+      return 'NEW';
+    case 'partially_filled':
+      return 'PARTIALLY_FILLED';
+    case 'filled':
+      return 'FILLED';
+    case 'canceled':
+    case 'cancelled':
+      return 'CANCELLED';
+    default:
+      return 'REJECTED';
+  }
+}
+
+export function mapBitgetV2PlanOrderStatus(
+  status: string,
+): EngineOrder['status'] {
+  switch (status) {
+    case 'live':
+    case 'not_trigger':
+      return 'NEW';
+    // Triggered: the resulting order is tracked separately, by its own order ID
+    case 'executed':
+    case 'triggered':
+      return 'FILLED';
+    case 'cancelled':
+    case 'canceled':
+      return 'CANCELLED';
+    case 'fail_execute':
+    case 'fail_trigger':
+    default:
+      return 'REJECTED';
+  }
+}
+
+export function mapBitgetV2PlanOrderType(
+  planType: string,
+  orderType: BitgetV2PlanOrder['orderType'],
+): EngineOrder['orderType'] {
+  const isMarket = orderType === 'market';
+
+  switch (planType) {
+    case 'profit_plan':
+    case 'pos_profit':
+      return isMarket ? 'TAKE_PROFIT_MARKET' : 'TAKE_PROFIT';
+    case 'track_plan':
+    case 'moving_plan':
+      return 'TRAILING_STOP_MARKET';
+    // normal_plan, loss_plan & pos_loss
+    default:
+      return isMarket ? 'STOP_MARKET' : 'STOP';
+  }
+}
+
+/** Map a REST or websocket order. Fees are inverted, as Bitget reports charged fees as negative. */
+export function mapBitgetV2Order(order: BitgetV2Order): EngineOrder {
+  const fee = order.feeDetail
+    ? order.feeDetail.reduce((sum, detail) => sum + toNumber(detail.fee), 0)
+    : order.fee;
+
+  return {
+    exchangeOrderId: order.orderId,
+    customOrderId: order.clientOid,
+    symbol: getSymbol(order),
+    orderSide: order.side === 'buy' ? 'BUY' : 'SELL',
+    positionSide: getOrderPositionSide(order.posSide),
+    orderType: order.orderType === 'market' ? 'MARKET' : 'LIMIT',
+    status: mapBitgetV2OrderStatus(order.status),
+    price: toNumber(order.price),
+    originalQuantity: toNumber(order.size),
+    executedQuantity: toNumber(order.accBaseVolume ?? order.baseVolume),
+    averagePrice: toNumber(order.priceAvg),
+    createdAtMs: toNumber(order.cTime),
+    updatedAtMs: toNumber(order.uTime),
+    isreduceOnly: order.reduceOnly === 'YES',
+    cumulativeFee: fee === undefined ? undefined : -toNumber(fee),
+    feeAsset: order.feeDetail?.[0]?.feeCoin,
+  };
+}
+
+/** Map a REST or websocket plan (conditional) order */
+export function mapBitgetV2PlanOrder(order: BitgetV2PlanOrder): EngineOrder {
+  const createdAtMs = toNumber(order.cTime);
+
+  return {
+    exchangeOrderId: order.orderId,
+    customOrderId: order.clientOid,
+    symbol: getSymbol(order),
+    orderSide: order.side === 'buy' ? 'BUY' : 'SELL',
+    positionSide: getOrderPositionSide(order.posSide),
+    orderType: mapBitgetV2PlanOrderType(order.planType, order.orderType),
+    status: mapBitgetV2PlanOrderStatus(order.planStatus || order.status || ''),
+    price: order.orderType === 'market' ? 0 : toNumber(order.price),
+    originalQuantity: toNumber(order.size),
+    executedQuantity: 0,
+    averagePrice: 0,
+    createdAtMs,
+    updatedAtMs: toNumber(order.uTime) || createdAtMs,
+    isreduceOnly: order.reduceOnly === 'YES',
+    triggerPrice: toOptionalPrice(order.triggerPrice),
+  };
+}
+
+/** Map a REST or websocket position. Short positions get a negative quantity. */
+export function mapBitgetV2Position(
+  position: BitgetV2Position,
+): EngineSimplePosition {
+  const positionSide: EnginePositionSide =
+    position.holdSide === 'short' ? 'SHORT' : 'LONG';
+  const total = toNumber(position.total);
+  const positionPrice = toNumber(position.openPriceAvg);
+  const marginValue = toNumber(position.marginSize);
+
+  return {
+    symbol: getSymbol(position),
+    timestampMs: toNumber(position.uTime) || Date.now(),
+    positionSide,
+    orderPositionSide:
+      position.posMode === 'one_way_mode' ? 'BOTH' : positionSide,
+    positionPrice,
+    assetQty: positionSide === 'SHORT' ? -total : total,
+    value: total * (toNumber(position.markPrice) || positionPrice),
+    valueUpnl: toNumber(position.unrealizedPL),
+    marginValue,
+    isolatedMargin:
+      position.marginMode === 'isolated' ? marginValue : undefined,
+    liquidationPrice: toNumber(position.liquidationPrice),
+    stopLossPrice: undefined,
+    takeProfitPrice: undefined,
+  };
+}
+
+/** Map REST or websocket futures accounts to balances per margin coin */
+export function mapBitgetV2AccountBalances(
+  accounts: BitgetV2Account[],
+): EngineAssetBalance[] {
+  return accounts.map((account) => {
+    const equity = toNumber(account.accountEquity ?? account.equity);
+    const lockedBalance = toNumber(account.locked ?? account.frozen);
+
+    return {
+      asset: account.marginCoin,
+      walletBalance: equity - toNumber(account.unrealizedPL),
+      availableBalance: toNumber(account.available),
+      lockedBalance,
+      equity,
+    };
+  });
+}
+
+/**
+ * Apply a "positions" channel push (positions, leverage & margin modes) to the store.
+ *
+ * Bitget pushes the complete list of open positions, so any position in the store that is not in the list is deleted.
+ */
+export function applyBitgetV2PositionUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BitgetV2WsMessage<BitgetV2Position>,
+): void {
+  const openPositionKeys = new Set<string>();
+
+  for (const position of message.data) {
+    if (!toNumber(position.total)) {
+      continue;
+    }
+
+    const enginePosition = mapBitgetV2Position(position);
+    const { symbol, positionSide } = enginePosition;
+    openPositionKeys.add(`${symbol}:${positionSide}`);
+
+    const marginMode =
+      position.marginMode === 'isolated'
+        ? ENGINE_MARGIN_MODE.ISOLATED
+        : ENGINE_MARGIN_MODE.CROSS;
+    if (store.getSymbolMarginMode(symbol, positionSide) !== marginMode) {
+      store.setSymbolMarginMode(symbol, marginMode);
+    }
+
+    const leverage = toNumber(position.leverage);
+    if (leverage && store.getSymbolLeverage(symbol) !== leverage) {
+      store.setSymbolLeverage(symbol, leverage);
+    }
+
+    store.setActivePosition(symbol, positionSide, enginePosition);
+  }
+
+  for (const position of store.getAllPositions()) {
+    if (!openPositionKeys.has(`${position.symbol}:${position.positionSide}`)) {
+      store.deleteActivePosition(position.symbol, position.positionSide);
+    }
+  }
+}
+
+/** Apply an "orders" channel push to the store */
+export function applyBitgetV2OrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BitgetV2WsMessage<BitgetV2Order>,
+): void {
+  for (const order of message.data) {
+    store.upsertActiveOrder(mapBitgetV2Order(order));
+  }
+}
+
+/** Apply an "orders-algo" channel push to the store */
+export function applyBitgetV2PlanOrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BitgetV2WsMessage<BitgetV2PlanOrder>,
+): void {
+  for (const order of message.data) {
+    store.upsertActiveOrder(mapBitgetV2PlanOrder(order));
+  }
+}
+
+/** Apply an "account" channel push (balances per margin coin) to the store */
+export function applyBitgetV2AccountUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BitgetV2WsMessage<BitgetV2Account>,
+): void {
+  for (const { asset, ...balance } of mapBitgetV2AccountBalances(
+    message.data,
+  )) {
+    store.setAssetBalance(asset, balance);
+  }
+}
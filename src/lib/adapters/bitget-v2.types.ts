@@ -0,0 +1,110 @@
+import { NumericValue } from './common.js';
+
+/**
+ * Raw Bitget V2 futures (mix, e.g. USDT-FUTURES) payloads, as sent by the exchange. Only fields used by the adapters are typed.
+ *
+ * Numeric fields accept strings (raw API responses) or numbers. Quantities are in the base asset.
+ */
+
+/** GET /api/v2/mix/position/all-position, or the "positions" websocket channel */
+export interface BitgetV2Position {
+  /** REST */
+  symbol?: string;
+  /** Websocket */
+  instId?: string;
+  marginCoin: string;
+  /** Also set in one-way mode */
+  holdSide: 'long' | 'short';
+  posMode?: 'one_way_mode' | 'hedge_mode';
+  marginMode: 'crossed' | 'isolated';
+  /** Unsigned position size */
+  total: NumericValue;
+  openPriceAvg: NumericValue;
+  leverage?: NumericValue;
+  marginSize: NumericValue;
+  liquidationPrice?: NumericValue;
+  unrealizedPL: NumericValue;
+  markPrice?: NumericValue;
+  uTime?: NumericValue;
+}
+
+/** GET /api/v2/mix/order/orders-pending, or the "orders" websocket channel */
+export interface BitgetV2Order {
+  /** REST */
+  symbol?: string;
+  /** Websocket */
+  instId?: string;
+  orderId: string;
+  clientOid: string;
+  side: 'buy' | 'sell';
+  /** "net" in one-way mode */
+  posSide: 'long' | 'short' | 'net';
+  orderType: 'limit' | 'market';
+  /** e.g. live, new, partially_filled, filled, canceled */
+  status: string;
+  price: NumericValue;
+  size: NumericValue;
+  /** Filled quantity (REST) */
+  baseVolume?: NumericValue;
+  /** Filled quantity (websocket) */
+  accBaseVolume?: NumericValue;
+  priceAvg?: NumericValue;
+  /** Cumulative fee (REST). Negative when charged. */
+  fee?: NumericValue;
+  /** Cumulative fees (websocket). Negative when charged. */
+  feeDetail?: { feeCoin: string; fee: NumericValue }[];
+  reduceOnly?: 'YES' | 'NO';
+  cTime: NumericValue;
+  uTime: NumericValue;
+}
+
+/** GET /api/v2/mix/order/orders-plan-pending, or the "orders-algo" websocket channel */
+export interface BitgetV2PlanOrder {
+  /** REST */
+  symbol?: string;
+  /** Websocket */
+  instId?: string;
+  orderId: string;
+  clientOid: string;
+  /** e.g. normal_plan, track_plan, profit_plan, loss_plan, pos_profit, pos_loss, moving_plan */
+  planType: string;
+  /** e.g. live, executed, fail_execute, cancelled */
+  planStatus?: string;
+  /** Websocket */
+  status?: string;
+  side: 'buy' | 'sell';
+  posSide: 'long' | 'short' | 'net';
+  orderType: 'limit' | 'market';
+  price?: NumericValue;
+  size: NumericValue;
+  triggerPrice: NumericValue;
+  reduceOnly?: 'YES' | 'NO';
+  cTime: NumericValue;
+  uTime?: NumericValue;
+}
+
+/** GET /api/v2/mix/account/accounts, or the "account" websocket channel */
+export interface BitgetV2Account {
+  marginCoin: string;
+  available: NumericValue;
+  /** REST */
+  locked?: NumericValue;
+  /** Websocket */
+  frozen?: NumericValue;
+  /** Equity, including unrealised PnL (REST) */
+  accountEquity?: NumericValue;
+  /** Equity, including unrealised PnL (websocket) */
+  equity?: NumericValue;
+  unrealizedPL?: NumericValue;
+}
+
+/** A private websocket channel push */
+export interface BitgetV2WsMessage<TData> {
+  action: 'snapshot' | 'update';
+  arg: {
+    instType: string;
+    channel: string;
+    instId?: string;
+  };
+  data: TData[];
+}
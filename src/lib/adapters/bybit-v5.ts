@@ -0,0 +1,221 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EngineAssetBalance } from '../types/balance.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  EngineOrderPositionSide,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../types/position.js';
+import {
+  BybitV5Order,
+  BybitV5Position,
+  BybitV5PositionIdx,
+  BybitV5Wallet,
+  BybitV5WsMessage,
+} from './bybit-v5.types.js';
+import {
+  deleteStaleNetPositionSide,
+  toNumber,
+  toOptionalPrice,
+} from './common.js';
+
+export function mapBybitV5OrderStatus(status: string): EngineOrder['status'] {
+  switch (status) {
+    case 'New':
+    // Conditional orders waiting for (or just past) their trigger
+    case 'Untriggered':
+    case 'Triggered':
+      return 'NEW';
+    case 'PartiallyFilled':
+      return 'PARTIALLY_FILLED';
+    case 'Filled':
+      return 'FILLED';
+    case 'Cancelled':
+    case 'PartiallyFilledCanceled':
+    case 'Deactivated':
+      return 'CANCELLED';
+    case 'Rejected':
+    default:
+      return 'REJECTED';
+  }
+}
+
+export function mapBybitV5OrderType(
+  orderType: string,
+  stopOrderType?: string,
+): EngineOrder['orderType'] {
+  const isMarket = orderType === 'Market';
+
+  switch (stopOrderType) {
+    case 'TakeProfit':
+    case 'PartialTakeProfit':
+      return isMarket ? 'TAKE_PROFIT_MARKET' : 'TAKE_PROFIT';
+    case 'StopLoss':
+    case 'PartialStopLoss':
+    case 'Stop':
+      return isMarket ? 'STOP_MARKET' : 'STOP';
+    case 'TrailingStop':
+      return 'TRAILING_STOP_MARKET';
+    default:
+      return isMarket ? 'MARKET' : 'LIMIT';
+  }
+}
+
+/** In one-way mode (positionIdx 0), the side is derived from the position's side */
+export function getBybitV5PositionSide(
+  positionIdx: BybitV5PositionIdx,
+  side: BybitV5Position['side'],
+): EnginePositionSide {
+  if (positionIdx === 1) {
+    return 'LONG';
+  }
+  if (positionIdx === 2) {
+    return 'SHORT';
+  }
+  return side === 'Sell' ? 'SHORT' : 'LONG';
+}
+
+/** Map a REST or websocket order (both have the same shape) */
+export function mapBybitV5Order(order: BybitV5Order): EngineOrder {
+  const positionIdx = Number(order.positionIdx);
+
+  return {
+    exchangeOrderId: order.orderId,
+    customOrderId: order.orderLinkId,
+    symbol: order.symbol,
+    orderSide: order.side === 'Buy' ? 'BUY' : 'SELL',
+    positionSide:
+      positionIdx === 1 ? 'LONG' : positionIdx === 2 ? 'SHORT' : 'NONE',
+    orderType: mapBybitV5OrderType(order.orderType, order.stopOrderType),
+    status: mapBybitV5OrderStatus(order.orderStatus),
+    price: toNumber(order.price),
+    originalQuantity: toNumber(order.qty),
+    executedQuantity: toNumber(order.cumExecQty),
+    averagePrice: toNumber(order.avgPrice),
+    createdAtMs: toNumber(order.createdTime),
+    updatedAtMs: toNumber(order.updatedTime),
+    isreduceOnly: order.reduceOnly,
+    triggerPrice: toOptionalPrice(order.triggerPrice),
+    cumulativeFee:
+      order.cumExecFee === undefined ? undefined : toNumber(order.cumExecFee),
+    feeAsset: order.feeCurrency || undefined,
+  };
+}
+
+/** Map a REST or websocket position. Short positions get a negative quantity. */
+export function mapBybitV5Position(
+  position: BybitV5Position,
+): EngineSimplePosition {
+  const positionIdx = Number(position.positionIdx) as BybitV5PositionIdx;
+  const positionSide = getBybitV5PositionSide(positionIdx, position.side);
+  const size = toNumber(position.size);
+  const orderPositionSide: EngineOrderPositionSide =
+    positionIdx === 0 ? 'BOTH' : positionSide === 'SHORT' ? 'SHORT' : 'LONG';
+
+  return {
+    symbol: position.symbol,
+    timestampMs: toNumber(position.updatedTime) || Date.now(),
+    positionSide,
+    orderPositionSide,
+    positionPrice: toNumber(position.avgPrice ?? position.entryPrice),
+    assetQty: positionSide === 'SHORT' ? -size : size,
+    value: toNumber(position.positionValue),
+    valueUpnl: toNumber(position.unrealisedPnl),
+    marginValue: toNumber(position.positionIM),
+    liquidationPrice: toNumber(position.liqPrice),
+    stopLossPrice: toOptionalPrice(position.stopLoss),
+    takeProfitPrice: toOptionalPrice(position.takeProfit),
+  };
+}
+
+/** Map a REST or websocket wallet to balances per coin */
+export function mapBybitV5WalletBalances(
+  wallet: BybitV5Wallet,
+): EngineAssetBalance[] {
+  return wallet.coin.map((coin) => {
+    const walletBalance = toNumber(coin.walletBalance);
+    const lockedBalance =
+      toNumber(coin.totalPositionIM) +
+      toNumber(coin.totalOrderIM) +
+      toNumber(coin.locked);
+
+    return {
+      asset: coin.coin,
+      walletBalance,
+      availableBalance:
+        coin.availableToWithdraw === undefined ||
+        coin.availableToWithdraw === ''
+          ? walletBalance - lockedBalance
+          : toNumber(coin.availableToWithdraw),
+      lockedBalance,
+      equity: toNumber(coin.equity),
+    };
+  });
+}
+
+/** Apply a "position" topic message (positions & leverage) to the store */
+export function applyBybitV5PositionUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BybitV5WsMessage<BybitV5Position>,
+): void {
+  for (const position of message.data) {
+    const positionIdx = Number(position.positionIdx) as BybitV5PositionIdx;
+
+    if (!toNumber(position.size)) {
+      // A closed one-way position could have been stored under either side
+      const sides: EnginePositionSide[] =
+        positionIdx === 0
+          ? ['LONG', 'SHORT']
+          : [getBybitV5PositionSide(positionIdx, position.side)];
+      for (const side of sides) {
+        store.deleteActivePosition(position.symbol, side);
+      }
+      continue;
+    }
+
+    const leverage = toNumber(position.leverage);
+    if (leverage && store.getSymbolLeverage(position.symbol) !== leverage) {
+      store.setSymbolLeverage(position.symbol, leverage);
+    }
+
+    const enginePosition = mapBybitV5Position(position);
+    if (positionIdx === 0) {
+      deleteStaleNetPositionSide(
+        store,
+        position.symbol,
+        enginePosition.positionSide,
+      );
+    }
+    store.setActivePosition(
+      position.symbol,
+      enginePosition.positionSide,
+      enginePosition,
+    );
+  }
+}
+
+/** Apply an "order" topic message to the store */
+export function applyBybitV5OrderUpdate<TEnginePositionMetadata extends object>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BybitV5WsMessage<BybitV5Order>,
+): void {
+  for (const order of message.data) {
+    store.upsertActiveOrder(mapBybitV5Order(order));
+  }
+}
+
+/** Apply a "wallet" topic message (balances per coin) to the store */
+export function applyBybitV5WalletUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: BybitV5WsMessage<BybitV5Wallet>,
+): void {
+  for (const wallet of message.data) {
+    for (const { asset, ...balance } of mapBybitV5WalletBalances(wallet)) {
+      store.setAssetBalance(asset, balance);
+    }
+  }
+}
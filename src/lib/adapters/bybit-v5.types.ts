@@ -0,0 +1,83 @@
+import { NumericValue } from './common.js';
+
+/**
+ * Raw Bybit V5 payloads, as sent by the exchange. Only fields used by the adapters are typed.
+ *
+ * Numeric fields accept strings (raw API responses) or numbers.
+ */
+
+/** 0: one-way mode, 1: hedge mode buy side, 2: hedge mode sell side */
+export type BybitV5PositionIdx = 0 | 1 | 2;
+
+/** GET /v5/position/list, or the "position" websocket topic */
+export interface BybitV5Position {
+  symbol: string;
+  /** Empty (or "None") when there is no position */
+  side: 'Buy' | 'Sell' | 'None' | '';
+  /** Unsigned position size */
+  size: NumericValue;
+  positionIdx: BybitV5PositionIdx;
+  /** Entry price (REST) */
+  avgPrice?: NumericValue;
+  /** Entry price (websocket) */
+  entryPrice?: NumericValue;
+  positionValue: NumericValue;
+  leverage?: NumericValue;
+  liqPrice?: NumericValue;
+  /** Initial margin */
+  positionIM?: NumericValue;
+  unrealisedPnl: NumericValue;
+  takeProfit?: NumericValue;
+  stopLoss?: NumericValue;
+  updatedTime?: NumericValue;
+}
+
+/** GET /v5/order/realtime, or the "order" websocket topic */
+export interface BybitV5Order {
+  orderId: string;
+  orderLinkId: string;
+  symbol: string;
+  side: 'Buy' | 'Sell';
+  orderType: string;
+  /** e.g. TakeProfit, StopLoss, TrailingStop, Stop. Empty for regular orders. */
+  stopOrderType?: string;
+  orderStatus: string;
+  positionIdx: BybitV5PositionIdx;
+  price: NumericValue;
+  qty: NumericValue;
+  cumExecQty: NumericValue;
+  avgPrice: NumericValue;
+  cumExecFee?: NumericValue;
+  /** Fee currency (spot only) */
+  feeCurrency?: string;
+  triggerPrice?: NumericValue;
+  reduceOnly: boolean;
+  createdTime: NumericValue;
+  updatedTime: NumericValue;
+}
+
+export interface BybitV5WalletCoin {
+  coin: string;
+  walletBalance: NumericValue;
+  /** Wallet balance including unrealised PnL */
+  equity: NumericValue;
+  /** Deprecated for unified accounts, may be empty */
+  availableToWithdraw?: NumericValue;
+  totalPositionIM?: NumericValue;
+  totalOrderIM?: NumericValue;
+  /** Locked by spot orders */
+  locked?: NumericValue;
+}
+
+/** GET /v5/account/wallet-balance, or the "wallet" websocket topic */
+export interface BybitV5Wallet {
+  accountType: string;
+  coin: BybitV5WalletCoin[];
+}
+
+/** A private websocket topic message */
+export interface BybitV5WsMessage<TData> {
+  topic: string;
+  creationTime?: number;
+  data: TData[];
+}
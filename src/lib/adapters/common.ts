@@ -0,0 +1,75 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EnginePositionSide } from '../types/position.js';
+
+/** Exchange APIs typically send numbers as strings, though some SDKs parse them into numbers */
+export type NumericValue = string | number;
+
+/** Parse a numeric exchange value. Missing, empty or invalid values are 0. */
+export function toNumber(value: NumericValue | undefined | null): number {
+  if (value === undefined || value === null || value === '') {
+    return 0;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** Parse an optional price. Missing, empty or zero values are undefined. */
+export function toOptionalPrice(
+  value: NumericValue | undefined | null,
+): number | undefined {
+  return toNumber(value) || undefined;
+}
+
+/**
+ * Contract sizes by symbol (a map or lookup function), for venues that quote quantities in contracts.
+ *
+ * Quantities are converted to the base asset: contracts * contract size. Symbols without a contract size use 1.
+ */
+export type ContractSizeLookup =
+  | Record<string, number>
+  | ((symbol: string) => number | undefined);
+
+/**
+ * Resolve the multiplier used to convert a symbol's quantities from contracts to the base asset.
+ *
+ * If a contract spec is set on the store for this symbol, quantities are kept in contracts (1), as the store then expects them in contracts.
+ */
+export function resolveContractSize<TEnginePositionMetadata extends object>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  symbol: string,
+  contractSizes?: ContractSizeLookup,
+): number {
+  if (!contractSizes || store.getContractSpec(symbol)) {
+    return 1;
+  }
+
+  const contractSize =
+    typeof contractSizes === 'function'
+      ? contractSizes(symbol)
+      : contractSizes[symbol];
+  return contractSize || 1;
+}
+
+/**
+ * Venues in one-way mode report a single net position per symbol, which is stored under the side it currently faces.
+ *
+ * In a hedge mode store, call this before storing a net position: if it flipped, the side it faced before is stale and is deleted.
+ */
+export function deleteStaleNetPositionSide<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  symbol: string,
+  side: EnginePositionSide,
+): void {
+  // One-way stores keep the net position under one side anyway
+  if (!store.isDualPositionMode()) {
+    return;
+  }
+
+  const staleSide: EnginePositionSide = side === 'LONG' ? 'SHORT' : 'LONG';
+  if (store.getActivePosition(symbol, staleSide)) {
+    store.deleteActivePosition(symbol, staleSide);
+  }
+}
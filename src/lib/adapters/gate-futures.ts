@@ -0,0 +1,365 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EngineAssetBalance } from '../types/balance.js';
+import { ENGINE_CONTRACT_TYPE, EngineContractSpec } from '../types/contract.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  ENGINE_MARGIN_MODE,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../types/position.js';
+import {
+  ContractSizeLookup,
+  deleteStaleNetPositionSide,
+  NumericValue,
+  resolveContractSize,
+  toNumber,
+  toOptionalPrice,
+} from './common.js';
+import {
+  GateFuturesAccount,
+  GateFuturesContract,
+  GateFuturesOrder,
+  GateFuturesPosition,
+  GateFuturesPositionMode,
+  GateFuturesPriceTriggeredOrder,
+  GateFuturesWsBalance,
+  GateFuturesWsMessage,
+} from './gate-futures.types.js';
+
+/** Gate timestamps are in seconds (with decimals), unless suffixed with _ms */
+function toTimestampMs(
+  ms: NumericValue | undefined,
+  seconds: NumericValue | undefined,
+): number {
+  return toNumber(ms) || Math.round(toNumber(seconds) * 1000);
+}
+
+/** Map a contract to a contract spec, so the store can compute PnL for quantities in contracts */
+export function mapGateFuturesContractToSpec(
+  contract: GateFuturesContract,
+  settleAsset: string,
+): EngineContractSpec {
+  return {
+    symbol: contract.name,
+    contractType:
+      contract.type === 'inverse'
+        ? ENGINE_CONTRACT_TYPE.INVERSE
+        : ENGINE_CONTRACT_TYPE.LINEAR,
+    contractSize: toNumber(contract.quanto_multiplier) || 1,
+    settleAsset,
+  };
+}
+
+/** In single (one-way) mode, the side is derived from the sign of the position */
+export function getGateFuturesPositionSide(
+  mode: GateFuturesPositionMode,
+  size: number,
+): EnginePositionSide {
+  if (mode === 'dual_long') {
+    return 'LONG';
+  }
+  if (mode === 'dual_short') {
+    return 'SHORT';
+  }
+  return size < 0 ? 'SHORT' : 'LONG';
+}
+
+export function mapGateFuturesOrderStatus(
+  order: Pick<GateFuturesOrder, 'status' | 'finish_as'>,
+  executedQuantity: number,
+): EngineOrder['status'] {
+  if (order.status === 'open') {
+    return executedQuantity ? 'PARTIALLY_FILLED' : 'NEW';
+  }
+
+  switch (order.finish_as) {
+    case 'filled':
+    // Liquidation & auto-deleveraging orders are filled by the exchange
+    case 'liquidated':
+    case 'auto_deleveraged':
+      return 'FILLED';
+    case 'cancelled':
+    case 'ioc':
+    case 'reduce_only':
+    case 'reduce_out':
+    case 'position_closed':
+    case 'stp':
+      return 'CANCELLED';
+    default:
+      return 'REJECTED';
+  }
+}
+
+export function mapGateFuturesPriceTriggeredOrderStatus(
+  order: Pick<GateFuturesPriceTriggeredOrder, 'status' | 'finish_as'>,
+): EngineOrder['status'] {
+  switch (order.status) {
+    case 'open':
+    case 'inactive':
+      return 'NEW';
+    case 'invalid':
+      return 'REJECTED';
+  }
+
+  switch (order.finish_as) {
+    // Triggered: the resulting order is tracked separately, by its own order ID
+    case 'succeeded':
+      return 'FILLED';
+    case 'cancelled':
+      return 'CANCELLED';
+    case 'expired':
+      return 'EXPIRED';
+    case 'failed':
+    default:
+      return 'REJECTED';
+  }
+}
+
+/** Map a REST or websocket order. Quantities are multiplied by the contract size, e.g. to convert contracts to the base asset. */
+export function mapGateFuturesOrder(
+  order: GateFuturesOrder,
+  contractSize: number = 1,
+): EngineOrder {
+  const size = toNumber(order.size);
+  const originalQuantity = Math.abs(size) * contractSize;
+  const executedQuantity =
+    (Math.abs(size) - Math.abs(toNumber(order.left))) * contractSize;
+  const createdAtMs = toTimestampMs(order.create_time_ms, order.create_time);
+  const price = toNumber(order.price);
+
+  return {
+    exchangeOrderId: String(order.id),
+    customOrderId: order.text,
+    symbol: order.contract,
+    orderSide: size < 0 ? 'SELL' : 'BUY',
+    positionSide: 'NONE',
+    orderType: price ? 'LIMIT' : 'MARKET',
+    status: mapGateFuturesOrderStatus(order, executedQuantity),
+    price,
+    originalQuantity,
+    executedQuantity,
+    averagePrice: toNumber(order.fill_price),
+    createdAtMs,
+    updatedAtMs:
+      toTimestampMs(order.finish_time_ms, order.finish_time) || createdAtMs,
+    isreduceOnly: order.is_reduce_only,
+  };
+}
+
+/**
+ * Map a REST or websocket price-triggered (conditional) order. Quantities are multiplied by the contract size.
+ *
+ * Orders that close the whole position have a quantity of 0.
+ */
+export function mapGateFuturesPriceTriggeredOrder(
+  order: GateFuturesPriceTriggeredOrder,
+  contractSize: number = 1,
+): EngineOrder {
+  const size = toNumber(order.initial.size);
+  // Orders closing the whole position have no size, but their type says which side is closed
+  const orderSide: EngineOrder['orderSide'] = size
+    ? size < 0
+      ? 'SELL'
+      : 'BUY'
+    : order.order_type?.includes('short')
+    ? 'BUY'
+    : 'SELL';
+  // Selling below, or buying above, the trigger price is a stop
+  const isStop =
+    (orderSide === 'SELL' && order.trigger.rule === 2) ||
+    (orderSide === 'BUY' && order.trigger.rule === 1);
+  const price = toNumber(order.initial.price);
+  const createdAtMs = toTimestampMs(undefined, order.create_time);
+
+  return {
+    exchangeOrderId: String(order.id),
+    customOrderId: order.initial.text || '',
+    symbol: order.initial.contract,
+    orderSide,
+    positionSide: 'NONE',
+    orderType: isStop
+      ? price
+        ? 'STOP'
+        : 'STOP_MARKET'
+      : price
+      ? 'TAKE_PROFIT'
+      : 'TAKE_PROFIT_MARKET',
+    status: mapGateFuturesPriceTriggeredOrderStatus(order),
+    price,
+    originalQuantity: Math.abs(size) * contractSize,
+    executedQuantity: 0,
+    averagePrice: 0,
+    createdAtMs,
+    updatedAtMs: toTimestampMs(undefined, order.finish_time) || createdAtMs,
+    isreduceOnly: !!(order.initial.reduce_only || order.initial.close),
+    triggerPrice: toOptionalPrice(order.trigger.price),
+  };
+}
+
+/**
+ * Map a REST or websocket position. Short positions have a negative quantity.
+ *
+ * Quantities are multiplied by the contract size, e.g. to convert contracts to the base asset.
+ */
+export function mapGateFuturesPosition(
+  position: GateFuturesPosition,
+  contractSize: number = 1,
+): EngineSimplePosition {
+  const size = toNumber(position.size);
+  const positionSide = getGateFuturesPositionSide(position.mode, size);
+  const assetQty = size * contractSize;
+  const positionPrice = toNumber(position.entry_price);
+  const margin = toNumber(position.margin);
+  // Leverage is 0 in cross margin mode
+  const isIsolated = toNumber(position.leverage) > 0;
+
+  return {
+    symbol: position.contract,
+    timestampMs:
+      toTimestampMs(position.time_ms, position.update_time) || Date.now(),
+    positionSide,
+    orderPositionSide:
+      position.mode === 'single'
+        ? 'BOTH'
+        : positionSide === 'SHORT'
+        ? 'SHORT'
+        : 'LONG',
+    positionPrice,
+    assetQty,
+    value:
+      position.value !== undefined
+        ? Math.abs(toNumber(position.value))
+        : Math.abs(assetQty) * (toNumber(position.mark_price) || positionPrice),
+    valueUpnl: toNumber(position.unrealised_pnl),
+    marginValue: margin,
+    isolatedMargin: isIsolated ? margin : undefined,
+    liquidationPrice: toNumber(position.liq_price),
+    stopLossPrice: undefined,
+    takeProfitPrice: undefined,
+  };
+}
+
+/** Map REST futures accounts to balances per settle currency */
+export function mapGateFuturesAccountBalances(
+  accounts: GateFuturesAccount[],
+): EngineAssetBalance[] {
+  return accounts.map((account) => {
+    const walletBalance = toNumber(account.total);
+
+    return {
+      asset: account.currency.toUpperCase(),
+      walletBalance,
+      availableBalance: toNumber(account.available),
+      lockedBalance:
+        toNumber(account.order_margin) + toNumber(account.position_margin),
+      equity: walletBalance + toNumber(account.unrealised_pnl),
+    };
+  });
+}
+
+/** Apply a "futures.positions" channel update (positions, leverage & margin modes) to the store */
+export function applyGateFuturesPositionUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: GateFuturesWsMessage<GateFuturesPosition>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const position of message.result) {
+    const size = toNumber(position.size);
+
+    if (!size) {
+      // A closed single mode position could have been stored under either side
+      const sides: EnginePositionSide[] =
+        position.mode === 'single'
+          ? ['LONG', 'SHORT']
+          : [getGateFuturesPositionSide(position.mode, size)];
+      for (const side of sides) {
+        store.deleteActivePosition(position.contract, side);
+      }
+      continue;
+    }
+
+    const side = getGateFuturesPositionSide(position.mode, size);
+    const isolatedLeverage = toNumber(position.leverage);
+    const marginMode = isolatedLeverage
+      ? ENGINE_MARGIN_MODE.ISOLATED
+      : ENGINE_MARGIN_MODE.CROSS;
+    if (store.getSymbolMarginMode(position.contract, side) !== marginMode) {
+      store.setSymbolMarginMode(position.contract, marginMode);
+    }
+
+    const leverage =
+      isolatedLeverage || toNumber(position.cross_leverage_limit);
+    if (leverage && store.getSymbolLeverage(position.contract) !== leverage) {
+      store.setSymbolLeverage(position.contract, leverage);
+    }
+
+    if (position.mode === 'single') {
+      deleteStaleNetPositionSide(store, position.contract, side);
+    }
+    store.setActivePosition(
+      position.contract,
+      side,
+      mapGateFuturesPosition(
+        position,
+        resolveContractSize(store, position.contract, contractSizes),
+      ),
+    );
+  }
+}
+
+/** Apply a "futures.orders" channel update to the store */
+export function applyGateFuturesOrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: GateFuturesWsMessage<GateFuturesOrder>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const order of message.result) {
+    store.upsertActiveOrder(
+      mapGateFuturesOrder(
+        order,
+        resolveContractSize(store, order.contract, contractSizes),
+      ),
+    );
+  }
+}
+
+/** Apply a "futures.autoorders" channel update to the store */
+export function applyGateFuturesPriceTriggeredOrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: GateFuturesWsMessage<GateFuturesPriceTriggeredOrder>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const order of message.result) {
+    store.upsertActiveOrder(
+      mapGateFuturesPriceTriggeredOrder(
+        order,
+        resolveContractSize(store, order.initial.contract, contractSizes),
+      ),
+    );
+  }
+}
+
+/**
+ * Apply a "futures.balances" channel update (wallet balance changes) to the store.
+ *
+ * Updates without a currency are applied to the settle asset, which defaults to the store's quote asset.
+ */
+export function applyGateFuturesBalanceUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: GateFuturesWsMessage<GateFuturesWsBalance>,
+  settleAsset: string = store.getQuoteAsset(),
+): void {
+  for (const balance of message.result) {
+    store.setAssetBalance(balance.currency?.toUpperCase() || settleAsset, {
+      walletBalance: toNumber(balance.balance),
+    });
+  }
+}
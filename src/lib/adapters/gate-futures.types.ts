@@ -0,0 +1,129 @@
+import { NumericValue } from './common.js';
+
+/**
+ * Raw Gate futures (API v4, e.g. USDT settled) payloads, as sent by the exchange. Only fields used by the adapters are typed.
+ *
+ * Numeric fields accept strings (raw API responses) or numbers. Quantities are in contracts.
+ */
+
+/** GET /futures/{settle}/contracts */
+export interface GateFuturesContract {
+  /** e.g. BTC_USDT */
+  name: string;
+  type?: 'direct' | 'inverse';
+  /** Base asset per contract, e.g. 0.0001 for BTC_USDT */
+  quanto_multiplier: NumericValue;
+}
+
+/** "single" in one-way mode, "dual_long" or "dual_short" in dual (hedge) mode */
+export type GateFuturesPositionMode = 'single' | 'dual_long' | 'dual_short';
+
+/** GET /futures/{settle}/positions, or the "futures.positions" websocket channel */
+export interface GateFuturesPosition {
+  contract: string;
+  /** Contracts. Signed: negative for short positions. */
+  size: NumericValue;
+  entry_price: NumericValue;
+  /** 0 for cross margin */
+  leverage: NumericValue;
+  /** Cross margin leverage, when leverage is 0 */
+  cross_leverage_limit?: NumericValue;
+  margin: NumericValue;
+  liq_price?: NumericValue;
+  /** Position value in the settle asset (REST) */
+  value?: NumericValue;
+  /** REST */
+  unrealised_pnl?: NumericValue;
+  mark_price?: NumericValue;
+  mode: GateFuturesPositionMode;
+  /** Seconds (REST) */
+  update_time?: NumericValue;
+  /** Websocket */
+  time_ms?: NumericValue;
+}
+
+/** GET /futures/{settle}/orders, or the "futures.orders" websocket channel */
+export interface GateFuturesOrder {
+  id: NumericValue;
+  /** Custom order ID, e.g. t-123 */
+  text: string;
+  contract: string;
+  /** Contracts. Signed: positive to buy, negative to sell. */
+  size: NumericValue;
+  /** Contracts left to fill. Signed like size. */
+  left: NumericValue;
+  /** 0 for market orders */
+  price: NumericValue;
+  /** Average fill price */
+  fill_price: NumericValue;
+  status: 'open' | 'finished';
+  /** e.g. filled, cancelled, liquidated, ioc, auto_deleveraged, reduce_only, position_closed, stp */
+  finish_as?: string;
+  is_reduce_only: boolean;
+  /** Seconds */
+  create_time: NumericValue;
+  /** Seconds */
+  finish_time?: NumericValue;
+  /** Websocket */
+  create_time_ms?: NumericValue;
+  /** Websocket */
+  finish_time_ms?: NumericValue;
+}
+
+/** GET /futures/{settle}/price_orders, or the "futures.autoorders" websocket channel */
+export interface GateFuturesPriceTriggeredOrder {
+  id: NumericValue;
+  initial: {
+    contract: string;
+    /** Contracts. Signed: positive to buy, negative to sell. 0 to close the whole position. */
+    size: NumericValue;
+    /** 0 for market orders */
+    price: NumericValue;
+    reduce_only?: boolean;
+    close?: boolean;
+    /** Custom order ID */
+    text?: string;
+  };
+  trigger: {
+    price: NumericValue;
+    /** 1: trigger when price >= trigger price, 2: trigger when price <= trigger price */
+    rule: 1 | 2;
+  };
+  /** e.g. open, finished, inactive, invalid */
+  status: string;
+  /** e.g. cancelled, succeeded, failed, expired */
+  finish_as?: string;
+  /** e.g. close-long-order, close-short-position, plan-close-long-position */
+  order_type?: string;
+  /** Seconds */
+  create_time: NumericValue;
+  /** Seconds */
+  finish_time?: NumericValue;
+}
+
+/** GET /futures/{settle}/accounts */
+export interface GateFuturesAccount {
+  currency: string;
+  /** Wallet balance, excluding unrealised PnL */
+  total: NumericValue;
+  unrealised_pnl: NumericValue;
+  available: NumericValue;
+  order_margin: NumericValue;
+  position_margin: NumericValue;
+}
+
+/** The "futures.balances" websocket channel */
+export interface GateFuturesWsBalance {
+  currency?: string;
+  /** Wallet balance after this change */
+  balance: NumericValue;
+  change: NumericValue;
+  time_ms: NumericValue;
+}
+
+/** A private websocket channel update */
+export interface GateFuturesWsMessage<TData> {
+  channel: string;
+  event: string;
+  result: TData[];
+}
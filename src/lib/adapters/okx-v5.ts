@@ -0,0 +1,385 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { EngineAssetBalance } from '../types/balance.js';
+import { ENGINE_CONTRACT_TYPE, EngineContractSpec } from '../types/contract.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  ENGINE_MARGIN_MODE,
+  EngineOrderPositionSide,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../types/position.js';
+import {
+  ContractSizeLookup,
+  deleteStaleNetPositionSide,
+  NumericValue,
+  resolveContractSize,
+  toNumber,
+  toOptionalPrice,
+} from './common.js';
+import {
+  OkxV5AlgoOrder,
+  OkxV5Balance,
+  OkxV5Instrument,
+  OkxV5Order,
+  OkxV5Position,
+  OkxV5PositionSide,
+  OkxV5WsMessage,
+} from './okx-v5.types.js';
+
+/** OKX uses -1 as the order price of conditional orders that execute at market */
+const OKX_MARKET_ORDER_PRICE = -1;
+
+function toBoolean(value: 'true' | 'false' | boolean | undefined): boolean {
+  return value === true || value === 'true';
+}
+
+function isMarketOrderPrice(price: NumericValue | undefined): boolean {
+  return toNumber(price) === OKX_MARKET_ORDER_PRICE;
+}
+
+function getOrderPrice(price: NumericValue | undefined): number {
+  return isMarketOrderPrice(price) ? 0 : toNumber(price);
+}
+
+export function mapOkxV5OrderStatus(state: string): EngineOrder['status'] {
+  switch (state) {
+    case 'live':
+      return 'NEW';
+    case 'partially_filled':
+      return 'PARTIALLY_FILLED';
+    case 'filled':
+      return 'FILLED';
+    case 'canceled':
+    case 'mmp_canceled':
+      return 'CANCELLED';
+    default:
+      return 'REJECTED';
+  }
+}
+
+/** Order types that only differ by time in force are limit orders. optimal_limit_ioc is a market order. */
+export function mapOkxV5OrderType(ordType: string): EngineOrder['orderType'] {
+  switch (ordType) {
+    case 'market':
+    case 'optimal_limit_ioc':
+      return 'MARKET';
+    default:
+      return 'LIMIT';
+  }
+}
+
+export function mapOkxV5AlgoOrderStatus(state: string): EngineOrder['status'] {
+  switch (state) {
+    case 'live':
+    case 'pause':
+      return 'NEW';
+    case 'partially_effective':
+      return 'PARTIALLY_FILLED';
+    // Triggered: the resulting order is tracked separately, by its own order ID
+    case 'effective':
+      return 'FILLED';
+    case 'canceled':
+      return 'CANCELLED';
+    case 'order_failed':
+    default:
+      return 'REJECTED';
+  }
+}
+
+/**
+ * Map an algo order to an order type, trigger price & order price (0 for market).
+ *
+ * For OCO orders (or conditional orders with both a take profit and stop loss), the stop loss is used.
+ */
+export function mapOkxV5AlgoOrderType(
+  order: OkxV5AlgoOrder,
+): Pick<EngineOrder, 'orderType' | 'triggerPrice' | 'price'> {
+  switch (order.ordType) {
+    case 'conditional':
+    case 'oco': {
+      if (toOptionalPrice(order.slTriggerPx)) {
+        return {
+          orderType: isMarketOrderPrice(order.slOrdPx) ? 'STOP_MARKET' : 'STOP',
+          triggerPrice: toOptionalPrice(order.slTriggerPx),
+          price: getOrderPrice(order.slOrdPx),
+        };
+      }
+      return {
+        orderType: isMarketOrderPrice(order.tpOrdPx)
+          ? 'TAKE_PROFIT_MARKET'
+          : 'TAKE_PROFIT',
+        triggerPrice: toOptionalPrice(order.tpTriggerPx),
+        price: getOrderPrice(order.tpOrdPx),
+      };
+    }
+    case 'trigger':
+      return {
+        orderType: isMarketOrderPrice(order.ordPx) ? 'STOP_MARKET' : 'STOP',
+        triggerPrice: toOptionalPrice(order.triggerPx),
+        price: getOrderPrice(order.ordPx),
+      };
+    case 'move_order_stop':
+      return {
+        orderType: 'TRAILING_STOP_MARKET',
+        triggerPrice: undefined,
+        price: 0,
+      };
+    default:
+      return {
+        orderType: 'LIMIT',
+        triggerPrice: undefined,
+        price: getOrderPrice(order.ordPx),
+      };
+  }
+}
+
+/** In net mode, the side is derived from the sign of the position */
+export function getOkxV5PositionSide(
+  posSide: OkxV5PositionSide,
+  pos: number,
+): EnginePositionSide {
+  if (posSide === 'long') {
+    return 'LONG';
+  }
+  if (posSide === 'short') {
+    return 'SHORT';
+  }
+  return pos < 0 ? 'SHORT' : 'LONG';
+}
+
+function getOrderPositionSide(
+  posSide: OkxV5PositionSide,
+): EngineOrder['positionSide'] {
+  if (posSide === 'long') {
+    return 'LONG';
+  }
+  if (posSide === 'short') {
+    return 'SHORT';
+  }
+  return 'NONE';
+}
+
+/** Map an instrument to a contract spec, so the store can compute PnL for quantities in contracts */
+export function mapOkxV5InstrumentToContractSpec(
+  instrument: OkxV5Instrument,
+): EngineContractSpec {
+  return {
+    symbol: instrument.instId,
+    contractType:
+      instrument.ctType === 'inverse'
+        ? ENGINE_CONTRACT_TYPE.INVERSE
+        : ENGINE_CONTRACT_TYPE.LINEAR,
+    contractSize: toNumber(instrument.ctVal) || 1,
+    settleAsset: instrument.settleCcy,
+  };
+}
+
+/**
+ * Map a REST or websocket order.
+ *
+ * Quantities are multiplied by the contract size, e.g. to convert contracts to the base asset. Fees are inverted, as OKX reports charged fees as negative.
+ */
+export function mapOkxV5Order(
+  order: OkxV5Order,
+  contractSize: number = 1,
+): EngineOrder {
+  return {
+    exchangeOrderId: order.ordId,
+    customOrderId: order.clOrdId,
+    symbol: order.instId,
+    orderSide: order.side === 'buy' ? 'BUY' : 'SELL',
+    positionSide: getOrderPositionSide(order.posSide),
+    orderType: mapOkxV5OrderType(order.ordType),
+    status: mapOkxV5OrderStatus(order.state),
+    price: toNumber(order.px),
+    originalQuantity: toNumber(order.sz) * contractSize,
+    executedQuantity: toNumber(order.accFillSz) * contractSize,
+    averagePrice: toNumber(order.avgPx),
+    createdAtMs: toNumber(order.cTime),
+    updatedAtMs: toNumber(order.uTime),
+    isreduceOnly: toBoolean(order.reduceOnly),
+    cumulativeFee: order.fee === undefined ? undefined : -toNumber(order.fee),
+    feeAsset: order.feeCcy || undefined,
+    isMaker: order.execType ? order.execType === 'M' : undefined,
+  };
+}
+
+/** Map a REST or websocket algo (conditional) order. Quantities are multiplied by the contract size. */
+export function mapOkxV5AlgoOrder(
+  order: OkxV5AlgoOrder,
+  contractSize: number = 1,
+): EngineOrder {
+  const { orderType, triggerPrice, price } = mapOkxV5AlgoOrderType(order);
+  const createdAtMs = toNumber(order.cTime);
+
+  return {
+    exchangeOrderId: order.algoId,
+    customOrderId: order.algoClOrdId || '',
+    symbol: order.instId,
+    orderSide: order.side === 'buy' ? 'BUY' : 'SELL',
+    positionSide: getOrderPositionSide(order.posSide),
+    orderType,
+    status: mapOkxV5AlgoOrderStatus(order.state),
+    price,
+    originalQuantity: toNumber(order.sz) * contractSize,
+    executedQuantity: 0,
+    averagePrice: 0,
+    createdAtMs,
+    updatedAtMs: toNumber(order.uTime) || createdAtMs,
+    isreduceOnly: toBoolean(order.reduceOnly),
+    triggerPrice,
+  };
+}
+
+/**
+ * Map a REST or websocket position. Short positions get a negative quantity.
+ *
+ * Quantities are multiplied by the contract size, e.g. to convert contracts to the base asset. The position value is the USD notional value.
+ */
+export function mapOkxV5Position(
+  position: OkxV5Position,
+  contractSize: number = 1,
+): EngineSimplePosition {
+  const pos = toNumber(position.pos);
+  const positionSide = getOkxV5PositionSide(position.posSide, pos);
+  const assetQty = Math.abs(pos) * contractSize;
+  const isIsolated = position.mgnMode === 'isolated';
+  const orderPositionSide: EngineOrderPositionSide =
+    position.posSide === 'net'
+      ? 'BOTH'
+      : positionSide === 'SHORT'
+      ? 'SHORT'
+      : 'LONG';
+
+  return {
+    symbol: position.instId,
+    timestampMs: toNumber(position.uTime) || Date.now(),
+    positionSide,
+    orderPositionSide,
+    positionPrice: toNumber(position.avgPx),
+    assetQty: positionSide === 'SHORT' ? -assetQty : assetQty,
+    value: Math.abs(toNumber(position.notionalUsd)),
+    valueUpnl: toNumber(position.upl),
+    marginValue: toNumber(isIsolated ? position.margin : position.imr),
+    isolatedMargin: isIsolated ? toNumber(position.margin) : undefined,
+    liquidationPrice: toNumber(position.liqPx),
+    stopLossPrice: undefined,
+    takeProfitPrice: undefined,
+  };
+}
+
+/** Map a REST or websocket account balance to balances per currency */
+export function mapOkxV5Balances(balance: OkxV5Balance): EngineAssetBalance[] {
+  return balance.details.map((detail) => {
+    const walletBalance = toNumber(detail.cashBal);
+    const lockedBalance = toNumber(detail.frozenBal);
+
+    return {
+      asset: detail.ccy,
+      walletBalance,
+      availableBalance:
+        detail.availBal !== undefined && detail.availBal !== ''
+          ? toNumber(detail.availBal)
+          : toNumber(detail.availEq),
+      lockedBalance,
+      equity: toNumber(detail.eq),
+    };
+  });
+}
+
+/** Apply a "positions" channel push (positions, leverage & margin modes) to the store */
+export function applyOkxV5PositionUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: OkxV5WsMessage<OkxV5Position>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const position of message.data) {
+    const pos = toNumber(position.pos);
+
+    if (!pos) {
+      // A closed net mode position could have been stored under either side
+      const sides: EnginePositionSide[] =
+        position.posSide === 'net'
+          ? ['LONG', 'SHORT']
+          : [getOkxV5PositionSide(position.posSide, pos)];
+      for (const side of sides) {
+        store.deleteActivePosition(position.instId, side);
+      }
+      continue;
+    }
+
+    const side = getOkxV5PositionSide(position.posSide, pos);
+    const marginMode =
+      position.mgnMode === 'isolated'
+        ? ENGINE_MARGIN_MODE.ISOLATED
+        : ENGINE_MARGIN_MODE.CROSS;
+    if (store.getSymbolMarginMode(position.instId, side) !== marginMode) {
+      store.setSymbolMarginMode(position.instId, marginMode, side);
+    }
+
+    const leverage = toNumber(position.lever);
+    if (leverage && store.getSymbolLeverage(position.instId) !== leverage) {
+      store.setSymbolLeverage(position.instId, leverage);
+    }
+
+    if (position.posSide === 'net') {
+      deleteStaleNetPositionSide(store, position.instId, side);
+    }
+    store.setActivePosition(
+      position.instId,
+      side,
+      mapOkxV5Position(
+        position,
+        resolveContractSize(store, position.instId, contractSizes),
+      ),
+    );
+  }
+}
+
+/** Apply an "orders" channel push to the store */
+export function applyOkxV5OrderUpdate<TEnginePositionMetadata extends object>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: OkxV5WsMessage<OkxV5Order>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const order of message.data) {
+    store.upsertActiveOrder(
+      mapOkxV5Order(
+        order,
+        resolveContractSize(store, order.instId, contractSizes),
+      ),
+    );
+  }
+}
+
+/** Apply an "orders-algo" channel push to the store */
+export function applyOkxV5AlgoOrderUpdate<
+  TEnginePositionMetadata extends object,
+>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: OkxV5WsMessage<OkxV5AlgoOrder>,
+  contractSizes?: ContractSizeLookup,
+): void {
+  for (const order of message.data) {
+    store.upsertActiveOrder(
+      mapOkxV5AlgoOrder(
+        order,
+        resolveContractSize(store, order.instId, contractSizes),
+      ),
+    );
+  }
+}
+
+/** Apply an "account" channel push (balances per currency) to the store */
+export function applyOkxV5BalanceUpdate<TEnginePositionMetadata extends object>(
+  store: AccountStateStore<TEnginePositionMetadata>,
+  message: OkxV5WsMessage<OkxV5Balance>,
+): void {
+  for (const balance of message.data) {
+    for (const { asset, ...assetBalance } of mapOkxV5Balances(balance)) {
+      store.setAssetBalance(asset, assetBalance);
+    }
+  }
+}
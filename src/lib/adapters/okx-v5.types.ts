@@ -0,0 +1,120 @@
+import { NumericValue } from './common.js';
+
+/**
+ * Raw OKX V5 payloads (e.g. SWAP instruments), as sent by the exchange. Only fields used by the adapters are typed.
+ *
+ * Numeric fields accept strings (raw API responses) or numbers. Quantities are in contracts.
+ */
+
+/** "net" in one-way (net) mode, "long" or "short" in hedge (long/short) mode */
+export type OkxV5PositionSide = 'long' | 'short' | 'net';
+
+/** GET /api/v5/public/instruments */
+export interface OkxV5Instrument {
+  instId: string;
+  instType: string;
+  ctType: 'linear' | 'inverse' | '';
+  /** Contract value, e.g. 0.01 (BTC) for BTC-USDT-SWAP or 100 (USD) for BTC-USD-SWAP */
+  ctVal: NumericValue;
+  settleCcy: string;
+}
+
+/** GET /api/v5/account/positions, or the "positions" websocket channel */
+export interface OkxV5Position {
+  instId: string;
+  mgnMode: 'cross' | 'isolated';
+  posSide: OkxV5PositionSide;
+  /** Contracts. Signed (negative for short positions) in net mode. */
+  pos: NumericValue;
+  avgPx: NumericValue;
+  upl: NumericValue;
+  lever?: NumericValue;
+  liqPx?: NumericValue;
+  /** Initial margin (cross) */
+  imr?: NumericValue;
+  /** Margin (isolated) */
+  margin?: NumericValue;
+  notionalUsd?: NumericValue;
+  uTime?: NumericValue;
+}
+
+/** GET /api/v5/trade/orders-pending, or the "orders" websocket channel */
+export interface OkxV5Order {
+  instId: string;
+  ordId: string;
+  clOrdId: string;
+  side: 'buy' | 'sell';
+  posSide: OkxV5PositionSide;
+  /** e.g. limit, market, post_only, fok, ioc, optimal_limit_ioc */
+  ordType: string;
+  /** e.g. live, partially_filled, filled, canceled, mmp_canceled */
+  state: string;
+  px: NumericValue;
+  /** Contracts */
+  sz: NumericValue;
+  /** Contracts */
+  accFillSz: NumericValue;
+  avgPx: NumericValue;
+  /** Cumulative fee. Negative when charged, positive for rebates. */
+  fee?: NumericValue;
+  feeCcy?: string;
+  /** Liquidity of the last fill (websocket): T (taker) or M (maker) */
+  execType?: string;
+  reduceOnly: 'true' | 'false' | boolean;
+  cTime: NumericValue;
+  uTime: NumericValue;
+}
+
+/** GET /api/v5/trade/orders-algo-pending, or the "orders-algo" websocket channel */
+export interface OkxV5AlgoOrder {
+  instId: string;
+  algoId: string;
+  algoClOrdId?: string;
+  side: 'buy' | 'sell';
+  posSide: OkxV5PositionSide;
+  /** e.g. conditional, oco, trigger, move_order_stop, twap */
+  ordType: string;
+  /** e.g. live, pause, partially_effective, effective, canceled, order_failed */
+  state: string;
+  /** Contracts */
+  sz: NumericValue;
+  /** Trigger orders. Order price, -1 for market. */
+  ordPx?: NumericValue;
+  /** Trigger orders */
+  triggerPx?: NumericValue;
+  tpTriggerPx?: NumericValue;
+  /** -1 for market */
+  tpOrdPx?: NumericValue;
+  slTriggerPx?: NumericValue;
+  /** -1 for market */
+  slOrdPx?: NumericValue;
+  reduceOnly?: 'true' | 'false' | boolean;
+  cTime: NumericValue;
+  uTime?: NumericValue;
+}
+
+export interface OkxV5BalanceDetail {
+  ccy: string;
+  /** Cash balance, excluding unrealised PnL */
+  cashBal: NumericValue;
+  /** Equity, including unrealised PnL */
+  eq: NumericValue;
+  availBal?: NumericValue;
+  availEq?: NumericValue;
+  frozenBal?: NumericValue;
+}
+
+/** GET /api/v5/account/balance, or the "account" websocket channel */
+export interface OkxV5Balance {
+  uTime?: NumericValue;
+  details: OkxV5BalanceDetail[];
+}
+
+/** A private websocket channel push */
+export interface OkxV5WsMessage<TData> {
+  arg: {
+    channel: string;
+    instType?: string;
+  };
+  data: TData[];
+}
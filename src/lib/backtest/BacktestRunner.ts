@@ -0,0 +1,294 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { PaperTradingEngine } from '../paper/PaperTradingEngine.js';
+import {
+  BacktestEquityPoint,
+  BacktestPriceBar,
+  BacktestResult,
+  BacktestRunnerOptions,
+  BacktestStats,
+  BacktestStrategy,
+  BacktestTrade,
+} from '../types/backtest.js';
+import { RealisedPnlState } from '../types/ledger.js';
+import { PositionChangeEvent } from '../types/state-events.js';
+
+/** A position that is still open, tracked until it closes */
+interface OpenBacktestTrade {
+  openedAtMs: number;
+  maxQty: number;
+}
+
+/**
+ * Replays price history through a PaperTradingEngine & AccountStateStore, calling a strategy after every bar.
+ *
+ * The store is the same class used for live trading, with positions derived from fills. Configure it (leverage, contract specs, etc) via getStore() before calling run().
+ * Each runner can only run once, as the store keeps the state of the backtest.
+ */
+export class BacktestRunner<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private engine: PaperTradingEngine<TEnginePositionMetadata>;
+
+  private options: Required<
+    Omit<BacktestRunnerOptions<TEnginePositionMetadata>, 'storeOptions'>
+  >;
+
+  private hasRun = false;
+
+  private equityCurve: BacktestEquityPoint[] = [];
+
+  private peakEquity = 0;
+
+  private trades: BacktestTrade[] = [];
+
+  // Per symbol & side ("symbol:side")
+  private openTrades: Map<string, OpenBacktestTrade> = new Map();
+
+  // Per symbol & side, realised PnL when the previous trade closed. Everything realised since then belongs to the next trade.
+  private closedPnlBaselines: Map<string, RealisedPnlState> = new Map();
+
+  constructor(options: BacktestRunnerOptions<TEnginePositionMetadata> = {}) {
+    const { storeOptions, ...runnerOptions } = options;
+    this.options = {
+      startingBalance: 10000,
+      paperTrading: {},
+      useIntrabarPrices: true,
+      closePositionsAtEnd: true,
+      ...runnerOptions,
+    };
+
+    this.store = new AccountStateStore<TEnginePositionMetadata>({
+      ...storeOptions,
+      positionsFromFills: true,
+    });
+    this.store.setWalletBalance(this.options.startingBalance);
+    this.engine = new PaperTradingEngine(this.store, this.options.paperTrading);
+  }
+
+  getStore(): AccountStateStore<TEnginePositionMetadata> {
+    return this.store;
+  }
+
+  getEngine(): PaperTradingEngine<TEnginePositionMetadata> {
+    return this.engine;
+  }
+
+  /**
+   * Run the backtest. Bars should be in chronological order (see parsePriceHistoryCSV() & parsePriceHistoryJSONL(), which sort bars).
+   *
+   * For each bar, its prices are processed by the engine (filling any matching orders), then the strategy is called, then the equity is recorded.
+   */
+  async run(
+    bars: BacktestPriceBar[],
+    strategy: BacktestStrategy<TEnginePositionMetadata>,
+  ): Promise<BacktestResult<TEnginePositionMetadata>> {
+    if (this.hasRun) {
+      throw new Error('BacktestRunner can only run once, create a new runner');
+    }
+    this.hasRun = true;
+
+    const unsubscribe = this.store.on('positionChanged', (event) =>
+      this.onPositionChanged(event),
+    );
+
+    try {
+      for (let barIndex = 0; barIndex < bars.length; barIndex++) {
+        const bar = bars[barIndex];
+        for (const price of this.getBarPrices(bar)) {
+          this.engine.processPriceEvent({
+            symbol: bar.symbol,
+            price,
+            timestampMs: bar.timestampMs,
+          });
+        }
+
+        await strategy({
+          bar,
+          barIndex,
+          store: this.store,
+          engine: this.engine,
+        });
+        this.recordEquity(bar.timestampMs);
+      }
+
+      if (this.options.closePositionsAtEnd && bars.length) {
+        this.closeAllPositions();
+        // Replace the final equity point, now that everything is realised
+        this.equityCurve.pop();
+        this.recordEquity(bars[bars.length - 1].timestampMs);
+      }
+    } finally {
+      unsubscribe();
+    }
+
+    return {
+      stats: this.getStats(bars),
+      equityCurve: this.equityCurve.map((point) => ({ ...point })),
+      trades: this.trades.map((trade) => ({ ...trade })),
+      store: this.store,
+    };
+  }
+
+  /** Prices to process for a bar, in the order they most likely happened */
+  private getBarPrices(bar: BacktestPriceBar): number[] {
+    const { open, high, low, close } = bar;
+    if (
+      !this.options.useIntrabarPrices ||
+      open === undefined ||
+      high === undefined ||
+      low === undefined
+    ) {
+      return [close];
+    }
+
+    // Assume a green candle dipped before rallying, and a red candle rallied before dropping
+    return close >= open ? [open, low, high, close] : [open, high, low, close];
+  }
+
+  private closeAllPositions(): void {
+    this.engine.cancelAllOrders();
+
+    for (const position of this.store.getAllPositions()) {
+      this.engine.submitOrder({
+        customOrderId: `backtest-close-${position.symbol}-${position.positionSide}`,
+        symbol: position.symbol,
+        orderSide: position.assetQty > 0 ? 'SELL' : 'BUY',
+        positionSide: this.store.isDualPositionMode()
+          ? position.positionSide
+          : 'NONE',
+        orderType: 'MARKET',
+        price: 0,
+        originalQuantity: Math.abs(position.assetQty),
+        isreduceOnly: true,
+      });
+    }
+  }
+
+  private recordEquity(timestampMs: number): void {
+    const walletBalance = this.store.getWalletBalance();
+    const equity =
+      walletBalance +
+      this.store.getSessionSummary(this.options.startingBalance)
+        .activePositionUpnlSum;
+
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    const drawdown = this.peakEquity - equity;
+
+    this.equityCurve.push({
+      timestampMs,
+      walletBalance,
+      equity,
+      drawdown,
+      drawdownPct: this.peakEquity > 0 ? (drawdown / this.peakEquity) * 100 : 0,
+    });
+  }
+
+  private onPositionChanged(event: PositionChangeEvent): void {
+    const { symbol, side, changeType, previous, current } = event;
+    const key = `${symbol}:${side}`;
+    const timestampMs = current?.timestampMs || this.engine.getTimeMs();
+
+    if (changeType === 'closed' || changeType === 'flipped') {
+      this.closeTrade(key, event, timestampMs);
+    }
+
+    if (!current) {
+      return;
+    }
+
+    const qty = Math.abs(current.assetQty);
+    const openTrade = this.openTrades.get(key);
+    if (!openTrade || !previous?.assetQty || changeType === 'flipped') {
+      this.openTrades.set(key, { openedAtMs: timestampMs, maxQty: qty });
+      return;
+    }
+    openTrade.maxQty = Math.max(openTrade.maxQty, qty);
+  }
+
+  /** Record a trade for a position that closed, with everything realised on this symbol & side since the previous trade closed */
+  private closeTrade(
+    key: string,
+    event: PositionChangeEvent,
+    closedAtMs: number,
+  ): void {
+    const { symbol, side, previous } = event;
+    const openTrade = this.openTrades.get(key);
+    this.openTrades.delete(key);
+    if (!openTrade || !previous) {
+      return;
+    }
+
+    const pnlNow = this.store.getRealisedPnl(symbol, side);
+    const baseline = this.closedPnlBaselines.get(key);
+    this.closedPnlBaselines.set(key, pnlNow);
+
+    const fills = this.store.getFills(symbol, side);
+    const realisedPnl = pnlNow.realisedPnl - (baseline?.realisedPnl || 0);
+    const fees = pnlNow.fees - (baseline?.fees || 0);
+    const funding = pnlNow.funding - (baseline?.funding || 0);
+
+    this.trades.push({
+      symbol,
+      side,
+      openedAtMs: openTrade.openedAtMs,
+      closedAtMs,
+      entryPrice: previous.positionPrice,
+      exitPrice: fills[fills.length - 1]?.price ?? 0,
+      maxQty: Math.max(openTrade.maxQty, Math.abs(previous.assetQty)),
+      realisedPnl,
+      fees,
+      funding,
+      netPnl: realisedPnl - fees + funding,
+    });
+  }
+
+  private getStats(bars: BacktestPriceBar[]): BacktestStats {
+    const { startingBalance } = this.options;
+    const lastPoint = this.equityCurve[this.equityCurve.length - 1];
+    const finalBalance = lastPoint?.walletBalance ?? startingBalance;
+    const finalEquity = lastPoint?.equity ?? startingBalance;
+
+    const wins = this.trades.filter((trade) => trade.netPnl > 0);
+    const losses = this.trades.filter((trade) => trade.netPnl < 0);
+    const sumWins = wins.reduce((sum, trade) => sum + trade.netPnl, 0);
+    const sumLosses = losses.reduce((sum, trade) => sum + trade.netPnl, 0);
+
+    let maxDrawdown = 0;
+    let maxDrawdownPct = 0;
+    for (const point of this.equityCurve) {
+      maxDrawdown = Math.max(maxDrawdown, point.drawdown);
+      maxDrawdownPct = Math.max(maxDrawdownPct, point.drawdownPct);
+    }
+
+    return {
+      startingBalance,
+      finalBalance,
+      finalEquity,
+      netPnl: finalEquity - startingBalance,
+      returnPct: startingBalance
+        ? ((finalEquity - startingBalance) / startingBalance) * 100
+        : 0,
+      maxDrawdown,
+      maxDrawdownPct,
+      fees: this.trades.reduce((sum, trade) => sum + trade.fees, 0),
+      barCount: bars.length,
+      tradeCount: this.trades.length,
+      winCount: wins.length,
+      lossCount: losses.length,
+      winRatePct: this.trades.length
+        ? (wins.length / this.trades.length) * 100
+        : 0,
+      averageWin: wins.length ? sumWins / wins.length : 0,
+      averageLoss: losses.length ? sumLosses / losses.length : 0,
+      profitFactor: sumLosses
+        ? sumWins / Math.abs(sumLosses)
+        : sumWins
+        ? Infinity
+        : 0,
+      startedAtMs: bars[0]?.timestampMs,
+      endedAtMs: bars[bars.length - 1]?.timestampMs,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import {
+  BacktestPriceBar,
+  PriceHistoryParseOptions,
+} from '../types/backtest.js';
+
+// Accepted column/field names (lowercase) per bar field, in order of preference
+const PRICE_BAR_FIELD_ALIASES = {
+  symbol: ['symbol'],
+  timestampMs: ['timestampms', 'timestamp', 'time', 'date', 'closetime'],
+  open: ['open'],
+  high: ['high'],
+  low: ['low'],
+  close: ['close', 'price'],
+  volume: ['volume'],
+};
+
+function getField(
+  row: Record<string, unknown>,
+  field: keyof typeof PRICE_BAR_FIELD_ALIASES,
+): unknown {
+  const alias = PRICE_BAR_FIELD_ALIASES[field].find(
+    (name) => row[name] !== undefined && row[name] !== '',
+  );
+  return alias ? row[alias] : undefined;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+/** Timestamps can be epoch milliseconds, or any date string supported by Date.parse() (e.g. ISO 8601) */
+function toTimestampMs(value: unknown): number {
+  const num = toOptionalNumber(value);
+  if (num !== undefined) {
+    return num;
+  }
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+/** Map one row (with lowercase keys) to a price bar. Throws if the row has no valid timestamp, close price or symbol. */
+function toPriceBar(
+  row: Record<string, unknown>,
+  lineNumber: number,
+  options: PriceHistoryParseOptions,
+): BacktestPriceBar {
+  const symbol = getField(row, 'symbol') ?? options.symbol;
+  const timestampMs = toTimestampMs(getField(row, 'timestampMs'));
+  const close = toOptionalNumber(getField(row, 'close'));
+
+  if (typeof symbol !== 'string' || !symbol) {
+    throw new Error(
+      `Price history line ${lineNumber}: missing symbol (pass a symbol for single-symbol files)`,
+    );
+  }
+  if (!Number.isFinite(timestampMs)) {
+    throw new Error(`Price history line ${lineNumber}: invalid timestamp`);
+  }
+  if (close === undefined) {
+    throw new Error(`Price history line ${lineNumber}: invalid close price`);
+  }
+
+  return {
+    symbol,
+    timestampMs,
+    open: toOptionalNumber(getField(row, 'open')),
+    high: toOptionalNumber(getField(row, 'high')),
+    low: toOptionalNumber(getField(row, 'low')),
+    close,
+    volume: toOptionalNumber(getField(row, 'volume')),
+  };
+}
+
+function sortByTimestamp(bars: BacktestPriceBar[]): BacktestPriceBar[] {
+  // Stable sort, so bars with the same timestamp keep their order in the file
+  return bars.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+function toLowerCaseKeys(
+  row: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const key in row) {
+    result[key.toLowerCase()] = row[key];
+  }
+  return result;
+}
+
+/**
+ * Parse CSV price history, with a header row. Bars are sorted by timestamp.
+ *
+ * Recognised columns (case-insensitive): symbol, timestamp (or timestampMs, time, date, closeTime), open, high, low, close (or price) & volume.
+ * Only a timestamp & close price are required. Quoted fields are not supported.
+ */
+export function parsePriceHistoryCSV(
+  contents: string,
+  options: PriceHistoryParseOptions = {},
+): BacktestPriceBar[] {
+  const lines = contents.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim());
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const columns = lines[headerIndex]
+    .split(',')
+    .map((column) => column.trim().toLowerCase());
+
+  const bars: BacktestPriceBar[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const values = line.split(',');
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      row[column] = values[index]?.trim();
+    });
+    bars.push(toPriceBar(row, i + 1, options));
+  }
+
+  return sortByTimestamp(bars);
+}
+
+/**
+ * Parse JSONL price history (one JSON object per line). Bars are sorted by timestamp.
+ *
+ * Fields are the same as the CSV columns, see parsePriceHistoryCSV(). Numbers may also be strings.
+ */
+export function parsePriceHistoryJSONL(
+  contents: string,
+  options: PriceHistoryParseOptions = {},
+): BacktestPriceBar[] {
+  const bars: BacktestPriceBar[] = [];
+  const lines = contents.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) {
+      continue;
+    }
+
+    let row: Record<string, unknown>;
+    try {
+      row = JSON.parse(line);
+    } catch (e) {
+      throw new Error(
+        `Price history line ${i + 1}: invalid JSON (${(e as Error).message})`,
+      );
+    }
+    bars.push(toPriceBar(toLowerCaseKeys(row), i + 1, options));
+  }
+
+  return sortByTimestamp(bars);
+}
+
+/** Read a price history file: CSV for .csv files, otherwise JSONL */
+export async function loadPriceHistoryFile(
+  filePath: string,
+  options: PriceHistoryParseOptions = {},
+): Promise<BacktestPriceBar[]> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  return path.extname(filePath).toLowerCase() === '.csv'
+    ? parsePriceHistoryCSV(contents, options)
+    : parsePriceHistoryJSONL(contents, options);
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+
+import { sanitiseError } from '../misc/error.js';
+import {
+  AccountStateJournalEntry,
+  AccountStateJournalOptions,
+  AccountStateMutation,
+} from '../types/journal.js';
+
+/**
+ * Append-only journal of every mutation applied to an AccountStateStore.
+ *
+ * Entries are kept in memory and/or appended to a JSONL file (one JSON entry per line).
+ * Use AccountStateStore.replay() to rebuild the store state at any point in the journal.
+ */
+export class AccountStateJournal<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private entries: AccountStateJournalEntry<TEnginePositionMetadata>[] = [];
+
+  private lastSeq = 0;
+
+  private options: AccountStateJournalOptions<TEnginePositionMetadata>;
+
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    options: AccountStateJournalOptions<TEnginePositionMetadata> = {},
+    initialEntries: AccountStateJournalEntry<TEnginePositionMetadata>[] = [],
+  ) {
+    this.options = {
+      keepInMemory: true,
+      ...options,
+    };
+
+    for (const entry of initialEntries) {
+      if (this.options.keepInMemory) {
+        this.entries.push(entry);
+      }
+      this.lastSeq = Math.max(this.lastSeq, entry.seq);
+    }
+  }
+
+  /** Parse a JSONL string (as produced by toJSONL()) into a journal */
+  static fromJSONL<
+    TEnginePositionMetadata extends object = Record<string, unknown>,
+  >(
+    jsonl: string,
+    options?: AccountStateJournalOptions<TEnginePositionMetadata>,
+  ): AccountStateJournal<TEnginePositionMetadata> {
+    const entries = jsonl
+      .split('\n')
+      .filter((line) => line.trim())
+      .map(
+        (line) =>
+          JSON.parse(line) as AccountStateJournalEntry<TEnginePositionMetadata>,
+      );
+
+    return new AccountStateJournal(options, entries);
+  }
+
+  /** Read a JSONL journal file into memory */
+  static async fromJSONLFile<
+    TEnginePositionMetadata extends object = Record<string, unknown>,
+  >(
+    filePath: string,
+    options?: AccountStateJournalOptions<TEnginePositionMetadata>,
+  ): Promise<AccountStateJournal<TEnginePositionMetadata>> {
+    const contents = await fs.readFile(filePath, 'utf8');
+    return AccountStateJournal.fromJSONL(contents, options);
+  }
+
+  /** Record a mutation. The mutation is copied, so later changes to the same objects don't affect the journal. */
+  append(
+    mutation: AccountStateMutation<TEnginePositionMetadata>,
+    timestampMs: number = Date.now(),
+  ): AccountStateJournalEntry<TEnginePositionMetadata> {
+    const entry = structuredClone({
+      ...mutation,
+      seq: ++this.lastSeq,
+      timestampMs,
+    });
+
+    if (this.options.keepInMemory) {
+      this.entries.push(entry);
+    }
+
+    if (this.options.filePath) {
+      this.appendToFile(this.options.filePath, JSON.stringify(entry) + '\n');
+    }
+
+    this.options.onEntry?.(entry);
+    return entry;
+  }
+
+  getEntries(): AccountStateJournalEntry<TEnginePositionMetadata>[] {
+    return [...this.entries];
+  }
+
+  /** Sequence number of the most recent entry (0 if the journal is empty) */
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /** Serialise in-memory entries to JSONL (one JSON entry per line) */
+  toJSONL(): string {
+    return this.entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+  }
+
+  /** Drop all in-memory entries. Sequence numbers keep incrementing and the journal file is left untouched. */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /** Resolves once all pending file writes have completed */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private appendToFile(filePath: string, line: string): void {
+    // Chain writes, so lines are always appended in order
+    this.writeQueue = this.writeQueue
+      .then(() => fs.appendFile(filePath, line, 'utf8'))
+      .catch((e) => {
+        console.error(
+          `AccountStateJournal: exception appending to journal file "${filePath}": ${sanitiseError(
+            e,
+          )}`,
+        );
+      });
+  }
+}
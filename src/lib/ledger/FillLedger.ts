@@ -0,0 +1,657 @@
+import { getContractUnrealisedPNL } from '../../util/math.js';
+import { isTerminalOrderStatus } from '../orders/OrderArchive.js';
+import { EngineOrder } from '../types/order.js';
+import { EnginePositionSide } from '../types/position.js';
+import {
+  EngineFill,
+  EngineFundingPayment,
+  EngineTradingFee,
+  FillLedgerOptions,
+  FillLedgerState,
+  FillPositionContext,
+  OrderExecutionCursor,
+  PositionLifetimeState,
+  RealisedPnlState,
+} from '../types/ledger.js';
+
+/** Ignore executed quantity changes smaller than this (floating point noise) */
+const QTY_EPSILON = 1e-12;
+
+/** The last state seen for a position, less any quantity closed by fills since */
+interface LastSeenPosition {
+  entryPrice: number;
+  /** Signed asset quantity */
+  assetQty: number;
+  /** What was left of the previous position, if this one faces the other way (e.g. a one-way position that flipped before its fill was processed) */
+  flippedFrom?: LastSeenPosition;
+}
+
+function getEmptyRealisedPnlState(): RealisedPnlState {
+  return {
+    realisedPnl: 0,
+    fees: 0,
+    feesByAsset: {},
+    funding: 0,
+    netRealisedPnl: 0,
+    fillCount: 0,
+    filledQty: 0,
+    filledValue: 0,
+  };
+}
+
+type RealisedPnlChange = Partial<
+  Pick<
+    RealisedPnlState,
+    | 'realisedPnl'
+    | 'fees'
+    | 'feesByAsset'
+    | 'funding'
+    | 'fillCount'
+    | 'filledQty'
+    | 'filledValue'
+  >
+>;
+
+function applyRealisedPnlChange(
+  state: RealisedPnlState,
+  change: RealisedPnlChange,
+): void {
+  state.realisedPnl += change.realisedPnl || 0;
+  state.fees += change.fees || 0;
+  for (const asset in change.feesByAsset) {
+    state.feesByAsset[asset] =
+      (state.feesByAsset[asset] || 0) + change.feesByAsset[asset];
+  }
+  state.funding += change.funding || 0;
+  state.fillCount += change.fillCount || 0;
+  state.filledQty += change.filledQty || 0;
+  state.filledValue += change.filledValue || 0;
+  state.netRealisedPnl = state.realisedPnl - state.fees + state.funding;
+}
+
+/**
+ * Derive the average price of only the newly filled quantity, using the cumulative average price before & after
+ */
+function getIncrementalFillPrice(
+  previous: OrderExecutionCursor,
+  order: EngineOrder,
+  fillQty: number,
+): number {
+  if (order.averagePrice > 0) {
+    const previousValue = previous.executedQuantity * previous.averagePrice;
+    const currentValue = order.executedQuantity * order.averagePrice;
+    const fillPrice = (currentValue - previousValue) / fillQty;
+
+    if (Number.isFinite(fillPrice) && fillPrice > 0) {
+      return fillPrice;
+    }
+    return order.averagePrice;
+  }
+
+  return order.price;
+}
+
+/**
+ * Tracks incremental fills from successive order updates, and the realised PnL of any fills that reduced a position.
+ *
+ * Exchanges typically only send cumulative execution state (executed quantity & average price) per order update.
+ * The ledger remembers the last execution state per order, so each update can be turned into the fill that happened since the previous update.
+ *
+ * Trading fees & funding payments are also tracked, so realised PnL can be reported before & after costs.
+ * Everything is aggregated per session and per position lifetime.
+ */
+export class FillLedger {
+  private options: Required<FillLedgerOptions>;
+
+  private fills: EngineFill[] = [];
+
+  private fees: EngineTradingFee[] = [];
+
+  private fundingPayments: EngineFundingPayment[] = [];
+
+  // Execution state of orders that can still fill, by exchange order ID
+  private orderCursors: Map<string, OrderExecutionCursor> = new Map();
+
+  // Recently completed orders (in completion order), so duplicate or late updates for them are ignored
+  private completedOrderIds: Set<string> = new Set();
+
+  // Fills applied via AccountStateStore.applyFill(), numbered so their IDs are unique
+  private appliedFillCount = 0;
+
+  // Set by the first mutation of the owning store (see initSessionStartMs()), unless restored from a snapshot
+  private sessionStartMs: number | undefined;
+
+  // Time of the mutation being processed, used for anything without its own timestamp (so journal replays are deterministic)
+  private getTimeMs: () => number;
+
+  // Asset that realised PnL for a symbol is settled in. Empty if unknown, in which case fees in any asset are treated as settle asset fees.
+  private getSettleAsset: (symbol: string) => string;
+
+  // per symbol, per side, realised PnL state since the session started
+  private sessionRealisedPnl: FillLedgerState['sessionRealisedPnl'] = {};
+
+  // per symbol, per side, realised PnL state for the current (or most recently closed) position
+  private positionLifetimes: FillLedgerState['positionLifetimes'] = {};
+
+  // per symbol, per side, the last position seen (used if a fill arrives after the position was already closed)
+  private lastPositions: Record<
+    string,
+    Partial<Record<EnginePositionSide, LastSeenPosition>>
+  > = {};
+
+  constructor(
+    options: FillLedgerOptions = {},
+    getTimeMs: () => number = Date.now,
+    getSettleAsset: (symbol: string) => string = () => '',
+  ) {
+    this.options = {
+      maxFills: 10000,
+      maxTerminalOrders: 10000,
+      ...options,
+    };
+    this.getTimeMs = getTimeMs;
+    this.getSettleAsset = getSettleAsset;
+  }
+
+  /**
+   * Process an order update. Returns the incremental fill, if the executed quantity increased since the last update for this order.
+   *
+   * @param getPositionContext called to resolve which position the fill belongs to, and the state of that position before the fill
+   */
+  processOrderUpdate(
+    order: EngineOrder,
+    getPositionContext: (order: EngineOrder) => FillPositionContext,
+  ): EngineFill | undefined {
+    // Nothing more can change after an order completed
+    if (this.completedOrderIds.has(order.exchangeOrderId)) {
+      return;
+    }
+
+    const previous: OrderExecutionCursor = this.orderCursors.get(
+      order.exchangeOrderId,
+    ) || {
+      executedQuantity: 0,
+      averagePrice: 0,
+      cumulativeFee: 0,
+      fillCount: 0,
+    };
+
+    const fillQty = order.executedQuantity - previous.executedQuantity;
+    const hasFill = fillQty > QTY_EPSILON;
+
+    const cursor: OrderExecutionCursor = {
+      executedQuantity: hasFill
+        ? order.executedQuantity
+        : previous.executedQuantity,
+      averagePrice: hasFill ? order.averagePrice : previous.averagePrice,
+      cumulativeFee: order.cumulativeFee ?? previous.cumulativeFee,
+      fillCount: hasFill ? previous.fillCount + 1 : previous.fillCount,
+    };
+    this.setOrderCursor(
+      order.exchangeOrderId,
+      cursor,
+      isTerminalOrderStatus(order.status),
+    );
+
+    const feeDelta = cursor.cumulativeFee - previous.cumulativeFee;
+    if (!hasFill && !feeDelta) {
+      return;
+    }
+
+    const positionContext = getPositionContext(order);
+
+    let fill: EngineFill | undefined;
+    if (hasFill) {
+      const fillPrice = getIncrementalFillPrice(previous, order, fillQty);
+      fill = this.createFill(
+        order,
+        cursor.fillCount,
+        fillQty,
+        fillPrice,
+        positionContext,
+      );
+      this.addFill(fill);
+    }
+
+    if (feeDelta) {
+      this.recordTradingFee({
+        symbol: order.symbol,
+        positionSide: positionContext.positionSide,
+        amount: feeDelta,
+        asset: order.feeAsset || '',
+        liquidity:
+          order.isMaker === undefined
+            ? undefined
+            : order.isMaker
+            ? 'MAKER'
+            : 'TAKER',
+        exchangeOrderId: order.exchangeOrderId,
+        timestampMs: order.updatedAtMs || this.getTimeMs(),
+      });
+    }
+
+    return fill;
+  }
+
+  /** Stop tracking the execution state of an order that was removed without completing (e.g. via AccountStateStore.deleteOrder()) */
+  forgetOrder(orderId: string): void {
+    this.orderCursors.delete(orderId);
+  }
+
+  /** ID for the next fill applied via AccountStateStore.applyFill(), unique even for fills with the same order & timestamp */
+  getNextAppliedFillId(orderIdOrSymbol: string): string {
+    return `${orderIdOrSymbol}:applied-${++this.appliedFillCount}`;
+  }
+
+  /** Record a fill that wasn't derived from an order update (e.g. a fill applied via AccountStateStore.applyFill()) */
+  recordFill(fill: EngineFill): void {
+    this.addFill(fill);
+  }
+
+  /** Record a trading fee (commission) that isn't included in order updates */
+  recordTradingFee(fee: EngineTradingFee): void {
+    this.fees.push({ ...fee });
+    this.trimToMaxRecords(this.fees);
+
+    // Fees in another asset (e.g. BNB) can't be added to PnL in the settle asset without a conversion price
+    const settleAsset = this.getSettleAsset(fee.symbol);
+    const feeAsset = fee.asset || settleAsset;
+    this.applyChange(fee.symbol, fee.positionSide, {
+      fees: !settleAsset || feeAsset === settleAsset ? fee.amount : 0,
+      feesByAsset: { [feeAsset]: fee.amount },
+    });
+  }
+
+  /** Record a funding payment. Positive amounts were received, negative amounts were paid. */
+  recordFundingPayment(payment: EngineFundingPayment): void {
+    this.fundingPayments.push({ ...payment });
+    this.trimToMaxRecords(this.fundingPayments);
+
+    this.applyChange(payment.symbol, payment.positionSide, {
+      funding: payment.amount,
+    });
+  }
+
+  /**
+   * Called when a position opened. Starts a new position lifetime, unless the opening fill was already processed.
+   */
+  onPositionOpened(
+    symbol: string,
+    side: EnginePositionSide,
+    timestampMs: number,
+  ): void {
+    const lifetime = this.positionLifetimes[symbol]?.[side];
+    if (!lifetime || lifetime.closedAtMs !== undefined) {
+      this.startPositionLifetime(symbol, side, timestampMs);
+    }
+  }
+
+  /** Called when a position closed. Late fills & fees are still attributed to this position's lifetime. */
+  onPositionClosed(
+    symbol: string,
+    side: EnginePositionSide,
+    timestampMs: number,
+  ): void {
+    const lifetime = this.positionLifetimes[symbol]?.[side];
+    if (lifetime && lifetime.closedAtMs === undefined) {
+      lifetime.closedAtMs = timestampMs;
+    }
+  }
+
+  /** Realised PnL, fees & funding for the current (or most recently closed) position on this symbol & side */
+  getPositionLifetime(
+    symbol: string,
+    side: EnginePositionSide,
+  ): PositionLifetimeState | undefined {
+    const lifetime = this.positionLifetimes[symbol]?.[side];
+    return lifetime ? { ...lifetime } : undefined;
+  }
+
+  getTradingFees(
+    symbol?: string,
+    side?: EnginePositionSide,
+  ): EngineTradingFee[] {
+    return this.fees.filter(
+      (fee) =>
+        (symbol === undefined || fee.symbol === symbol) &&
+        (side === undefined || fee.positionSide === side),
+    );
+  }
+
+  getFundingPayments(
+    symbol?: string,
+    side?: EnginePositionSide,
+  ): EngineFundingPayment[] {
+    return this.fundingPayments.filter(
+      (payment) =>
+        (symbol === undefined || payment.symbol === symbol) &&
+        (side === undefined || payment.positionSide === side),
+    );
+  }
+
+  /** Remember the entry price & quantity of a position, in case fills for it are processed after it closed */
+  trackPosition(
+    symbol: string,
+    side: EnginePositionSide,
+    entryPrice: number,
+    assetQty: number,
+  ): void {
+    if (!entryPrice || !assetQty) {
+      return;
+    }
+
+    const previous = this.lastPositions[symbol]?.[side];
+    const flippedFrom =
+      previous?.assetQty && Math.sign(previous.assetQty) !== Math.sign(assetQty)
+        ? { entryPrice: previous.entryPrice, assetQty: previous.assetQty }
+        : previous?.flippedFrom;
+
+    this.lastPositions[symbol] = this.lastPositions[symbol] || {};
+    this.lastPositions[symbol][side] = { entryPrice, assetQty, flippedFrom };
+  }
+
+  getLastEntryPrice(
+    symbol: string,
+    side: EnginePositionSide,
+  ): number | undefined {
+    return this.lastPositions[symbol]?.[side]?.entryPrice;
+  }
+
+  /** Get fills still in memory, optionally filtered by symbol and/or side */
+  getFills(symbol?: string, side?: EnginePositionSide): EngineFill[] {
+    return this.fills.filter(
+      (fill) =>
+        (symbol === undefined || fill.symbol === symbol) &&
+        (side === undefined || fill.positionSide === side),
+    );
+  }
+
+  /**
+   * Get realised PnL since the session started, optionally filtered by symbol and/or side.
+   *
+   * Realised PnL is in the settle asset of each symbol. If symbols settle in different assets, use getRealisedPnlByAsset() instead.
+   */
+  getRealisedPnl(symbol?: string, side?: EnginePositionSide): RealisedPnlState {
+    return (
+      this.getRealisedPnlByAsset(symbol, side, () => '')[''] ||
+      getEmptyRealisedPnlState()
+    );
+  }
+
+  /** Get realised PnL since the session started per settle asset, optionally filtered by symbol and/or side */
+  getRealisedPnlByAsset(
+    symbol?: string,
+    side?: EnginePositionSide,
+    getSettleAsset: (symbol: string) => string = this.getSettleAsset,
+  ): Record<string, RealisedPnlState> {
+    const result: Record<string, RealisedPnlState> = {};
+
+    for (const pnlSymbol in this.sessionRealisedPnl) {
+      if (symbol !== undefined && pnlSymbol !== symbol) {
+        continue;
+      }
+
+      const settleAsset = getSettleAsset(pnlSymbol);
+      result[settleAsset] = result[settleAsset] || getEmptyRealisedPnlState();
+
+      for (const pnlSide in this.sessionRealisedPnl[pnlSymbol]) {
+        if (side !== undefined && pnlSide !== side) {
+          continue;
+        }
+
+        const state =
+          this.sessionRealisedPnl[pnlSymbol][pnlSide as EnginePositionSide];
+        if (state) {
+          applyRealisedPnlChange(result[settleAsset], state);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** Realised PnL per symbol, per side, since the session started */
+  getRealisedPnlBySymbol(): FillLedgerState['sessionRealisedPnl'] {
+    return structuredClone(this.sessionRealisedPnl);
+  }
+
+  getSessionStartMs(): number {
+    return this.sessionStartMs ?? this.getTimeMs();
+  }
+
+  /** Set when the first session started, if it wasn't set yet */
+  initSessionStartMs(sessionStartMs: number): void {
+    this.sessionStartMs ??= sessionStartMs;
+  }
+
+  /** Start a new session: reset realised PnL aggregates. Fills and order execution state are kept. */
+  resetSession(sessionStartMs: number = this.getTimeMs()): void {
+    this.sessionStartMs = sessionStartMs;
+    this.sessionRealisedPnl = {};
+  }
+
+  toState(): FillLedgerState {
+    return structuredClone({
+      fills: this.fills,
+      fees: this.fees,
+      fundingPayments: this.fundingPayments,
+      orderCursors: Object.fromEntries(this.orderCursors),
+      completedOrderIds: Array.from(this.completedOrderIds),
+      appliedFillCount: this.appliedFillCount,
+      sessionStartMs: this.getSessionStartMs(),
+      sessionRealisedPnl: this.sessionRealisedPnl,
+      positionLifetimes: this.positionLifetimes,
+    });
+  }
+
+  restoreState(state: FillLedgerState): void {
+    const restored = structuredClone(state);
+    this.fills = restored.fills;
+    this.fees = restored.fees || [];
+    this.fundingPayments = restored.fundingPayments || [];
+    this.orderCursors = new Map();
+    this.completedOrderIds = new Set(restored.completedOrderIds);
+    this.appliedFillCount = restored.appliedFillCount || 0;
+    // Older snapshots also kept cursors for completed orders, flagged as terminal
+    const cursors: Record<
+      string,
+      OrderExecutionCursor & { isTerminal?: boolean }
+    > = restored.orderCursors;
+    for (const orderId in cursors) {
+      const { isTerminal, ...cursor } = cursors[orderId];
+      if (isTerminal) {
+        this.completedOrderIds.add(orderId);
+      } else {
+        this.orderCursors.set(orderId, cursor);
+      }
+    }
+    this.sessionStartMs = restored.sessionStartMs;
+    this.sessionRealisedPnl = restored.sessionRealisedPnl;
+    this.positionLifetimes = restored.positionLifetimes || {};
+
+    // Older snapshots don't track fees per asset, all fees were added up as if they were in the settle asset
+    for (const states of [this.sessionRealisedPnl, this.positionLifetimes]) {
+      for (const symbol in states) {
+        for (const pnlState of Object.values(states[symbol])) {
+          if (pnlState && !pnlState.feesByAsset) {
+            pnlState.feesByAsset = pnlState.fees
+              ? { [this.getSettleAsset(symbol)]: pnlState.fees }
+              : {};
+          }
+        }
+      }
+    }
+  }
+
+  private createFill(
+    order: EngineOrder,
+    fillNumber: number,
+    fillQty: number,
+    fillPrice: number,
+    positionContext: FillPositionContext,
+  ): EngineFill {
+    const { positionSide } = positionContext;
+    const fillDirection = order.orderSide === 'BUY' ? 1 : -1;
+
+    // A one-way position can already be closed by the time its closing fill is processed.
+    // Fall back to what's left of the last position seen, or assume a reduce-only fill closed a position.
+    const lastPosition = this.lastPositions[order.symbol]?.[positionSide];
+
+    // It can also already have flipped, in which case the fill first closes what's left of the position before the flip
+    const flippedFrom =
+      positionSide === 'NONE' &&
+      Math.sign(positionContext.assetQty) !== -fillDirection &&
+      Math.sign(lastPosition?.flippedFrom?.assetQty || 0) === -fillDirection
+        ? lastPosition?.flippedFrom
+        : undefined;
+
+    const assetQty =
+      flippedFrom?.assetQty ||
+      positionContext.assetQty ||
+      (positionSide === 'NONE'
+        ? lastPosition?.assetQty ||
+          (order.isreduceOnly ? -fillDirection * fillQty : 0)
+        : 0);
+
+    // Which way the position is (or was) facing: 1 for long, -1 for short
+    const positionDirection =
+      Math.sign(assetQty) ||
+      (positionSide === 'LONG' ? 1 : positionSide === 'SHORT' ? -1 : 0);
+    const isReducing =
+      positionDirection !== 0 && fillDirection === -positionDirection;
+
+    // In one-way mode a fill can close the position and open one in the other direction
+    const closedQty = !isReducing
+      ? 0
+      : positionSide === 'NONE'
+      ? Math.min(fillQty, Math.abs(assetQty))
+      : fillQty;
+
+    const closedEntryPrice = !closedQty
+      ? undefined
+      : flippedFrom
+      ? flippedFrom.entryPrice
+      : positionContext.entryPrice || lastPosition?.entryPrice;
+
+    if (flippedFrom && lastPosition) {
+      flippedFrom.assetQty = assetQty - closedQty * positionDirection;
+      if (!flippedFrom.assetQty) {
+        lastPosition.flippedFrom = undefined;
+      }
+    } else if (lastPosition && positionSide === 'NONE') {
+      lastPosition.assetQty = assetQty - closedQty * positionDirection;
+    }
+
+    const realisedPnl = closedEntryPrice
+      ? getContractUnrealisedPNL(
+          positionContext.contractSpec,
+          fillPrice,
+          closedQty * positionDirection,
+          closedEntryPrice,
+        )
+      : 0;
+
+    const fill: EngineFill = {
+      fillId: `${order.exchangeOrderId}:${fillNumber}`,
+      exchangeOrderId: order.exchangeOrderId,
+      customOrderId: order.customOrderId,
+      symbol: order.symbol,
+      orderSide: order.orderSide,
+      positionSide,
+      qty: fillQty,
+      price: fillPrice,
+      closedQty,
+      closedEntryPrice,
+      realisedPnl,
+      timestampMs: order.updatedAtMs || this.getTimeMs(),
+    };
+
+    if (!positionContext.getFillResult) {
+      return fill;
+    }
+
+    const result = positionContext.getFillResult(fill);
+    return {
+      ...fill,
+      closedQty: result.closedQty,
+      closedEntryPrice: result.closedEntryPrice,
+      realisedPnl: result.realisedPnl,
+    };
+  }
+
+  private addFill(fill: EngineFill): void {
+    this.fills.push(fill);
+    this.trimToMaxRecords(this.fills);
+
+    // A fill opening a position after the previous one closed starts a new position lifetime
+    const isOpeningFill = !fill.closedQty;
+    if (isOpeningFill) {
+      this.onPositionOpened(fill.symbol, fill.positionSide, fill.timestampMs);
+    }
+
+    this.applyChange(fill.symbol, fill.positionSide, {
+      realisedPnl: fill.realisedPnl,
+      fillCount: 1,
+      filledQty: fill.qty,
+      filledValue: fill.qty * fill.price,
+    });
+  }
+
+  private startPositionLifetime(
+    symbol: string,
+    side: EnginePositionSide,
+    timestampMs: number,
+  ): void {
+    this.positionLifetimes[symbol] = this.positionLifetimes[symbol] || {};
+    this.positionLifetimes[symbol][side] = {
+      ...getEmptyRealisedPnlState(),
+      openedAtMs: timestampMs,
+      closedAtMs: undefined,
+    };
+  }
+
+  /** Add to the session & position lifetime aggregates for this symbol & side */
+  private applyChange(
+    symbol: string,
+    side: EnginePositionSide,
+    change: RealisedPnlChange,
+  ): void {
+    this.sessionRealisedPnl[symbol] = this.sessionRealisedPnl[symbol] || {};
+    const sessionState =
+      this.sessionRealisedPnl[symbol][side] || getEmptyRealisedPnlState();
+    applyRealisedPnlChange(sessionState, change);
+    this.sessionRealisedPnl[symbol][side] = sessionState;
+
+    if (!this.positionLifetimes[symbol]?.[side]) {
+      this.startPositionLifetime(symbol, side, this.getTimeMs());
+    }
+    applyRealisedPnlChange(this.positionLifetimes[symbol][side]!, change);
+  }
+
+  private trimToMaxRecords(records: unknown[]): void {
+    if (records.length > this.options.maxFills) {
+      records.splice(0, records.length - this.options.maxFills);
+    }
+  }
+
+  private setOrderCursor(
+    orderId: string,
+    cursor: OrderExecutionCursor,
+    isTerminal: boolean,
+  ): void {
+    if (!isTerminal) {
+      this.orderCursors.set(orderId, cursor);
+      return;
+    }
+
+    // A completed order can't fill anymore, so only its ID is kept (for a limited number of orders)
+    this.orderCursors.delete(orderId);
+    this.completedOrderIds.add(orderId);
+    for (const oldestOrderId of this.completedOrderIds) {
+      if (this.completedOrderIds.size <= this.options.maxTerminalOrders) {
+        break;
+      }
+      this.completedOrderIds.delete(oldestOrderId);
+    }
+  }
+}
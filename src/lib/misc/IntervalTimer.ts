@@ -0,0 +1,51 @@
+import { sanitiseError } from './error.js';
+
+/**
+ * Runs a task on an interval until stopped. The timer won't keep the process alive.
+ *
+ * Exceptions thrown by the task are logged and swallowed, so one failed run never stops the next.
+ */
+export class IntervalTimer {
+  private task: () => void;
+
+  private intervalMs: number;
+
+  /** Prefix for logged exceptions, e.g. "SomeMonitor: exception doing something" */
+  private errorMessage: string;
+
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(task: () => void, intervalMs: number, errorMessage: string) {
+    this.task = task;
+    this.intervalMs = intervalMs;
+    this.errorMessage = errorMessage;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return !!this.timer;
+  }
+
+  private run(): void {
+    try {
+      this.task();
+    } catch (e) {
+      console.error(`${this.errorMessage}: ${sanitiseError(e)}`);
+    }
+  }
+}
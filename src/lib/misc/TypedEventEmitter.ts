@@ -0,0 +1,100 @@
+import { sanitiseError } from './error.js';
+
+/** A listener for one event in a typed event map */
+export type TypedEventListener<
+  TEventMap extends object,
+  TEventName extends keyof TEventMap,
+> = (event: TEventMap[TEventName]) => void;
+
+/**
+ * Minimal, dependency-free event emitter with strongly typed event names & payloads.
+ *
+ * Exceptions thrown by a listener are logged and swallowed, so a misbehaving listener can never interrupt a state update.
+ */
+export class TypedEventEmitter<TEventMap extends object> {
+  private eventListeners: {
+    [TEventName in keyof TEventMap]?: TypedEventListener<
+      TEventMap,
+      TEventName
+    >[];
+  } = {};
+
+  /** Subscribe to an event. Returns a function that can be called to unsubscribe again. */
+  on<TEventName extends keyof TEventMap>(
+    eventName: TEventName,
+    listener: TypedEventListener<TEventMap, TEventName>,
+  ): () => void {
+    const listeners = this.eventListeners[eventName] || [];
+    listeners.push(listener);
+    this.eventListeners[eventName] = listeners;
+
+    return () => this.off(eventName, listener);
+  }
+
+  /** Unsubscribe a listener previously registered via on() or once() */
+  off<TEventName extends keyof TEventMap>(
+    eventName: TEventName,
+    listener: TypedEventListener<TEventMap, TEventName>,
+  ): void {
+    const listeners = this.eventListeners[eventName];
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /** Subscribe to the next occurrence of an event only */
+  once<TEventName extends keyof TEventMap>(
+    eventName: TEventName,
+    listener: TypedEventListener<TEventMap, TEventName>,
+  ): () => void {
+    const onceListener: TypedEventListener<TEventMap, TEventName> = (event) => {
+      this.off(eventName, onceListener);
+      listener(event);
+    };
+
+    return this.on(eventName, onceListener);
+  }
+
+  /** Remove all listeners for one event, or for all events if no event name is provided */
+  removeAllListeners(eventName?: keyof TEventMap): void {
+    if (eventName === undefined) {
+      this.eventListeners = {};
+      return;
+    }
+
+    delete this.eventListeners[eventName];
+  }
+
+  /** Number of listeners currently registered for an event */
+  listenerCount(eventName: keyof TEventMap): number {
+    return this.eventListeners[eventName]?.length || 0;
+  }
+
+  protected emit<TEventName extends keyof TEventMap>(
+    eventName: TEventName,
+    event: TEventMap[TEventName],
+  ): void {
+    const listeners = this.eventListeners[eventName];
+    if (!listeners?.length) {
+      return;
+    }
+
+    // Copy, in case a listener (e.g. once()) unsubscribes while we're iterating
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(
+          `Exception in "${String(eventName)}" event listener: ${sanitiseError(
+            e,
+          )}`,
+        );
+      }
+    }
+  }
+}
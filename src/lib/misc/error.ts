@@ -1,4 +1,4 @@
-function hasProp<K extends PropertyKey>(
+export function hasProp<K extends PropertyKey>(
   obj: unknown,
   key: K | null | undefined,
 ): obj is Record<K, unknown> {
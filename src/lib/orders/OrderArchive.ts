@@ -0,0 +1,177 @@
+import { EngineOrder } from '../types/order.js';
+import {
+  ArchivedOrder,
+  EngineOrderTransition,
+  OrderArchiveOptions,
+  OrderArchiveQuery,
+  OrderArchiveState,
+} from '../types/order-archive.js';
+
+const TERMINAL_ORDER_STATUSES: EngineOrder['status'][] = [
+  'FILLED',
+  'CANCELLED',
+  'EXPIRED',
+  'REJECTED',
+];
+
+/**
+ * Orders in a terminal status (filled, cancelled, expired or rejected) will not receive further updates.
+ *
+ * Orders pending cancellation are not terminal, as they can still fill before the cancel is processed.
+ */
+export function isTerminalOrderStatus(status: EngineOrder['status']): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status);
+}
+
+function isMatchingArchivedOrder(
+  archived: ArchivedOrder,
+  query: OrderArchiveQuery,
+): boolean {
+  const { order } = archived;
+  return (
+    (query.symbol === undefined || order.symbol === query.symbol) &&
+    (query.customOrderId === undefined ||
+      order.customOrderId === query.customOrderId) &&
+    (query.status === undefined || order.status === query.status) &&
+    (query.fromMs === undefined || archived.archivedAtMs >= query.fromMs) &&
+    (query.toMs === undefined || archived.archivedAtMs <= query.toMs)
+  );
+}
+
+/**
+ * Tracks the status transitions of orders, and keeps a bounded archive of terminal orders.
+ *
+ * Active orders only need their transitions tracked here, the orders themselves live in the store.
+ */
+export class OrderArchive {
+  private options: OrderArchiveOptions & { maxOrders: number };
+
+  // Insertion order is archive order, so the oldest orders are first
+  private archivedOrders: Map<string, ArchivedOrder> = new Map();
+
+  private activeTransitions: Map<string, EngineOrderTransition[]> = new Map();
+
+  // Fallback time for order updates without an update time
+  private getTimeMs: () => number;
+
+  constructor(
+    options: OrderArchiveOptions = {},
+    getTimeMs: () => number = Date.now,
+  ) {
+    this.options = {
+      maxOrders: 1000,
+      ...options,
+    };
+    this.getTimeMs = getTimeMs;
+  }
+
+  /** Record an order update. Orders are archived once they reach a terminal status. */
+  processOrderUpdate(order: EngineOrder): void {
+    const orderId = order.exchangeOrderId;
+    const transition: EngineOrderTransition = {
+      status: order.status,
+      timestampMs: order.updatedAtMs || this.getTimeMs(),
+      executedQuantity: order.executedQuantity,
+    };
+
+    // A late or duplicate update for an order that was already archived
+    const archived = this.archivedOrders.get(orderId);
+    if (archived) {
+      if (archived.order.status !== order.status) {
+        archived.order = { ...order };
+        archived.transitions.push(transition);
+      }
+      return;
+    }
+
+    const transitions = this.activeTransitions.get(orderId) || [];
+    if (transitions[transitions.length - 1]?.status !== order.status) {
+      transitions.push(transition);
+    }
+
+    if (!isTerminalOrderStatus(order.status)) {
+      this.activeTransitions.set(orderId, transitions);
+      return;
+    }
+
+    this.activeTransitions.delete(orderId);
+    this.archivedOrders.set(orderId, {
+      order: { ...order },
+      transitions,
+      archivedAtMs: transition.timestampMs,
+    });
+    this.prune();
+  }
+
+  /** Stop tracking an active order that was removed without reaching a terminal status */
+  forgetOrder(orderId: string): void {
+    this.activeTransitions.delete(orderId);
+  }
+
+  getArchivedOrder(orderId: string): ArchivedOrder | undefined {
+    const archived = this.archivedOrders.get(orderId);
+    return archived ? structuredClone(archived) : undefined;
+  }
+
+  /** Get archived orders (oldest first), optionally filtered */
+  getArchivedOrders(query: OrderArchiveQuery = {}): ArchivedOrder[] {
+    this.prune();
+
+    const archivedOrders: ArchivedOrder[] = [];
+    for (const archived of this.archivedOrders.values()) {
+      if (isMatchingArchivedOrder(archived, query)) {
+        archivedOrders.push(structuredClone(archived));
+      }
+    }
+    return archivedOrders;
+  }
+
+  /** Status transitions for an active or archived order, oldest first */
+  getOrderTransitions(orderId: string): EngineOrderTransition[] | undefined {
+    const transitions =
+      this.archivedOrders.get(orderId)?.transitions ||
+      this.activeTransitions.get(orderId);
+    return transitions ? structuredClone(transitions) : undefined;
+  }
+
+  /** Drop archived orders beyond the configured retention limits */
+  prune(nowMs: number = Date.now()): void {
+    const { maxOrders, maxAgeMs } = this.options;
+
+    if (maxAgeMs !== undefined) {
+      for (const [orderId, archived] of this.archivedOrders) {
+        if (archived.archivedAtMs < nowMs - maxAgeMs) {
+          this.archivedOrders.delete(orderId);
+        }
+      }
+    }
+
+    for (const orderId of this.archivedOrders.keys()) {
+      if (this.archivedOrders.size <= maxOrders) {
+        break;
+      }
+      this.archivedOrders.delete(orderId);
+    }
+  }
+
+  toState(): OrderArchiveState {
+    return structuredClone({
+      orders: Array.from(this.archivedOrders.values()),
+      activeTransitions: Object.fromEntries(this.activeTransitions),
+    });
+  }
+
+  restoreState(state: OrderArchiveState): void {
+    const restored = structuredClone(state);
+    this.archivedOrders = new Map(
+      restored.orders.map((archived) => [
+        archived.order.exchangeOrderId,
+        archived,
+      ]),
+    );
+    this.activeTransitions = new Map(
+      Object.entries(restored.activeTransitions || {}),
+    );
+    this.prune();
+  }
+}
@@ -0,0 +1,159 @@
+import { EngineOrder } from '../types/order.js';
+
+function addToIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  orderId: string,
+): void {
+  const orderIds = index.get(key);
+  if (orderIds) {
+    orderIds.add(orderId);
+  } else {
+    index.set(key, new Set([orderId]));
+  }
+}
+
+function removeFromIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  orderId: string,
+): void {
+  const orderIds = index.get(key);
+  if (!orderIds) {
+    return;
+  }
+
+  orderIds.delete(orderId);
+  if (!orderIds.size) {
+    index.delete(key);
+  }
+}
+
+function getSymbolSideKey(
+  symbol: string,
+  side: EngineOrder['orderSide'],
+): string {
+  return `${symbol}:${side}`;
+}
+
+/**
+ * Orders keyed by exchange order ID, with secondary indexes by custom order ID, symbol, symbol & side, and status.
+ *
+ * Indexes are maintained on every set & delete, so lookups don't need to scan all orders.
+ */
+export class OrderIndex {
+  private orders: Map<string, EngineOrder> = new Map();
+
+  // customOrderId -> exchangeOrderId. Empty custom order IDs are not indexed.
+  private byCustomId: Map<string, string> = new Map();
+
+  private bySymbol: Map<string, Set<string>> = new Map();
+
+  private bySymbolSide: Map<string, Set<string>> = new Map();
+
+  private byStatus: Map<string, Set<string>> = new Map();
+
+  constructor(orders: EngineOrder[] = []) {
+    for (const order of orders) {
+      this.set(order);
+    }
+  }
+
+  get size(): number {
+    return this.orders.size;
+  }
+
+  get(orderId: string): EngineOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  has(orderId: string): boolean {
+    return this.orders.has(orderId);
+  }
+
+  values(): IterableIterator<EngineOrder> {
+    return this.orders.values();
+  }
+
+  set(order: EngineOrder): void {
+    const orderId = order.exchangeOrderId;
+    this.removeFromIndexes(orderId);
+    this.orders.set(orderId, order);
+
+    if (order.customOrderId) {
+      this.byCustomId.set(order.customOrderId, orderId);
+    }
+    addToIndex(this.bySymbol, order.symbol, orderId);
+    addToIndex(
+      this.bySymbolSide,
+      getSymbolSideKey(order.symbol, order.orderSide),
+      orderId,
+    );
+    addToIndex(this.byStatus, order.status, orderId);
+  }
+
+  delete(orderId: string): boolean {
+    this.removeFromIndexes(orderId);
+    return this.orders.delete(orderId);
+  }
+
+  clear(): void {
+    this.orders.clear();
+    this.byCustomId.clear();
+    this.bySymbol.clear();
+    this.bySymbolSide.clear();
+    this.byStatus.clear();
+  }
+
+  getByCustomId(customOrderId: string): EngineOrder | undefined {
+    const orderId = this.byCustomId.get(customOrderId);
+    return orderId ? this.orders.get(orderId) : undefined;
+  }
+
+  getForSymbol(symbol: string): EngineOrder[] {
+    return this.getIndexedOrders(this.bySymbol.get(symbol));
+  }
+
+  getForSymbolSide(
+    symbol: string,
+    side: EngineOrder['orderSide'],
+  ): EngineOrder[] {
+    return this.getIndexedOrders(
+      this.bySymbolSide.get(getSymbolSideKey(symbol, side)),
+    );
+  }
+
+  getByStatus(status: EngineOrder['status']): EngineOrder[] {
+    return this.getIndexedOrders(this.byStatus.get(status));
+  }
+
+  private getIndexedOrders(orderIds: Set<string> | undefined): EngineOrder[] {
+    const orders: EngineOrder[] = [];
+    for (const orderId of orderIds || []) {
+      const order = this.orders.get(orderId);
+      if (order) {
+        orders.push(order);
+      }
+    }
+    return orders;
+  }
+
+  private removeFromIndexes(orderId: string): void {
+    const previous = this.orders.get(orderId);
+    if (!previous) {
+      return;
+    }
+
+    // Another order may have since claimed the same custom order ID
+    if (this.byCustomId.get(previous.customOrderId) === orderId) {
+      this.byCustomId.delete(previous.customOrderId);
+    }
+    removeFromIndex(this.bySymbol, previous.symbol, orderId);
+    removeFromIndex(
+      this.bySymbolSide,
+      getSymbolSideKey(previous.symbol, previous.orderSide),
+      orderId,
+    );
+    removeFromIndex(this.byStatus, previous.status, orderId);
+  }
+}
@@ -0,0 +1,47 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { IntervalTimer } from '../misc/IntervalTimer.js';
+import { PendingOrderMonitorOptions } from '../types/order-intent.js';
+
+/**
+ * Periodically rolls back pending orders the exchange didn't confirm in time (see AccountStateStore.expirePendingOrders()).
+ *
+ * Subscribe to the store's "pendingOrderExpired" event to react to rolled back orders.
+ */
+export class PendingOrderMonitor<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private options: Required<PendingOrderMonitorOptions>;
+
+  private timer: IntervalTimer;
+
+  constructor(
+    store: AccountStateStore<TEnginePositionMetadata>,
+    options: PendingOrderMonitorOptions = {},
+  ) {
+    this.store = store;
+    this.options = {
+      intervalMs: 1000,
+      ...options,
+    };
+    this.timer = new IntervalTimer(
+      () => this.store.expirePendingOrders(),
+      this.options.intervalMs,
+      'PendingOrderMonitor: exception expiring pending orders',
+    );
+  }
+
+  /** Start checking for expired pending orders on an interval. The timer won't keep the process alive. */
+  start(): void {
+    this.timer.start();
+  }
+
+  stop(): void {
+    this.timer.stop();
+  }
+
+  isRunning(): boolean {
+    return this.timer.isRunning();
+  }
+}
@@ -0,0 +1,83 @@
+import { EngineOrder } from '../types/order.js';
+
+const STOP_LOSS_ORDER_TYPES: EngineOrder['orderType'][] = [
+  'STOP',
+  'STOP_MARKET',
+  'TRAILING_STOP_MARKET',
+];
+
+const TAKE_PROFIT_ORDER_TYPES: EngineOrder['orderType'][] = [
+  'TAKE_PROFIT',
+  'TAKE_PROFIT_MARKET',
+];
+
+export function isStopLossOrderType(
+  orderType: EngineOrder['orderType'],
+): boolean {
+  return STOP_LOSS_ORDER_TYPES.includes(orderType);
+}
+
+export function isTakeProfitOrderType(
+  orderType: EngineOrder['orderType'],
+): boolean {
+  return TAKE_PROFIT_ORDER_TYPES.includes(orderType);
+}
+
+/** Trigger price of a conditional order, falling back to the order price */
+export function getOrderTriggerPrice(order: EngineOrder): number | undefined {
+  return order.triggerPrice || order.price || undefined;
+}
+
+function getTriggerPrices(orders: EngineOrder[]): number[] {
+  return orders
+    .map((order) => getOrderTriggerPrice(order))
+    .filter((price): price is number => !!price);
+}
+
+/**
+ * Nearest stop loss trigger price to the market: the highest stop for a long position, or the lowest stop for a short position.
+ *
+ * Returns undefined if none of the orders have a trigger price.
+ */
+export function getNearestStopLossPrice(
+  orders: EngineOrder[],
+  positionQty: number,
+): number | undefined {
+  const prices = getTriggerPrices(orders);
+  if (!prices.length) {
+    return undefined;
+  }
+  return positionQty < 0 ? Math.min(...prices) : Math.max(...prices);
+}
+
+/**
+ * Nearest take profit trigger price to the market: the lowest target for a long position, or the highest target for a short position.
+ *
+ * Returns undefined if none of the orders have a trigger price.
+ */
+export function getNearestTakeProfitPrice(
+  orders: EngineOrder[],
+  positionQty: number,
+): number | undefined {
+  const prices = getTriggerPrices(orders);
+  if (!prices.length) {
+    return undefined;
+  }
+  return positionQty < 0 ? Math.max(...prices) : Math.min(...prices);
+}
+
+/**
+ * Position quantity that would be closed if all these orders triggered.
+ *
+ * Orders without a quantity close the whole position (e.g. Binance "closePosition" orders), so they cover any quantity (Infinity).
+ */
+export function getOrdersCoverageQty(orders: EngineOrder[]): number {
+  let coverage = 0;
+  for (const order of orders) {
+    if (!order.originalQuantity) {
+      return Infinity;
+    }
+    coverage += Math.max(0, order.originalQuantity - order.executedQuantity);
+  }
+  return coverage;
+}
@@ -0,0 +1,336 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { getContractPositionValue } from '../../util/math.js';
+import { ENGINE_PRICE_TYPE, IncomingPriceEvent } from '../types/events.js';
+import { EngineOrder } from '../types/order.js';
+import {
+  PaperOrderRequest,
+  PaperTradingEngineOptions,
+} from '../types/paper.js';
+
+const PAPER_ORDER_TYPES: EngineOrder['orderType'][] = [
+  'LIMIT',
+  'MARKET',
+  'STOP_MARKET',
+  'TAKE_PROFIT_MARKET',
+  'TRAILING_STOP_MARKET',
+];
+
+/** A resting order, with the state needed to match it */
+interface PaperOrderState {
+  order: EngineOrder;
+  callbackRate: number;
+  /** Best price seen since a trailing stop was activated */
+  trailingExtremePrice?: number;
+}
+
+/**
+ * A local, simulated exchange for paper trading & offline strategy tests.
+ *
+ * Orders are matched against price events, and every status transition is applied to the store via upsertActiveOrder().
+ * Positions are derived from the resulting fills, so the store must be created with positionsFromFills enabled.
+ * Realised PnL & fees are booked to the wallet balance of each symbol's settle asset.
+ *
+ * Orders fill completely when they match, at the limit price for resting limit orders, or at the current price (with slippage) otherwise.
+ * There's no order book, so partial fills & liquidity are not simulated.
+ */
+export class PaperTradingEngine<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private options: Required<PaperTradingEngineOptions>;
+
+  // Resting orders, keyed by exchange order ID, in the order they were submitted
+  private openOrders: Map<string, PaperOrderState> = new Map();
+
+  private orderSeq = 0;
+
+  // Time of the most recent price event, used as the time of order updates
+  private clockMs: number | undefined;
+
+  constructor(
+    store: AccountStateStore<TEnginePositionMetadata>,
+    options: PaperTradingEngineOptions = {},
+  ) {
+    if (!store.isPositionsFromFillsEnabled()) {
+      throw new Error(
+        'PaperTradingEngine requires a store with positionsFromFills enabled',
+      );
+    }
+
+    this.store = store;
+    this.options = {
+      makerFeeRate: 0.0002,
+      takerFeeRate: 0.0005,
+      slippage: 0,
+      priceType: ENGINE_PRICE_TYPE.LAST,
+      trailingStopCallbackRate: 0.01,
+      orderIdPrefix: 'paper-',
+      ...options,
+    };
+  }
+
+  /** Current time of the engine: the time of the most recent price event, or now if no price events were processed yet */
+  getTimeMs(): number {
+    return this.clockMs ?? Date.now();
+  }
+
+  /**
+   * Submit an order. Market orders (and limit orders at a marketable price) fill immediately, other orders rest until a price event matches them.
+   *
+   * Returns the order as last applied to the store. Reduce-only orders without a position to reduce, and market orders without a price, are rejected.
+   */
+  submitOrder(request: PaperOrderRequest): EngineOrder {
+    if (!PAPER_ORDER_TYPES.includes(request.orderType)) {
+      throw new Error(
+        `PaperTradingEngine: unsupported order type ${request.orderType}`,
+      );
+    }
+    if (!(request.originalQuantity > 0)) {
+      throw new Error(
+        `PaperTradingEngine: invalid order quantity ${request.originalQuantity}`,
+      );
+    }
+
+    const { callbackRate, ...orderFields } = request;
+    const nowMs = this.getTimeMs();
+    const order: EngineOrder = {
+      ...orderFields,
+      exchangeOrderId:
+        request.exchangeOrderId ||
+        `${this.options.orderIdPrefix}${++this.orderSeq}`,
+      status: 'NEW',
+      executedQuantity: 0,
+      averagePrice: 0,
+      cumulativeFee: 0,
+      feeAsset: this.store.getSettleAsset(request.symbol),
+      createdAtMs: nowMs,
+      updatedAtMs: nowMs,
+    };
+
+    const price = this.store.getPrice(order.symbol, this.options.priceType);
+    if (
+      (order.isreduceOnly && !this.getReducibleQty(order)) ||
+      (order.orderType === 'MARKET' && !price)
+    ) {
+      return this.updateOrder(order, { status: 'REJECTED' });
+    }
+
+    this.store.upsertActiveOrder(order);
+    const state: PaperOrderState = {
+      order,
+      callbackRate: callbackRate ?? this.options.trailingStopCallbackRate,
+    };
+
+    const matched = price ? this.matchOrder(state, price, true) : undefined;
+    if (matched) {
+      return matched;
+    }
+
+    this.openOrders.set(order.exchangeOrderId, state);
+    return { ...state.order };
+  }
+
+  /** Cancel a resting order. Returns the cancelled order, or undefined if there's no open order with this ID. */
+  cancelOrder(exchangeOrderId: string): EngineOrder | undefined {
+    const state = this.openOrders.get(exchangeOrderId);
+    if (!state) {
+      return undefined;
+    }
+
+    this.openOrders.delete(exchangeOrderId);
+    return this.updateOrder(state.order, { status: 'CANCELLED' });
+  }
+
+  /** Cancel all resting orders, optionally for one symbol */
+  cancelAllOrders(symbol?: string): EngineOrder[] {
+    return this.getOpenOrders(symbol)
+      .map((order) => this.cancelOrder(order.exchangeOrderId))
+      .filter((order): order is EngineOrder => !!order);
+  }
+
+  /** Get resting orders, optionally for one symbol */
+  getOpenOrders(symbol?: string): EngineOrder[] {
+    return Array.from(this.openOrders.values())
+      .map((state) => ({ ...state.order }))
+      .filter((order) => symbol === undefined || order.symbol === symbol);
+  }
+
+  /**
+   * Process a price event: the event is passed on to the store (for UPNL), and resting orders for the symbol are matched against it.
+   */
+  processPriceEvent(event: IncomingPriceEvent): void {
+    const timestampMs = event.timestampMs ?? Date.now();
+    this.clockMs = Math.max(this.clockMs ?? timestampMs, timestampMs);
+    this.store.processPriceEvent({ ...event, timestampMs });
+
+    const priceType = event.priceType || ENGINE_PRICE_TYPE.LAST;
+    if (priceType !== this.options.priceType) {
+      return;
+    }
+
+    for (const state of Array.from(this.openOrders.values())) {
+      if (state.order.symbol !== event.symbol) {
+        continue;
+      }
+      if (this.matchOrder(state, event.price, false)) {
+        this.openOrders.delete(state.order.exchangeOrderId);
+      }
+    }
+  }
+
+  /** Fill the order if it matches at this price. Returns the updated order, or undefined if it's still resting. */
+  private matchOrder(
+    state: PaperOrderState,
+    price: number,
+    isNewOrder: boolean,
+  ): EngineOrder | undefined {
+    const { order } = state;
+    const isBuy = order.orderSide === 'BUY';
+
+    switch (order.orderType) {
+      case 'MARKET':
+        return this.fillOrder(order, this.getSlippedPrice(order, price), false);
+      case 'LIMIT': {
+        const isMarketable = isBuy
+          ? price <= order.price
+          : price >= order.price;
+        if (!isMarketable) {
+          return undefined;
+        }
+        // A limit order crossing the market on submission takes liquidity at the market price
+        return isNewOrder
+          ? this.fillOrder(order, price, false)
+          : this.fillOrder(order, order.price, true);
+      }
+      case 'STOP_MARKET':
+      case 'TAKE_PROFIT_MARKET': {
+        const triggerPrice = order.triggerPrice || order.price;
+        const isStop = order.orderType === 'STOP_MARKET';
+        // Stops trigger when the price moves against the order side, take profits when it moves in favour
+        const isTriggered =
+          isBuy === isStop ? price >= triggerPrice : price <= triggerPrice;
+        return isTriggered
+          ? this.fillOrder(order, this.getSlippedPrice(order, price), false)
+          : undefined;
+      }
+      case 'TRAILING_STOP_MARKET':
+        return this.updateTrailingStop(state, price)
+          ? this.fillOrder(order, this.getSlippedPrice(order, price), false)
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Track the best price for a trailing stop. Returns true once the price retraced by the callback rate.
+   *
+   * If the order has a trigger price, trailing only starts once the price reaches it (the activation price).
+   */
+  private updateTrailingStop(state: PaperOrderState, price: number): boolean {
+    const isBuy = state.order.orderSide === 'BUY';
+    const activationPrice = state.order.triggerPrice;
+
+    if (state.trailingExtremePrice === undefined) {
+      const isActivated =
+        !activationPrice ||
+        (isBuy ? price <= activationPrice : price >= activationPrice);
+      if (!isActivated) {
+        return false;
+      }
+      state.trailingExtremePrice = price;
+    }
+
+    // A sell trailing stop follows the highest price, a buy trailing stop the lowest
+    state.trailingExtremePrice = isBuy
+      ? Math.min(state.trailingExtremePrice, price)
+      : Math.max(state.trailingExtremePrice, price);
+
+    return isBuy
+      ? price >= state.trailingExtremePrice * (1 + state.callbackRate)
+      : price <= state.trailingExtremePrice * (1 - state.callbackRate);
+  }
+
+  private getSlippedPrice(order: EngineOrder, price: number): number {
+    const direction = order.orderSide === 'BUY' ? 1 : -1;
+    return price * (1 + direction * this.options.slippage);
+  }
+
+  /** Position quantity a reduce-only order can still close */
+  private getReducibleQty(order: EngineOrder): number {
+    const reduceSide =
+      order.positionSide !== 'NONE'
+        ? order.positionSide
+        : order.orderSide === 'BUY'
+        ? 'SHORT'
+        : 'LONG';
+    const position = this.store.getActivePosition(order.symbol, reduceSide);
+    return Math.abs(position?.assetQty || 0);
+  }
+
+  /**
+   * Fill the remaining quantity of an order, and book the realised PnL & fee to the wallet balance.
+   *
+   * Reduce-only orders fill up to the position quantity, and expire with any remaining quantity. Returns the updated order.
+   */
+  private fillOrder(
+    order: EngineOrder,
+    fillPrice: number,
+    isMaker: boolean,
+  ): EngineOrder {
+    const remainingQty = order.originalQuantity - order.executedQuantity;
+    const fillQty = order.isreduceOnly
+      ? Math.min(remainingQty, this.getReducibleQty(order))
+      : remainingQty;
+
+    if (!fillQty) {
+      return this.updateOrder(order, { status: 'EXPIRED' });
+    }
+
+    const feeRate = isMaker
+      ? this.options.makerFeeRate
+      : this.options.takerFeeRate;
+    const fee =
+      getContractPositionValue(
+        this.store.getContractSpec(order.symbol),
+        fillPrice,
+        fillQty,
+      ) * feeRate;
+    const executedQuantity = order.executedQuantity + fillQty;
+
+    const settleAsset = this.store.getSettleAsset(order.symbol);
+    const pnlBefore = this.store.getRealisedPnl(order.symbol).netRealisedPnl;
+    const updated = this.updateOrder(order, {
+      status: fillQty < remainingQty ? 'EXPIRED' : 'FILLED',
+      executedQuantity,
+      averagePrice:
+        (order.averagePrice * order.executedQuantity + fillPrice * fillQty) /
+        executedQuantity,
+      cumulativeFee: (order.cumulativeFee || 0) + fee,
+      isMaker,
+    });
+    const pnlDelta =
+      this.store.getRealisedPnl(order.symbol).netRealisedPnl - pnlBefore;
+
+    this.store.setWalletBalance(
+      this.store.getWalletBalance(settleAsset) + pnlDelta,
+      settleAsset,
+    );
+    return updated;
+  }
+
+  /** Apply an order update to the store */
+  private updateOrder(
+    order: EngineOrder,
+    update: Partial<EngineOrder>,
+  ): EngineOrder {
+    const updated: EngineOrder = {
+      ...order,
+      ...update,
+      updatedAtMs: this.getTimeMs(),
+    };
+    this.store.upsertActiveOrder(updated);
+    return { ...updated };
+  }
+}
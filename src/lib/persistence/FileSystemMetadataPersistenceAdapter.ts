@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { hasProp } from '../misc/error.js';
+import {
+  MetadataPersistenceAdapter,
+  SymbolMetadataState,
+} from '../types/persistence.js';
+
+/**
+ * Persists position metadata as a JSON file.
+ *
+ * Writes are atomic: data is written to a temporary file in the same directory, which is then renamed over the target file.
+ * A crash mid-write will therefore never leave a half-written (corrupt) metadata file behind.
+ */
+export class FileSystemMetadataPersistenceAdapter<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> implements MetadataPersistenceAdapter<TEnginePositionMetadata>
+{
+  private filePath: string;
+
+  private writeCounter = 0;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<
+    SymbolMetadataState<TEnginePositionMetadata> | undefined
+  > {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (e) {
+      // Nothing persisted yet
+      if (hasProp(e, 'code') && e.code === 'ENOENT') {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  async save(
+    data: SymbolMetadataState<TEnginePositionMetadata>,
+  ): Promise<void> {
+    const tmpFilePath = `${this.filePath}.${process.pid}.${this
+      .writeCounter++}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    try {
+      await fs.writeFile(tmpFilePath, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tmpFilePath, this.filePath);
+    } catch (e) {
+      await fs.rm(tmpFilePath, { force: true });
+      throw e;
+    }
+  }
+}
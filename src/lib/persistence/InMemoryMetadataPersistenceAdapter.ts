@@ -0,0 +1,42 @@
+import {
+  MetadataPersistenceAdapter,
+  SymbolMetadataState,
+} from '../types/persistence.js';
+
+/**
+ * Keeps a serialised copy of position metadata in memory.
+ *
+ * Useful for tests, or to share metadata between store instances in the same process.
+ */
+export class InMemoryMetadataPersistenceAdapter<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> implements MetadataPersistenceAdapter<TEnginePositionMetadata>
+{
+  private serialisedState: string | undefined;
+
+  constructor(initialState?: SymbolMetadataState<TEnginePositionMetadata>) {
+    if (initialState) {
+      this.serialisedState = JSON.stringify(initialState);
+    }
+  }
+
+  async load(): Promise<
+    SymbolMetadataState<TEnginePositionMetadata> | undefined
+  > {
+    if (this.serialisedState === undefined) {
+      return undefined;
+    }
+    return JSON.parse(this.serialisedState);
+  }
+
+  async save(
+    data: SymbolMetadataState<TEnginePositionMetadata>,
+  ): Promise<void> {
+    this.serialisedState = JSON.stringify(data);
+  }
+
+  /** Remove anything persisted so far */
+  clear(): void {
+    this.serialisedState = undefined;
+  }
+}
@@ -0,0 +1,179 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { sanitiseError } from '../misc/error.js';
+import {
+  MetadataPersistenceAdapter,
+  MetadataPersistenceSchedulerOptions,
+} from '../types/persistence.js';
+
+/**
+ * Automatically persists position metadata via a persistence adapter, whenever it changes.
+ *
+ * - Call restore() once during startup, before resuming any trading logic.
+ * - Call start() to begin persisting changes. Saves are debounced, so a burst of metadata changes results in one write.
+ * - The store's "pending persist" flag is cleared after a successful save (unless metadata changed again while saving).
+ * - Failed saves are logged and retried.
+ */
+export class MetadataPersistenceScheduler<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private adapter: MetadataPersistenceAdapter<TEnginePositionMetadata>;
+
+  private options: Required<MetadataPersistenceSchedulerOptions>;
+
+  private unsubscribe: (() => void) | undefined;
+
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** When the first change that hasn't been persisted yet was seen */
+  private firstPendingChangeAt: number | undefined;
+
+  /** Incremented on every metadata change, to detect changes made while a save was in flight */
+  private changeCounter = 0;
+
+  private inFlightFlush: Promise<void> | undefined;
+
+  constructor(
+    store: AccountStateStore<TEnginePositionMetadata>,
+    adapter: MetadataPersistenceAdapter<TEnginePositionMetadata>,
+    options: MetadataPersistenceSchedulerOptions = {},
+  ) {
+    this.store = store;
+    this.adapter = adapter;
+    this.options = {
+      debounceMs: 250,
+      maxWaitMs: 5000,
+      retryDelayMs: 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Load persisted metadata into the store, overwriting any metadata currently in the store.
+   *
+   * @returns true if any persisted metadata was found
+   */
+  async restore(): Promise<boolean> {
+    const persistedData = await this.adapter.load();
+    if (!persistedData || typeof persistedData !== 'object') {
+      return false;
+    }
+
+    this.store.setAllSymbolMetadata(persistedData);
+    // Nothing to persist, this is what was persisted
+    this.store.setIsPendingPersist(false);
+    return true;
+  }
+
+  /** Start persisting metadata whenever it changes */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = this.store.on('metadataChanged', () => {
+      this.changeCounter++;
+      this.scheduleFlush(this.options.debounceMs);
+    });
+
+    // Something may have changed before we started listening
+    if (this.store.isPendingPersist()) {
+      this.scheduleFlush(this.options.debounceMs);
+    }
+  }
+
+  /** Stop persisting metadata changes. Call flush() afterwards to persist anything still pending. */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.clearFlushTimer();
+    this.firstPendingChangeAt = undefined;
+  }
+
+  isRunning(): boolean {
+    return !!this.unsubscribe;
+  }
+
+  /**
+   * Immediately persist metadata, if anything is pending. Resolves once persisted.
+   *
+   * Unlike scheduled flushes, this rejects if the save fails.
+   */
+  async flush(): Promise<void> {
+    this.clearFlushTimer();
+
+    // Never run saves in parallel, wait for the current one before checking again
+    while (this.inFlightFlush) {
+      await this.inFlightFlush;
+    }
+
+    if (!this.store.isPendingPersist()) {
+      this.firstPendingChangeAt = undefined;
+      return;
+    }
+
+    const changeCounterAtSave = this.changeCounter;
+    this.inFlightFlush = this.adapter.save(this.store.getAllSymbolMetadata());
+
+    try {
+      await this.inFlightFlush;
+    } finally {
+      this.inFlightFlush = undefined;
+    }
+
+    if (changeCounterAtSave === this.changeCounter) {
+      this.store.setIsPendingPersist(false);
+      this.firstPendingChangeAt = undefined;
+    }
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    const now = Date.now();
+    if (this.firstPendingChangeAt === undefined) {
+      this.firstPendingChangeAt = now;
+    }
+
+    const maxWaitRemaining = Math.max(
+      0,
+      this.firstPendingChangeAt + this.options.maxWaitMs - now,
+    );
+
+    this.clearFlushTimer();
+    this.flushTimer = setTimeout(
+      () => this.runScheduledFlush(),
+      Math.min(delayMs, maxWaitRemaining),
+    );
+  }
+
+  private async runScheduledFlush(): Promise<void> {
+    this.flushTimer = undefined;
+
+    try {
+      await this.flush();
+    } catch (e) {
+      console.error(
+        `MetadataPersistenceScheduler: exception persisting position metadata, will retry: ${sanitiseError(
+          e,
+        )}`,
+      );
+      if (this.isRunning()) {
+        this.firstPendingChangeAt = undefined;
+        this.scheduleFlush(this.options.retryDelayMs);
+      }
+      return;
+    }
+
+    // Metadata changed while we were saving
+    if (this.isRunning() && this.store.isPendingPersist() && !this.flushTimer) {
+      this.scheduleFlush(this.options.debounceMs);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { EngineAssetBalance } from '../types/balance.js';
+import { EngineOrder } from '../types/order.js';
+import { EnginePositionSide, EngineSimplePosition } from '../types/position.js';
+import {
+  BalanceReconcileDiff,
+  OrderReconcileDiff,
+  PositionReconcileDiff,
+} from '../types/reconcile.js';
+
+/** Default relative tolerance when comparing numbers during reconciliation */
+export const DEFAULT_RECONCILE_TOLERANCE = 1e-9;
+
+/** Compare two numbers with a relative tolerance */
+export function isWithinTolerance(
+  a: number,
+  b: number,
+  tolerance: number = DEFAULT_RECONCILE_TOLERANCE,
+): boolean {
+  const scale = Math.max(Math.abs(a), Math.abs(b), 1);
+  return Math.abs(a - b) <= tolerance * scale;
+}
+
+/**
+ * Diff positions in the store against positions on the exchange.
+ *
+ * @param getStorageSide maps a position's side to the side it is stored under (e.g. NONE in one-way mode)
+ */
+export function diffPositions(
+  local: EngineSimplePosition[],
+  remote: EngineSimplePosition[],
+  getStorageSide: (side: EnginePositionSide) => EnginePositionSide,
+  qtyTolerance?: number,
+  priceTolerance?: number,
+): PositionReconcileDiff[] {
+  const getKey = (position: EngineSimplePosition) =>
+    `${position.symbol}:${getStorageSide(position.positionSide)}`;
+
+  const localByKey = new Map(local.map((pos) => [getKey(pos), pos]));
+  const remoteByKey = new Map(
+    remote.filter((pos) => pos.assetQty).map((pos) => [getKey(pos), pos]),
+  );
+
+  const diffs: PositionReconcileDiff[] = [];
+  for (const [key, remotePosition] of remoteByKey) {
+    const localPosition = localByKey.get(key);
+    const side = getStorageSide(remotePosition.positionSide);
+    const base = {
+      symbol: remotePosition.symbol,
+      side,
+      local: localPosition,
+      remote: remotePosition,
+    };
+
+    if (!localPosition) {
+      diffs.push({ type: 'missing', ...base });
+    } else if (
+      !isWithinTolerance(
+        localPosition.assetQty,
+        remotePosition.assetQty,
+        qtyTolerance,
+      )
+    ) {
+      diffs.push({ type: 'quantityMismatch', ...base });
+    } else if (
+      !isWithinTolerance(
+        localPosition.positionPrice,
+        remotePosition.positionPrice,
+        priceTolerance,
+      )
+    ) {
+      diffs.push({ type: 'priceMismatch', ...base });
+    }
+  }
+
+  for (const [key, localPosition] of localByKey) {
+    if (!remoteByKey.has(key)) {
+      diffs.push({
+        type: 'unexpected',
+        symbol: localPosition.symbol,
+        side: getStorageSide(localPosition.positionSide),
+        local: localPosition,
+        remote: undefined,
+      });
+    }
+  }
+
+  return diffs;
+}
+
+/** Diff orders in the store against open orders on the exchange */
+export function diffOrders(
+  local: EngineOrder[],
+  remote: EngineOrder[],
+  qtyTolerance?: number,
+  priceTolerance?: number,
+): OrderReconcileDiff[] {
+  const localById = new Map(
+    local.map((order) => [order.exchangeOrderId, order]),
+  );
+  const remoteById = new Map(
+    remote.map((order) => [order.exchangeOrderId, order]),
+  );
+
+  const diffs: OrderReconcileDiff[] = [];
+  for (const [orderId, remoteOrder] of remoteById) {
+    const localOrder = localById.get(orderId);
+    const base = {
+      exchangeOrderId: orderId,
+      symbol: remoteOrder.symbol,
+      local: localOrder,
+      remote: remoteOrder,
+    };
+
+    if (!localOrder) {
+      diffs.push({ type: 'missing', ...base });
+    } else if (
+      !isWithinTolerance(
+        localOrder.originalQuantity,
+        remoteOrder.originalQuantity,
+        qtyTolerance,
+      ) ||
+      !isWithinTolerance(
+        localOrder.executedQuantity,
+        remoteOrder.executedQuantity,
+        qtyTolerance,
+      )
+    ) {
+      diffs.push({ type: 'quantityMismatch', ...base });
+    } else if (
+      !isWithinTolerance(localOrder.price, remoteOrder.price, priceTolerance)
+    ) {
+      diffs.push({ type: 'priceMismatch', ...base });
+    }
+  }
+
+  for (const [orderId, localOrder] of localById) {
+    if (!remoteById.has(orderId)) {
+      diffs.push({
+        type: 'staleOrder',
+        exchangeOrderId: orderId,
+        symbol: localOrder.symbol,
+        local: localOrder,
+        remote: undefined,
+      });
+    }
+  }
+
+  return diffs;
+}
+
+/** Diff asset balances in the store against balances on the exchange. Only wallet balances are compared. */
+export function diffBalances(
+  local: EngineAssetBalance[],
+  remote: EngineAssetBalance[],
+  balanceTolerance?: number,
+): BalanceReconcileDiff[] {
+  const localByAsset = new Map(
+    local.map((balance) => [balance.asset, balance]),
+  );
+  const remoteByAsset = new Map(
+    remote.map((balance) => [balance.asset, balance]),
+  );
+
+  const diffs: BalanceReconcileDiff[] = [];
+  for (const [asset, remoteBalance] of remoteByAsset) {
+    const localBalance = localByAsset.get(asset);
+    if (!localBalance) {
+      diffs.push({
+        type: 'missing',
+        asset,
+        local: undefined,
+        remote: remoteBalance,
+      });
+    } else if (
+      !isWithinTolerance(
+        localBalance.walletBalance,
+        remoteBalance.walletBalance,
+        balanceTolerance,
+      )
+    ) {
+      diffs.push({
+        type: 'quantityMismatch',
+        asset,
+        local: localBalance,
+        remote: remoteBalance,
+      });
+    }
+  }
+
+  for (const [asset, localBalance] of localByAsset) {
+    if (!remoteByAsset.has(asset)) {
+      diffs.push({
+        type: 'unexpected',
+        asset,
+        local: localBalance,
+        remote: undefined,
+      });
+    }
+  }
+
+  return diffs;
+}
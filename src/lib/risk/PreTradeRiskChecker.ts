@@ -0,0 +1,369 @@
+import {
+  AccountStateStore,
+  getOrderPositionSide,
+} from '../../AccountStateStore.js';
+import { getContractPositionValue } from '../../util/math.js';
+import { getDepthPercentForAllPositions } from '../../util/position.math.js';
+import { EngineOrder, EnginePendingOrder } from '../types/order.js';
+import { EnginePositionSide, EngineSimplePosition } from '../types/position.js';
+import {
+  PRE_TRADE_RISK_RULE,
+  PreTradeOrder,
+  PreTradeRiskLimits,
+  PreTradeRiskResult,
+  PreTradeRiskViolation,
+} from '../types/risk.js';
+
+/**
+ * Rules-based pre-trade risk checks: evaluates a proposed order against limits & the current state of an AccountStateStore.
+ *
+ * Checks don't change any state, so orders should be checked right before they're sent (e.g. before registerOrderIntent()).
+ */
+export class PreTradeRiskChecker<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private limits: PreTradeRiskLimits<TEnginePositionMetadata>;
+
+  constructor(
+    store: AccountStateStore<TEnginePositionMetadata>,
+    limits: PreTradeRiskLimits<TEnginePositionMetadata> = {},
+  ) {
+    this.store = store;
+    this.limits = limits;
+  }
+
+  getLimits(): PreTradeRiskLimits<TEnginePositionMetadata> {
+    return this.limits;
+  }
+
+  setLimits(limits: PreTradeRiskLimits<TEnginePositionMetadata>): void {
+    this.limits = limits;
+  }
+
+  /** Check an order against all configured limits, returning every violated rule */
+  check(order: PreTradeOrder): PreTradeRiskResult {
+    const { symbol } = order;
+    const reasons: PreTradeRiskViolation[] = [];
+    this.checkSymbolOwnership(symbol, reasons);
+
+    const positionSide = getOrderPositionSide(
+      order,
+      this.store.getPositionMode(),
+    );
+    const position = this.store.getActivePosition(symbol, positionSide);
+    const positionQty = position?.assetQty || 0;
+    const price = order.price || this.store.getPrice(symbol);
+
+    const direction = order.orderSide === 'BUY' ? 1 : -1;
+
+    // Reduce-only orders can only bring the position closer to zero, and leave it unchanged if they face the same way
+    if (order.isreduceOnly) {
+      const projectedPositionQty =
+        Math.sign(positionQty) === -direction
+          ? Math.sign(positionQty) *
+            Math.max(0, Math.abs(positionQty) - order.quantity)
+          : positionQty;
+
+      return {
+        allowed: !reasons.length,
+        reasons,
+        positionSide,
+        projectedPositionQty,
+        projectedPositionNotional: price
+          ? this.getPositionNotional(symbol, price, projectedPositionQty)
+          : undefined,
+        projectedDepthPercent: undefined,
+      };
+    }
+
+    const projectedPositionQty =
+      positionQty +
+      direction * (order.quantity + this.getOpenOrderQty(order, positionSide));
+    const projectedPositionNotional = price
+      ? this.getPositionNotional(symbol, price, projectedPositionQty)
+      : undefined;
+
+    const maxPositionNotional =
+      this.limits.maxPositionNotionalBySymbol?.[symbol] ??
+      this.limits.maxPositionNotional;
+    const needsPrice =
+      maxPositionNotional !== undefined ||
+      this.limits.maxDepthPercent !== undefined;
+
+    if (!price && needsPrice) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.MISSING_PRICE,
+        message: `No price available for ${symbol}`,
+      });
+    }
+
+    if (
+      maxPositionNotional !== undefined &&
+      projectedPositionNotional !== undefined &&
+      projectedPositionNotional > maxPositionNotional
+    ) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.MAX_POSITION_NOTIONAL,
+        message: `Position notional for ${symbol} would be ${projectedPositionNotional}, above the max of ${maxPositionNotional}`,
+        limit: maxPositionNotional,
+        value: projectedPositionNotional,
+      });
+    }
+
+    const leverage = order.leverage ?? this.store.getSymbolLeverage(symbol);
+    let projectedDepthPercent: number | undefined;
+    if (this.limits.maxDepthPercent !== undefined && price) {
+      projectedDepthPercent = this.getProjectedDepthPercent(
+        symbol,
+        position,
+        projectedPositionQty,
+        price,
+        leverage,
+      );
+
+      if (projectedDepthPercent > this.limits.maxDepthPercent) {
+        reasons.push({
+          rule: PRE_TRADE_RISK_RULE.MAX_DEPTH_PERCENT,
+          message: `Account depth would be ${projectedDepthPercent}%, above the max of ${this.limits.maxDepthPercent}%`,
+          limit: this.limits.maxDepthPercent,
+          value: projectedDepthPercent,
+        });
+      }
+    }
+
+    if (
+      this.limits.maxLeverage !== undefined &&
+      leverage !== undefined &&
+      leverage > this.limits.maxLeverage
+    ) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.MAX_LEVERAGE,
+        message: `Leverage for ${symbol} is ${leverage}, above the max of ${this.limits.maxLeverage}`,
+        limit: this.limits.maxLeverage,
+        value: leverage,
+      });
+    }
+
+    if (!positionQty) {
+      this.checkNewPosition(symbol, positionSide, reasons);
+    }
+
+    return {
+      allowed: !reasons.length,
+      reasons,
+      positionSide,
+      projectedPositionQty,
+      projectedPositionNotional,
+      projectedDepthPercent,
+    };
+  }
+
+  /** Shorthand for check(order).allowed */
+  isAllowed(order: PreTradeOrder): boolean {
+    return this.check(order).allowed;
+  }
+
+  private checkSymbolOwnership(
+    symbol: string,
+    reasons: PreTradeRiskViolation[],
+  ): void {
+    const ownership = this.limits.symbolOwnership;
+    if (!ownership) {
+      return;
+    }
+
+    const owner = this.store.getSymbolMetadata(symbol)?.[ownership.metadataKey];
+    if (owner !== undefined && owner !== ownership.ownerId) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.SYMBOL_OWNERSHIP,
+        message: `${symbol} is claimed by ${String(owner)}`,
+      });
+    }
+  }
+
+  /** Rules for orders that would open a new position */
+  private checkNewPosition(
+    symbol: string,
+    positionSide: EnginePositionSide,
+    reasons: PreTradeRiskViolation[],
+  ): void {
+    const { maxOpenPositions, maxHedgedPositions } = this.limits;
+    if (maxOpenPositions === undefined && maxHedgedPositions === undefined) {
+      return;
+    }
+
+    const positions = this.store.getAllPositions();
+    const total = positions.filter((position) => position.assetQty).length;
+    if (maxOpenPositions !== undefined && total >= maxOpenPositions) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.MAX_OPEN_POSITIONS,
+        message: `Opening a position on ${symbol} would exceed the max of ${maxOpenPositions} open positions`,
+        limit: maxOpenPositions,
+        value: total + 1,
+      });
+    }
+
+    const oppositeSide = positionSide === 'LONG' ? 'SHORT' : 'LONG';
+    if (
+      maxHedgedPositions === undefined ||
+      positionSide === 'NONE' ||
+      !this.store.isSymbolSideInPosition(symbol, oppositeSide)
+    ) {
+      return;
+    }
+
+    // Symbols with both a long & a short position
+    const hedgedSymbols = new Set(
+      positions
+        .map((position) => position.symbol)
+        .filter(
+          (positionSymbol) =>
+            this.store.isSymbolSideInPosition(positionSymbol, 'LONG') &&
+            this.store.isSymbolSideInPosition(positionSymbol, 'SHORT'),
+        ),
+    );
+    const totalHedged = hedgedSymbols.size;
+    if (totalHedged >= maxHedgedPositions) {
+      reasons.push({
+        rule: PRE_TRADE_RISK_RULE.MAX_HEDGED_POSITIONS,
+        message: `Hedging ${symbol} would exceed the max of ${maxHedgedPositions} hedged positions`,
+        limit: maxHedgedPositions,
+        value: totalHedged + 1,
+      });
+    }
+  }
+
+  /** Remaining quantity of open & pending orders that would increase the same position as this order */
+  private getOpenOrderQty(
+    order: PreTradeOrder,
+    positionSide: EnginePositionSide,
+  ): number {
+    if (this.limits.includeOpenOrders === false) {
+      return 0;
+    }
+
+    const orders: (EngineOrder | EnginePendingOrder)[] = [
+      ...this.store.getOrdersForSymbolSide(order.symbol, order.orderSide),
+      ...this.store
+        .getPendingOrders(order.symbol)
+        .filter((pending) => pending.orderSide === order.orderSide),
+    ];
+
+    return orders
+      .filter(
+        (openOrder) =>
+          !openOrder.isreduceOnly &&
+          getOrderPositionSide(openOrder, this.store.getPositionMode()) ===
+            positionSide,
+      )
+      .reduce(
+        (sum, openOrder) =>
+          sum +
+          Math.max(0, openOrder.originalQuantity - openOrder.executedQuantity),
+        0,
+      );
+  }
+
+  private getPositionNotional(
+    symbol: string,
+    price: number,
+    positionQty: number,
+  ): number {
+    return getContractPositionValue(
+      this.store.getContractSpec(symbol),
+      price,
+      positionQty,
+    );
+  }
+
+  /** Total depth percentage, with the affected position replaced by the projected position */
+  private getProjectedDepthPercent(
+    symbol: string,
+    position: EngineSimplePosition | undefined,
+    projectedPositionQty: number,
+    price: number,
+    leverage: number | undefined,
+  ): number {
+    const positions = this.store
+      .getAllPositions()
+      .filter((activePosition) => activePosition !== position);
+
+    if (projectedPositionQty) {
+      positions.push(
+        this.getProjectedPosition(
+          symbol,
+          position,
+          projectedPositionQty,
+          price,
+        ),
+      );
+    }
+
+    const leverageCache = { ...this.store.getSymbolLeverageCache() };
+    if (leverage !== undefined) {
+      leverageCache[symbol] = leverage;
+    }
+
+    const quoteAsset = this.store.getQuoteAsset();
+    return getDepthPercentForAllPositions(
+      positions,
+      this.store.getWalletBalance(quoteAsset),
+      leverageCache,
+      quoteAsset,
+      this.store.getDefaultMarginMode(),
+      this.store.getSymbolMarginModeCache(),
+    );
+  }
+
+  private getProjectedPosition(
+    symbol: string,
+    position: EngineSimplePosition | undefined,
+    projectedPositionQty: number,
+    price: number,
+  ): EngineSimplePosition {
+    const positionQty = position?.assetQty || 0;
+    const isSameDirection =
+      Math.sign(positionQty) === Math.sign(projectedPositionQty);
+
+    // Increasing averages the entry price, reducing keeps it, and opening or flipping enters at the order price
+    let positionPrice = price;
+    if (position && isSameDirection) {
+      positionPrice =
+        Math.abs(projectedPositionQty) > Math.abs(positionQty)
+          ? (Math.abs(positionQty) * position.positionPrice +
+              (Math.abs(projectedPositionQty) - Math.abs(positionQty)) *
+                price) /
+            Math.abs(projectedPositionQty)
+          : position.positionPrice;
+    }
+
+    const positionSide: EnginePositionSide =
+      position?.positionSide &&
+      position.positionSide !== 'NONE' &&
+      isSameDirection
+        ? position.positionSide
+        : projectedPositionQty > 0
+        ? 'LONG'
+        : 'SHORT';
+
+    return {
+      symbol,
+      timestampMs: Date.now(),
+      orderPositionSide: 'BOTH',
+      marginValue: 0,
+      liquidationPrice: 0,
+      stopLossPrice: undefined,
+      takeProfitPrice: undefined,
+      ...position,
+      positionSide,
+      positionPrice,
+      assetQty: projectedPositionQty,
+      value: this.getPositionNotional(symbol, price, projectedPositionQty),
+      valueUpnl: isSameDirection ? position?.valueUpnl || 0 : 0,
+      // The isolated margin will change with the quantity, so estimate it via leverage instead
+      isolatedMargin: undefined,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { DEFAULT_QUOTE_ASSET } from './types/balance.js';
+import {
+  ACCOUNT_STATE_SNAPSHOT_VERSION,
+  AccountStateSnapshot,
+  AccountStateSnapshotMigrations,
+  SnapshotMigrationContext,
+  VersionedSnapshot,
+} from './types/snapshot.js';
+
+/** Built-in migrations between snapshot schema versions, keyed by the version being migrated from */
+const BUILT_IN_SNAPSHOT_MIGRATIONS: AccountStateSnapshotMigrations = {
+  // v1 had a single wallet balance number, v2 has balances per asset
+  1: (snapshot, context) => {
+    const { balance, ...rest } = snapshot;
+    const walletBalance = typeof balance === 'number' ? balance : 0;
+
+    return {
+      ...rest,
+      version: 2,
+      balances: {
+        [context.quoteAsset]: {
+          asset: context.quoteAsset,
+          walletBalance,
+          availableBalance: walletBalance,
+          lockedBalance: 0,
+          equity: walletBalance,
+        },
+      },
+    };
+  },
+};
+
+/**
+ * Upgrade a snapshot of any older schema version to the current schema version, one version at a time.
+ *
+ * Throws if the snapshot is from a newer (unknown) schema version, or if no migration is available for an older version.
+ */
+export function migrateSnapshot<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+>(
+  snapshot: VersionedSnapshot,
+  customMigrations: AccountStateSnapshotMigrations = {},
+  context: SnapshotMigrationContext = { quoteAsset: DEFAULT_QUOTE_ASSET },
+): AccountStateSnapshot<TEnginePositionMetadata> {
+  if (!snapshot || typeof snapshot.version !== 'number') {
+    throw new Error(`Invalid snapshot: missing numeric "version" property`);
+  }
+
+  if (snapshot.version > ACCOUNT_STATE_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${snapshot.version} is newer than the latest supported version (${ACCOUNT_STATE_SNAPSHOT_VERSION})`,
+    );
+  }
+
+  const migrations = { ...BUILT_IN_SNAPSHOT_MIGRATIONS, ...customMigrations };
+
+  let migrated = snapshot;
+  while (migrated.version < ACCOUNT_STATE_SNAPSHOT_VERSION) {
+    const fromVersion = migrated.version;
+    const migration = migrations[fromVersion];
+    if (!migration) {
+      throw new Error(
+        `No migration available for snapshot version ${fromVersion}`,
+      );
+    }
+
+    migrated = migration(migrated, context);
+    if (migrated?.version !== fromVersion + 1) {
+      throw new Error(
+        `Snapshot migration from version ${fromVersion} did not return version ${
+          fromVersion + 1
+        }`,
+      );
+    }
+  }
+
+  return migrated as unknown as AccountStateSnapshot<TEnginePositionMetadata>;
+}
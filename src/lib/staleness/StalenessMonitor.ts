@@ -0,0 +1,47 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { IntervalTimer } from '../misc/IntervalTimer.js';
+import { StalenessMonitorOptions } from '../types/staleness.js';
+
+/**
+ * Periodically checks the store for stale prices & positions (see AccountStateStore.checkStaleness()).
+ *
+ * Subscribe to the store's "dataStale" & "dataRecovered" events to react to changes.
+ */
+export class StalenessMonitor<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  private store: AccountStateStore<TEnginePositionMetadata>;
+
+  private options: Required<StalenessMonitorOptions>;
+
+  private timer: IntervalTimer;
+
+  constructor(
+    store: AccountStateStore<TEnginePositionMetadata>,
+    options: StalenessMonitorOptions = {},
+  ) {
+    this.store = store;
+    this.options = {
+      intervalMs: 5000,
+      ...options,
+    };
+    this.timer = new IntervalTimer(
+      () => this.store.checkStaleness(),
+      this.options.intervalMs,
+      'StalenessMonitor: exception checking for stale data',
+    );
+  }
+
+  /** Start checking for stale data on an interval. The timer won't keep the process alive. */
+  start(): void {
+    this.timer.start();
+  }
+
+  stop(): void {
+    this.timer.stop();
+  }
+
+  isRunning(): boolean {
+    return this.timer.isRunning();
+  }
+}
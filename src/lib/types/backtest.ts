@@ -0,0 +1,134 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { PaperTradingEngine } from '../paper/PaperTradingEngine.js';
+import { PaperTradingEngineOptions } from './paper.js';
+import { EnginePositionSide } from './position.js';
+import { AccountStateStoreOptions } from './store.js';
+
+/**
+ * One row of price history: a candle, or a single price (only close is required).
+ */
+export interface BacktestPriceBar {
+  symbol: string;
+  /** Time of this bar. For candles, use the close time, so orders placed on a bar can't fill at its prices. */
+  timestampMs: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  /** Close price, or the price of a single price event */
+  close: number;
+  volume?: number;
+}
+
+export interface PriceHistoryParseOptions {
+  /** Symbol for rows without a symbol column/field, e.g. a single-symbol candle file */
+  symbol?: string;
+}
+
+export interface BacktestStrategyContext<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** The bar that just closed. All of its prices were already processed by the engine & store. */
+  bar: BacktestPriceBar;
+  /** Index of this bar in the (sorted) price history */
+  barIndex: number;
+  store: AccountStateStore<TEnginePositionMetadata>;
+  /** Place & cancel orders here. Orders fill against the prices of the following bars. */
+  engine: PaperTradingEngine<TEnginePositionMetadata>;
+}
+
+/** Called once per bar, after the bar's prices were processed. Can be async. */
+export type BacktestStrategy<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> = (
+  context: BacktestStrategyContext<TEnginePositionMetadata>,
+) => void | Promise<void>;
+
+export interface BacktestRunnerOptions<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** Wallet balance of the quote asset at the start of the backtest. Default: 10000 */
+  startingBalance?: number;
+  /** Options for the store. Positions are always derived from fills. */
+  storeOptions?: Omit<
+    AccountStateStoreOptions<TEnginePositionMetadata>,
+    'positionsFromFills'
+  >;
+  /** Options for the paper trading engine (fees, slippage, etc) */
+  paperTrading?: PaperTradingEngineOptions;
+  /**
+   * Process the open, high, low & close of each candle, in the order the price most likely moved (open, low, high, close for green candles).
+   *
+   * If false, only the close price is processed. Default: true
+   */
+  useIntrabarPrices?: boolean;
+  /** Close any open positions at the last price & cancel resting orders once all bars were processed. Default: true */
+  closePositionsAtEnd?: boolean;
+}
+
+/** Account value after one bar */
+export interface BacktestEquityPoint {
+  timestampMs: number;
+  walletBalance: number;
+  /** Wallet balance including unrealised PnL */
+  equity: number;
+  /** Drop in equity since the highest equity so far (always positive) */
+  drawdown: number;
+  /** Drawdown as a percentage of the highest equity so far */
+  drawdownPct: number;
+}
+
+/** One position, from when it opened until it closed (or flipped) */
+export interface BacktestTrade {
+  symbol: string;
+  side: EnginePositionSide;
+  openedAtMs: number;
+  closedAtMs: number;
+  /** Entry price of the position before the closing fill */
+  entryPrice: number;
+  /** Price of the closing fill */
+  exitPrice: number;
+  /** Largest (absolute) position quantity while this position was open */
+  maxQty: number;
+  /** Gross realised PnL */
+  realisedPnl: number;
+  fees: number;
+  funding: number;
+  /** Realised PnL after fees & funding */
+  netPnl: number;
+}
+
+export interface BacktestStats {
+  startingBalance: number;
+  finalBalance: number;
+  finalEquity: number;
+  /** Final equity - starting balance */
+  netPnl: number;
+  /** Net PnL as a percentage of the starting balance */
+  returnPct: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  /** Fees paid by all trades */
+  fees: number;
+  barCount: number;
+  tradeCount: number;
+  winCount: number;
+  lossCount: number;
+  /** Winning trades as a percentage of all trades. 0 without any trades. */
+  winRatePct: number;
+  averageWin: number;
+  averageLoss: number;
+  /** Sum of wins / sum of losses. Infinity if there were wins but no losses. */
+  profitFactor: number;
+  startedAtMs: number | undefined;
+  endedAtMs: number | undefined;
+}
+
+export interface BacktestResult<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  stats: BacktestStats;
+  equityCurve: BacktestEquityPoint[];
+  trades: BacktestTrade[];
+  /** The store at the end of the backtest, for any further analysis (fills, order archive, journal, etc) */
+  store: AccountStateStore<TEnginePositionMetadata>;
+}
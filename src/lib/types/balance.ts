@@ -0,0 +1,31 @@
+/** Quote asset used by the store if none is configured (see AccountStateStoreOptions.quoteAsset) */
+export const DEFAULT_QUOTE_ASSET = 'USDT';
+
+/** Balance state for one asset (e.g. USDT, USDC or BTC collateral in a unified account) */
+export interface EngineAssetBalance {
+  asset: string;
+  /** Wallet balance, excluding unrealised PnL */
+  walletBalance: number;
+  /** Balance available for new orders/positions or withdrawals */
+  availableBalance: number;
+  /** Balance locked as margin for open orders & positions */
+  lockedBalance: number;
+  /** Wallet balance including unrealised PnL */
+  equity: number;
+}
+
+/** A partial balance update. Any missing fields keep their previous value. */
+export type EngineAssetBalanceUpdate = Partial<
+  Omit<EngineAssetBalance, 'asset'>
+>;
+
+/** All asset balances, valued in one reporting asset via conversion prices */
+export interface EngineAggregateBalance {
+  reportingAsset: string;
+  walletBalance: number;
+  availableBalance: number;
+  lockedBalance: number;
+  equity: number;
+  /** Assets with a non-zero balance that could not be valued (no conversion price), and are excluded from the totals */
+  unpricedAssets: string[];
+}
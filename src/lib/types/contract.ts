@@ -0,0 +1,28 @@
+import { ValueOf } from './position.js';
+
+/**
+ * How a derivatives contract is quoted & settled:
+ * - linear: margined & settled in the quote asset (e.g. BTCUSDT perpetuals, settled in USDT)
+ * - inverse: margined & settled in the base asset (e.g. BTCUSD perpetuals, settled in BTC)
+ */
+export const ENGINE_CONTRACT_TYPE = {
+  LINEAR: 'linear',
+  INVERSE: 'inverse',
+} as const;
+
+export type EngineContractType = ValueOf<typeof ENGINE_CONTRACT_TYPE>;
+
+/** Contract specification for a symbol, used to compute position value, margin & UPNL */
+export interface EngineContractSpec {
+  symbol: string;
+  contractType: EngineContractType;
+  /**
+   * Size of one contract, as a multiplier for the position quantity.
+   *
+   * - linear: in the base asset (e.g. 0.001 BTC per contract). Use 1 if position quantities are already in the base asset.
+   * - inverse: in the quote asset (e.g. 100 USD per contract).
+   */
+  contractSize: number;
+  /** Asset that PnL & margin are settled in (e.g. USDT for BTCUSDT, BTC for BTCUSD inverse perpetuals) */
+  settleAsset: string;
+}
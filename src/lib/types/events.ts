@@ -1,4 +1,32 @@
+import { ValueOf } from './position.js';
+
+/** The kind of price carried by a price event */
+export const ENGINE_PRICE_TYPE = {
+  LAST: 'last',
+  MARK: 'mark',
+  INDEX: 'index',
+  BID: 'bid',
+  ASK: 'ask',
+} as const;
+
+export type EnginePriceType = ValueOf<typeof ENGINE_PRICE_TYPE>;
+
 export interface IncomingPriceEvent {
   symbol: string;
   price: number;
+  /** Which kind of price this is. Default: last */
+  priceType?: EnginePriceType;
+  /** When this price was seen (e.g. the exchange event time). Default: when the event is processed */
+  timestampMs?: number;
 }
+
+/** A cached price, with the time it was seen */
+export interface EngineTimestampedPrice {
+  price: number;
+  timestampMs: number;
+}
+
+/** Most recent price per price type, for one symbol */
+export type EngineSymbolPrices = Partial<
+  Record<EnginePriceType, EngineTimestampedPrice>
+>;
@@ -0,0 +1,118 @@
+import { EngineAssetBalanceUpdate } from './balance.js';
+import { EngineContractSpec } from './contract.js';
+import { IncomingPriceEvent } from './events.js';
+import { MaintenanceMarginBracket } from './liquidation.js';
+import { EngineFundingPayment, EngineTradingFee } from './ledger.js';
+import { EngineOrder, EnginePendingOrder } from './order.js';
+import { EngineOrderGroup } from './order-group.js';
+import {
+  EngineMarginMode,
+  EnginePositionMode,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from './position.js';
+import { ReconcileInput, ReconcileOptions } from './reconcile.js';
+import { EngineFillInput } from './simulation.js';
+import { VersionedSnapshot } from './snapshot.js';
+
+/** Every state mutation that can be applied to the AccountStateStore, as recorded in the journal */
+export type AccountStateMutation<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> =
+  | {
+      type: 'setActivePosition';
+      symbol: string;
+      side: EnginePositionSide;
+      position: EngineSimplePosition;
+    }
+  | { type: 'deleteActivePosition'; symbol: string; side: EnginePositionSide }
+  | { type: 'upsertActiveOrder'; order: EngineOrder }
+  | { type: 'deleteOrder'; orderId: string }
+  | { type: 'clearAllOrders' }
+  | { type: 'addPendingOrder'; order: EnginePendingOrder }
+  | {
+      type: 'linkPendingOrder';
+      customOrderId: string;
+      exchangeOrderId: string;
+      updatedAtMs: number;
+    }
+  | { type: 'removePendingOrder'; customOrderId: string }
+  | { type: 'expirePendingOrders'; nowMs: number }
+  | { type: 'setOrderGroup'; group: EngineOrderGroup }
+  | { type: 'deleteOrderGroup'; groupId: string }
+  | { type: 'applyFill'; fill: EngineFillInput }
+  | { type: 'processPriceEvent'; event: IncomingPriceEvent }
+  | { type: 'setWalletBalance'; balance: number; asset?: string }
+  | {
+      type: 'setAssetBalance';
+      asset: string;
+      balance: EngineAssetBalanceUpdate;
+    }
+  | { type: 'deleteAssetBalance'; asset: string }
+  | { type: 'setAssetConversionPrice'; asset: string; price: number }
+  | { type: 'setContractSpec'; contractSpec: EngineContractSpec }
+  | { type: 'reconcile'; input: ReconcileInput; options: ReconcileOptions }
+  | {
+      type: 'setMaintenanceMarginBrackets';
+      symbol: string;
+      brackets: MaintenanceMarginBracket[];
+    }
+  | { type: 'storePreviousBalance' }
+  | { type: 'setSymbolLeverage'; symbol: string; leverage: number }
+  | {
+      type: 'setAllSymbolMetadata';
+      metadata: Record<string, TEnginePositionMetadata | undefined>;
+    }
+  | {
+      type: 'setSymbolMetadata';
+      symbol: string;
+      metadata: TEnginePositionMetadata;
+    }
+  | {
+      type: 'setSymbolMetadataValue';
+      symbol: string;
+      key: keyof TEnginePositionMetadata;
+      value: unknown;
+    }
+  | { type: 'deletePositionMetadata'; symbol: string }
+  | { type: 'setIsPendingPersist'; value: boolean }
+  | { type: 'restoreSnapshot'; snapshot: VersionedSnapshot }
+  | { type: 'resetSession'; sessionStartMs: number }
+  | { type: 'recordTradingFee'; fee: EngineTradingFee }
+  | { type: 'recordFundingPayment'; payment: EngineFundingPayment }
+  | { type: 'setPositionMode'; positionMode: EnginePositionMode }
+  | {
+      type: 'setSymbolMarginMode';
+      symbol: string;
+      marginMode: EngineMarginMode;
+      side?: EnginePositionSide;
+    };
+
+export type AccountStateMutationType = AccountStateMutation['type'];
+
+/** One line in the journal: a mutation, with a sequence number and the time it was applied */
+export type AccountStateJournalEntry<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> = AccountStateMutation<TEnginePositionMetadata> & {
+  /** Incrementing sequence number, starting from 1 */
+  seq: number;
+  timestampMs: number;
+};
+
+export interface AccountStateJournalOptions<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** If set, each entry is appended (as one JSON line) to this file */
+  filePath?: string;
+  /** Keep all entries in memory (default: true). Disable for long-running processes that only need the journal file. */
+  keepInMemory?: boolean;
+  /** Called for each new journal entry */
+  onEntry?: (entry: AccountStateJournalEntry<TEnginePositionMetadata>) => void;
+}
+
+export interface AccountStateReplayOptions {
+  /** Stop after applying the entry with this sequence number */
+  untilSeq?: number;
+  /** Stop after applying the last entry with a timestamp at or before this time */
+  untilTime?: number;
+}
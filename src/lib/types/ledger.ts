@@ -0,0 +1,130 @@
+import { EngineContractSpec } from './contract.js';
+import { EngineOrder } from './order.js';
+import { EnginePositionSide } from './position.js';
+
+/** An incremental fill, derived from the change in executed quantity between two updates for the same order */
+export interface EngineFill {
+  /** Unique per fill: "{exchangeOrderId}:{fill number for this order}", or "{exchangeOrderId or symbol}:applied-{fill number}" for fills applied via AccountStateStore.applyFill() */
+  fillId: string;
+  exchangeOrderId: string;
+  customOrderId: string;
+  symbol: string;
+  orderSide: EngineOrder['orderSide'];
+  /** The position this fill was attributed to */
+  positionSide: EnginePositionSide;
+  /** Quantity filled by this fill (always positive) */
+  qty: number;
+  /** Average price of this fill */
+  price: number;
+  /** Part of this fill's quantity that reduced an existing position (always positive) */
+  closedQty: number;
+  /** Entry price of the position being reduced, if any quantity was closed */
+  closedEntryPrice: number | undefined;
+  /** Realised profit or loss of the closed quantity, in the settle asset (quote value for linear contracts) */
+  realisedPnl: number;
+  timestampMs: number;
+}
+
+/** Commission charged for a trade. Use a negative amount for rebates. */
+export interface EngineTradingFee {
+  symbol: string;
+  positionSide: EnginePositionSide;
+  /** Fee paid, in the fee asset. Negative for rebates. */
+  amount: number;
+  asset: string;
+  liquidity?: 'MAKER' | 'TAKER';
+  exchangeOrderId?: string;
+  timestampMs: number;
+}
+
+/** A funding payment for a perpetual contract position */
+export interface EngineFundingPayment {
+  symbol: string;
+  positionSide: EnginePositionSide;
+  /** Funding received, in the settlement asset. Negative if funding was paid. */
+  amount: number;
+  asset: string;
+  timestampMs: number;
+}
+
+/** Aggregated realised PnL, fees & funding for a set of fills */
+export interface RealisedPnlState {
+  /** Gross realised trading PnL, from fills that reduced a position */
+  realisedPnl: number;
+  /** Sum of trading fees paid in the settle asset (negative if rebates exceeded fees). Fees paid in other assets are only in feesByAsset. */
+  fees: number;
+  /** Sum of trading fees paid per fee asset, including the settle asset */
+  feesByAsset: Record<string, number>;
+  /** Sum of funding received (negative if funding was paid) */
+  funding: number;
+  /** Realised PnL after fees (in the settle asset) & funding: realisedPnl - fees + funding */
+  netRealisedPnl: number;
+  fillCount: number;
+  /** Sum of filled quantity */
+  filledQty: number;
+  /** Sum of filled quantity * fill price */
+  filledValue: number;
+}
+
+/** Realised PnL, fees & funding over the lifetime of one position (from open until it closed) */
+export interface PositionLifetimeState extends RealisedPnlState {
+  openedAtMs: number;
+  /** Set once the position closed. Late fills & fees for the closed position are still added to it. */
+  closedAtMs: number | undefined;
+}
+
+/** The last execution state seen for an order, used to compute the next incremental fill */
+export interface OrderExecutionCursor {
+  executedQuantity: number;
+  averagePrice: number;
+  /** Cumulative fee seen for this order so far */
+  cumulativeFee: number;
+  fillCount: number;
+}
+
+/** Current state of the position a fill is attributed to, right before the fill is applied */
+export interface FillPositionContext {
+  positionSide: EnginePositionSide;
+  /** Signed asset quantity of the position before this fill (0 if there is no position) */
+  assetQty: number;
+  /** Entry price of the position before this fill, if known */
+  entryPrice: number | undefined;
+  /** Contract spec for the symbol, if registered. Realised PnL is linear (in the quote asset) without one. */
+  contractSpec?: EngineContractSpec;
+  /**
+   * Resolve the quantity a fill closed & the PnL it realised, instead of the ledger's own estimate from the fields above.
+   *
+   * Set when positions are derived from fills, so fills always agree with the resulting position.
+   */
+  getFillResult?: (
+    fill: EngineFill,
+  ) => Pick<EngineFill, 'closedQty' | 'closedEntryPrice' | 'realisedPnl'>;
+}
+
+export interface FillLedgerOptions {
+  /** Maximum number of fills (and of fees & funding payments) to keep in memory. Aggregates are unaffected when old records are dropped. Default: 10000 */
+  maxFills?: number;
+  /** Maximum number of completed order IDs to remember, to ignore duplicate or late updates for completed orders. Default: 10000 */
+  maxTerminalOrders?: number;
+}
+
+export interface FillLedgerState {
+  fills: EngineFill[];
+  fees: EngineTradingFee[];
+  fundingPayments: EngineFundingPayment[];
+  /** Execution state of orders that can still fill */
+  orderCursors: Record<string, OrderExecutionCursor>;
+  /** Recently completed orders, oldest first. Missing in snapshots from older versions. */
+  completedOrderIds?: string[];
+  /** Number of fills recorded via AccountStateStore.applyFill(). Missing in snapshots from older versions. */
+  appliedFillCount?: number;
+  sessionStartMs: number;
+  sessionRealisedPnl: Record<
+    string,
+    Partial<Record<EnginePositionSide, RealisedPnlState>>
+  >;
+  positionLifetimes: Record<
+    string,
+    Partial<Record<EnginePositionSide, PositionLifetimeState>>
+  >;
+}
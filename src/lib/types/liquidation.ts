@@ -0,0 +1,52 @@
+import { EngineMarginMode, EnginePositionSide } from './position.js';
+
+/**
+ * One tier of a symbol's risk limit / maintenance margin brackets (e.g. Binance "leverage brackets", Bybit "risk limits").
+ */
+export interface MaintenanceMarginBracket {
+  /** Upper bound of this bracket, as position value in the settle asset. Omit for the last (unbounded) bracket. */
+  maxNotional?: number;
+  /** Maintenance margin rate for this bracket, e.g. 0.004 for 0.4% */
+  maintenanceMarginRate: number;
+  /** Amount deducted from the maintenance margin in this bracket (Binance "cum"), so it's continuous across brackets. Default: 0 */
+  maintenanceAmount?: number;
+  /** Max leverage allowed in this bracket, if known */
+  maxLeverage?: number;
+}
+
+/** Input for estimating the liquidation price of one position */
+export interface LiquidationPriceParams {
+  /** Signed position quantity (negative for short positions). In contracts, if a contract spec is used. */
+  positionQty: number;
+  entryPrice: number;
+  /** Margin backing this position: the isolated margin, or for cross margin, the collateral available to this position */
+  margin: number;
+  /** Maintenance margin brackets for this symbol. Maintenance margin is 0 without any brackets. */
+  brackets?: MaintenanceMarginBracket[];
+  /** Price used to pick the maintenance margin bracket (e.g. the mark price). Default: the entry price */
+  referencePrice?: number;
+}
+
+/** Estimated liquidation state for an active position */
+export interface LiquidationEstimate {
+  symbol: string;
+  side: EnginePositionSide;
+  marginMode: EngineMarginMode;
+  /** Asset that margin & PnL for this position are settled in */
+  settleAsset: string;
+  /** Price the estimate was made at (the most recent price of the UPNL price type) */
+  price: number;
+  /** Estimated liquidation price. Undefined if the position can't be liquidated (e.g. fully collateralised). */
+  liquidationPrice: number | undefined;
+  /** Liquidation price as reported by the exchange on the position, for comparison */
+  exchangeLiquidationPrice: number;
+  maintenanceMargin: number;
+  /** Margin backing this position, including unrealised PnL */
+  marginBalance: number;
+  /** Maintenance margin / margin balance. The position is liquidated when this reaches 1. */
+  marginRatio: number;
+  /** Absolute price distance to the estimated liquidation price */
+  distance: number | undefined;
+  /** Price distance to the estimated liquidation price, as a percentage of the current price */
+  distancePct: number | undefined;
+}
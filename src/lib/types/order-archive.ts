@@ -0,0 +1,45 @@
+import { EngineOrder } from './order.js';
+
+/** One status change in an order's lifecycle */
+export interface EngineOrderTransition {
+  status: EngineOrder['status'];
+  /** The order's update time, if known */
+  timestampMs: number;
+  /** Executed quantity at the time of this transition */
+  executedQuantity: number;
+}
+
+/** A terminal (filled, cancelled, expired or rejected) order, with every status it went through */
+export interface ArchivedOrder {
+  /** The last update seen for this order */
+  order: EngineOrder;
+  /** Status transitions, oldest first. Only includes transitions seen by the store. */
+  transitions: EngineOrderTransition[];
+  /** When the order reached a terminal status */
+  archivedAtMs: number;
+}
+
+export interface OrderArchiveOptions {
+  /** Maximum number of terminal orders to keep. The oldest orders are dropped first. Default: 1000 */
+  maxOrders?: number;
+  /** If set, terminal orders archived longer ago than this are dropped */
+  maxAgeMs?: number;
+}
+
+/** Filters for archived orders. All filters provided must match. */
+export interface OrderArchiveQuery {
+  symbol?: string;
+  customOrderId?: string;
+  status?: EngineOrder['status'];
+  /** Only orders archived at or after this time */
+  fromMs?: number;
+  /** Only orders archived at or before this time */
+  toMs?: number;
+}
+
+export interface OrderArchiveState {
+  /** Archived orders, oldest first */
+  orders: ArchivedOrder[];
+  /** Status transitions seen so far for orders that are still active */
+  activeTransitions: Record<string, EngineOrderTransition[]>;
+}
@@ -0,0 +1,63 @@
+import { EngineOrder } from './order.js';
+import { EnginePositionSide, ValueOf } from './position.js';
+
+export const ENGINE_ORDER_GROUP_TYPE = {
+  /** An entry order, with stop loss and/or take profit orders for the position it opens */
+  BRACKET: 'bracket',
+  /** Stop loss & take profit orders for an existing position, where one cancels the other */
+  OCO: 'oco',
+} as const;
+
+export type EngineOrderGroupType = ValueOf<typeof ENGINE_ORDER_GROUP_TYPE>;
+
+export const ENGINE_ORDER_ROLE = {
+  ENTRY: 'entry',
+  STOP_LOSS: 'stopLoss',
+  TAKE_PROFIT: 'takeProfit',
+} as const;
+
+export type EngineOrderRole = ValueOf<typeof ENGINE_ORDER_ROLE>;
+
+export interface EngineOrderGroupMember {
+  /** Exchange order ID or custom order ID. Custom order IDs also match pending orders. */
+  orderId: string;
+  role: EngineOrderRole;
+}
+
+/** Related orders, e.g. an entry with its stop loss & take profit orders */
+export interface EngineOrderGroup {
+  groupId: string;
+  type: EngineOrderGroupType;
+  symbol: string;
+  /** The position this group's stop loss & take profit orders protect */
+  positionSide: EnginePositionSide;
+  orders: EngineOrderGroupMember[];
+  createdAtMs: number;
+}
+
+/** Stop loss & take profit protection for an active position */
+export interface EnginePositionProtection {
+  symbol: string;
+  side: EnginePositionSide;
+  /** Active stop loss orders: linked to the position via an order group, or reduce-only stop orders closing the position */
+  stopLossOrders: EngineOrder[];
+  /** Active take profit orders: linked to the position via an order group, or reduce-only take profit orders closing the position */
+  takeProfitOrders: EngineOrder[];
+  /** Nearest stop loss trigger price from these orders, or the stop loss price set on the position */
+  stopLossPrice: number | undefined;
+  /** Nearest take profit trigger price from these orders, or the take profit price set on the position */
+  takeProfitPrice: number | undefined;
+  /** Quantity covered by stop loss orders. Infinity if a stop loss closes the whole position (e.g. a close-position order, or a stop loss set on the position). */
+  stopLossQty: number;
+  /** The position has a stop loss order, or a stop loss set on the position */
+  isProtected: boolean;
+  /** Stop losses cover the full position quantity */
+  isFullyProtected: boolean;
+}
+
+/** Emitted when a position closes, for active orders that would only reduce the (now closed) position */
+export interface OrdersOrphanedEvent {
+  symbol: string;
+  side: EnginePositionSide;
+  orders: EngineOrder[];
+}
@@ -0,0 +1,44 @@
+import { EngineOrder } from './order.js';
+
+/** An order about to be sent to the exchange, tracked as a pending order until the exchange confirms it */
+export interface EngineOrderIntent {
+  customOrderId: string;
+  symbol: string;
+  orderSide: EngineOrder['orderSide'];
+  quantity: number;
+  /** Limit price, or the expected fill price for market orders */
+  price: number;
+  /** Default: NONE */
+  positionSide?: EngineOrder['positionSide'];
+  /** Default: LIMIT */
+  orderType?: EngineOrder['orderType'];
+  isreduceOnly?: boolean;
+  /** How long to wait for the exchange to confirm this order before it's rolled back. Default: the store's pendingOrderTimeoutMs */
+  timeoutMs?: number;
+  /** Default: now */
+  createdAtMs?: number;
+}
+
+/** Position & open order quantities for one symbol, including pending (unconfirmed) orders */
+export interface EngineSymbolExposure {
+  symbol: string;
+  /** Net position quantity across all sides (negative if net short) */
+  positionQty: number;
+  /** Remaining (unfilled) quantity of open & pending buy orders */
+  openBuyQty: number;
+  /** Remaining (unfilled) quantity of open & pending sell orders */
+  openSellQty: number;
+  /** Part of openBuyQty from pending orders */
+  pendingBuyQty: number;
+  /** Part of openSellQty from pending orders */
+  pendingSellQty: number;
+  /** Net position if every buy order fills: positionQty + openBuyQty */
+  maxLongQty: number;
+  /** Net position if every sell order fills: positionQty - openSellQty */
+  maxShortQty: number;
+}
+
+export interface PendingOrderMonitorOptions {
+  /** How often to check for expired pending orders. Default: 1000 */
+  intervalMs?: number;
+}
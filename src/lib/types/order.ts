@@ -15,4 +15,19 @@ export interface EngineOrder {
     createdAtMs: number;
     updatedAtMs: number;
     isreduceOnly?: boolean;
-  }
\ No newline at end of file
+    /** Price that triggers a conditional order (e.g. stop loss or take profit), if any */
+    triggerPrice?: number;
+    /** Cumulative trading fee charged for this order so far, if known. Negative for rebates. */
+    cumulativeFee?: number;
+    /** Asset the fee is charged in */
+    feeAsset?: string;
+    /** Whether the most recent fill was as maker or taker, if known */
+    isMaker?: boolean;
+  }
+
+/** An order placed by the client but not acknowledged by the exchange yet, keyed by its custom order ID until the exchange order ID is known */
+export type EnginePendingOrder = Omit<EngineOrder, 'exchangeOrderId'> & {
+    exchangeOrderId?: undefined;
+    /** If set, the pending order is rolled back if it's not confirmed by this time (see AccountStateStore.expirePendingOrders()) */
+    expiresAtMs?: number;
+};
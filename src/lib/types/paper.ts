@@ -0,0 +1,33 @@
+import { EnginePriceType } from './events.js';
+import { EngineOrder } from './order.js';
+
+/** An order to submit to a PaperTradingEngine. Any EngineOrder can be submitted as-is: its status & execution fields are reset. */
+export type PaperOrderRequest = Omit<
+  EngineOrder,
+  | 'exchangeOrderId'
+  | 'status'
+  | 'executedQuantity'
+  | 'averagePrice'
+  | 'createdAtMs'
+  | 'updatedAtMs'
+> & {
+  /** Default: a generated order ID */
+  exchangeOrderId?: string;
+  /** For TRAILING_STOP_MARKET orders: how far the price may retrace from its best price before the order triggers, e.g. 0.01 for 1%. Default: the engine's trailingStopCallbackRate */
+  callbackRate?: number;
+};
+
+export interface PaperTradingEngineOptions {
+  /** Fee rate for limit orders that rested before filling. Default: 0.0002 */
+  makerFeeRate?: number;
+  /** Fee rate for orders filling immediately (market orders, marketable limit orders & triggered stops). Default: 0.0005 */
+  takerFeeRate?: number;
+  /** Slippage applied to market fills, as a fraction of the price (e.g. 0.0005 for 0.05%). Default: 0 */
+  slippage?: number;
+  /** Which price type from price events orders are matched against. Default: last */
+  priceType?: EnginePriceType;
+  /** Default callback rate for TRAILING_STOP_MARKET orders. Default: 0.01 (1%) */
+  trailingStopCallbackRate?: number;
+  /** Prefix for generated order IDs. Default: "paper-" */
+  orderIdPrefix?: string;
+}
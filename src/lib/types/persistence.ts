@@ -0,0 +1,27 @@
+/** Position metadata for all symbols, as returned by getAllSymbolMetadata() */
+export type SymbolMetadataState<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> = Record<string, TEnginePositionMetadata | undefined>;
+
+/**
+ * Implement this to persist position metadata somewhere (file, redis, database, etc).
+ *
+ * Position metadata is the only state in the AccountStateStore that cannot be re-derived from the exchange.
+ */
+export interface MetadataPersistenceAdapter<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** Load previously persisted metadata. Resolve with undefined if nothing was persisted yet. */
+  load(): Promise<SymbolMetadataState<TEnginePositionMetadata> | undefined>;
+  /** Persist the full metadata state, overwriting anything persisted before */
+  save(data: SymbolMetadataState<TEnginePositionMetadata>): Promise<void>;
+}
+
+export interface MetadataPersistenceSchedulerOptions {
+  /** Wait this long after the last metadata change before persisting. Default: 250ms */
+  debounceMs?: number;
+  /** Never wait longer than this after the first unpersisted change, even if metadata keeps changing. Default: 5000ms */
+  maxWaitMs?: number;
+  /** Wait this long before retrying a failed save. Default: 1000ms */
+  retryDelayMs?: number;
+}
@@ -3,6 +3,8 @@ export type ValueOf<T> = T[keyof T];
 
 /**
  * The side this position is for (use NONE if position isn't active, though typically you would simply not store a "position" if it isn't active anymore)
+ *
+ * In one-way position mode, the net position for a symbol is stored under NONE.
  */
 export const ENGINE_POSITION_SIDE = {
   LONG: 'LONG',
@@ -23,6 +25,26 @@ export type EngineOrderPositionSide = ValueOf<
   typeof ENGINE_ORDER_POSITION_SIDE
 >;
 
+/**
+ * How the account holds positions per symbol:
+ * - HEDGE: separate LONG and SHORT positions can be open at the same time (dual position mode)
+ * - ONE_WAY: one net position per symbol, with a signed quantity that can flip between long and short
+ */
+export const ENGINE_POSITION_MODE = {
+  HEDGE: 'HEDGE',
+  ONE_WAY: 'ONE_WAY',
+} as const;
+
+export type EnginePositionMode = ValueOf<typeof ENGINE_POSITION_MODE>;
+
+/** Margin mode for a symbol (or for one side of a symbol, in hedge mode) */
+export const ENGINE_MARGIN_MODE = {
+  CROSS: 'cross',
+  ISOLATED: 'isolated',
+} as const;
+
+export type EngineMarginMode = ValueOf<typeof ENGINE_MARGIN_MODE>;
+
 export interface EngineSimplePosition {
   symbol: string;
   timestampMs: number;
@@ -30,12 +52,16 @@ export interface EngineSimplePosition {
   /** More of an internal reference to how this position is stored */
   orderPositionSide: EngineOrderPositionSide;
   positionPrice: number;
+  /** Position quantity, negative for short positions. In contracts, for symbols with a contract spec (see EngineContractSpec). */
   assetQty: number;
+  /** Position value, in the settle asset (quote value for linear contracts) */
   value: number;
-  /** Unrealised profit or loss in quote value */
+  /** Unrealised profit or loss, in the settle asset (quote value for linear contracts) */
   valueUpnl: number;
   /** Margin value allocated to positon, considering leverage */
   marginValue: number;
+  /** Margin assigned to this position, if it's in isolated margin mode (excluding unrealised PnL) */
+  isolatedMargin?: number;
   liquidationPrice: number;
   stopLossPrice: number | undefined;
   takeProfitPrice: number | undefined;
@@ -0,0 +1,77 @@
+import { EngineAssetBalance } from './balance.js';
+import { EngineOrder } from './order.js';
+import { EnginePositionSide, EngineSimplePosition } from './position.js';
+
+/**
+ * Account state as reported by the exchange (e.g. via REST), to reconcile the store against.
+ *
+ * Only the parts provided are reconciled. If provided, each list is treated as the complete state for that part of the account.
+ */
+export interface ReconcileInput {
+  /** All open positions. Positions with a quantity of 0 are ignored. */
+  positions?: EngineSimplePosition[];
+  /** All open orders */
+  orders?: EngineOrder[];
+  /** Balances for all assets */
+  balances?: EngineAssetBalance[];
+}
+
+export interface ReconcileOptions {
+  /** Only compute the diff report, without changing the store. Default: false */
+  dryRun?: boolean;
+  /** Relative tolerance when comparing quantities. Default: 1e-9 */
+  qtyTolerance?: number;
+  /** Relative tolerance when comparing prices. Default: 1e-9 */
+  priceTolerance?: number;
+  /** Relative tolerance when comparing balances. Default: 1e-9 */
+  balanceTolerance?: number;
+}
+
+/**
+ * How the store's state differed from the exchange:
+ * - missing: on the exchange, but not in the store
+ * - unexpected: in the store, but not on the exchange (for orders: stale)
+ * - quantityMismatch / priceMismatch: in both, but with a different quantity or price
+ */
+export type ReconcileDiffType =
+  | 'missing'
+  | 'unexpected'
+  | 'quantityMismatch'
+  | 'priceMismatch';
+
+export interface PositionReconcileDiff {
+  type: ReconcileDiffType;
+  symbol: string;
+  /** The side the position is stored under */
+  side: EnginePositionSide;
+  local: EngineSimplePosition | undefined;
+  remote: EngineSimplePosition | undefined;
+}
+
+export interface OrderReconcileDiff {
+  /** "staleOrder": the order is active in the store, but not open on the exchange anymore */
+  type: Exclude<ReconcileDiffType, 'unexpected'> | 'staleOrder';
+  exchangeOrderId: string;
+  symbol: string;
+  local: EngineOrder | undefined;
+  remote: EngineOrder | undefined;
+}
+
+export interface BalanceReconcileDiff {
+  type: Exclude<ReconcileDiffType, 'priceMismatch'>;
+  asset: string;
+  local: EngineAssetBalance | undefined;
+  remote: EngineAssetBalance | undefined;
+}
+
+/** Result of reconciling the store against exchange state */
+export interface ReconcileReport {
+  timestampMs: number;
+  /** True if the store differed from the exchange in any way */
+  hasDrift: boolean;
+  /** True if the exchange state was applied to the store (false for dry runs) */
+  applied: boolean;
+  positions: PositionReconcileDiff[];
+  orders: OrderReconcileDiff[];
+  balances: BalanceReconcileDiff[];
+}
@@ -0,0 +1,77 @@
+import { EngineOrder } from './order.js';
+import { EnginePositionSide, ValueOf } from './position.js';
+
+export const PRE_TRADE_RISK_RULE = {
+  MAX_POSITION_NOTIONAL: 'maxPositionNotional',
+  MAX_DEPTH_PERCENT: 'maxDepthPercent',
+  MAX_OPEN_POSITIONS: 'maxOpenPositions',
+  MAX_LEVERAGE: 'maxLeverage',
+  MAX_HEDGED_POSITIONS: 'maxHedgedPositions',
+  SYMBOL_OWNERSHIP: 'symbolOwnership',
+  /** No price was provided for the order, and the store has no price for the symbol */
+  MISSING_PRICE: 'missingPrice',
+} as const;
+
+export type PreTradeRiskRule = ValueOf<typeof PRE_TRADE_RISK_RULE>;
+
+/** An order to check before sending it to the exchange. An EngineOrderIntent can be checked as-is. */
+export interface PreTradeOrder {
+  symbol: string;
+  orderSide: EngineOrder['orderSide'];
+  quantity: number;
+  /** Limit price, or the expected fill price for market orders. Default: the most recent price of the UPNL price type */
+  price?: number;
+  /** Default: NONE */
+  positionSide?: EngineOrder['positionSide'];
+  /** Reduce-only orders can't increase risk, so only the symbol ownership rule applies to them */
+  isreduceOnly?: boolean;
+  /** Leverage the order will be placed with. Default: the symbol's leverage in the store */
+  leverage?: number;
+}
+
+/** Limits for pre-trade risk checks. Rules without a limit are not checked. */
+export interface PreTradeRiskLimits<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** Max notional value of a position, after this order (and open orders in the same direction, see includeOpenOrders) fill */
+  maxPositionNotional?: number;
+  /** Per-symbol overrides for maxPositionNotional */
+  maxPositionNotionalBySymbol?: Record<string, number>;
+  /** Max total depth (percentage of the wallet balance used as margin, see getDepthPercentForAllPositions()), after this order fills */
+  maxDepthPercent?: number;
+  /** Max number of open positions (hedged positions count as 2). Orders opening a new position are denied once this is reached. */
+  maxOpenPositions?: number;
+  maxLeverage?: number;
+  /** Max number of symbols with both a long & short position open. Orders opening a new hedged pair are denied once this is reached. */
+  maxHedgedPositions?: number;
+  /** Only allow orders for symbols that are unclaimed, or claimed by this owner, according to a metadata value (e.g. the strategy trading that symbol) */
+  symbolOwnership?: {
+    metadataKey: keyof TEnginePositionMetadata;
+    ownerId: TEnginePositionMetadata[keyof TEnginePositionMetadata];
+  };
+  /** Include open & pending orders in the same direction when projecting a position. Default: true */
+  includeOpenOrders?: boolean;
+}
+
+export interface PreTradeRiskViolation {
+  rule: PreTradeRiskRule;
+  message: string;
+  /** The configured limit, for numeric rules */
+  limit?: number;
+  /** The value that broke the limit, for numeric rules */
+  value?: number;
+}
+
+/** Result of a pre-trade risk check. The order is allowed if no rules were violated. */
+export interface PreTradeRiskResult {
+  allowed: boolean;
+  reasons: PreTradeRiskViolation[];
+  /** The position this order affects */
+  positionSide: EnginePositionSide;
+  /** Signed position quantity if this order (and open orders in the same direction, see includeOpenOrders) fill */
+  projectedPositionQty: number;
+  /** Notional value of the projected position. Undefined if no price is available. */
+  projectedPositionNotional: number | undefined;
+  /** Total depth percentage with the projected position. Undefined if not checked, or no price is available. */
+  projectedDepthPercent: number | undefined;
+}
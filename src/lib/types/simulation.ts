@@ -0,0 +1,72 @@
+import { AccountStateStore } from '../../AccountStateStore.js';
+import { DepthSummary } from '../../util/position.types.js';
+import { EngineContractSpec } from './contract.js';
+import { LiquidationEstimate } from './liquidation.js';
+import { EngineOrder } from './order.js';
+import { EnginePositionSide, EngineSimplePosition } from './position.js';
+
+/** A fill to apply to a position, see AccountStateStore.applyFill() & simulateFill() */
+export interface EngineFillInput {
+  symbol: string;
+  orderSide: EngineOrder['orderSide'];
+  /** Filled quantity (always positive). In contracts, for symbols with a contract spec. */
+  qty: number;
+  price: number;
+  /** The position this fill applies to, as for orders. Default: NONE (attributed by direction in hedge mode) */
+  positionSide?: EngineOrder['positionSide'];
+  isreduceOnly?: boolean;
+  /** Trading fee for this fill, in the settle asset. Default: 0 */
+  fee?: number;
+  /** Default: now */
+  timestampMs?: number;
+  /** The order this fill belongs to, if any */
+  exchangeOrderId?: string;
+  customOrderId?: string;
+}
+
+export interface ApplyFillToPositionOptions {
+  /** Side the position is stored under. Net positions (NONE) can flip direction, while LONG & SHORT positions close at zero. Default: NONE */
+  positionSide?: EnginePositionSide;
+  contractSpec?: EngineContractSpec;
+  /** Used to derive the margin value of the position. Without leverage, the margin to value ratio of the existing position is used. */
+  leverage?: number;
+  /** Price used for the position value & unrealised PnL. Default: the fill price */
+  markPrice?: number;
+}
+
+export interface ApplyFillToPositionResult {
+  /** The position after the fill. Undefined if the fill closed the position. */
+  position: EngineSimplePosition | undefined;
+  /** Quantity of the existing position closed by this fill (always positive) */
+  closedQty: number;
+  /** Entry price of the closed quantity, if any quantity was closed */
+  closedEntryPrice: number | undefined;
+  /** Realised profit or loss of the closed quantity, in the settle asset */
+  realisedPnl: number;
+}
+
+/** Projected account state after a hypothetical fill, see AccountStateStore.simulateFill() */
+export interface FillSimulationResult<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  fill: EngineFillInput;
+  /** Side the affected position is stored under */
+  positionSide: EnginePositionSide;
+  /** The position before the fill */
+  previous: EngineSimplePosition | undefined;
+  /** The position after the fill. Undefined if the fill closed the position. */
+  current: EngineSimplePosition | undefined;
+  /** Realised PnL of the fill, before fees */
+  realisedPnl: number;
+  /** Margin used by the position after the fill */
+  marginUsed: number;
+  /** Depth across all positions after the fill */
+  depthSummary: DepthSummary;
+  /** Liquidation estimate for the position after the fill, if it can be estimated */
+  liquidation: LiquidationEstimate | undefined;
+  sessionSummary: ReturnType<
+    AccountStateStore<TEnginePositionMetadata>['getSessionSummary']
+  >;
+  /** The simulated copy of the store, for any other queries on the projected state */
+  store: AccountStateStore<TEnginePositionMetadata>;
+}
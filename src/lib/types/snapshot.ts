@@ -0,0 +1,91 @@
+import { MarginModeCache } from '../../util/position.types.js';
+import { EngineAssetBalance } from './balance.js';
+import { EngineContractSpec } from './contract.js';
+import { FillLedgerState } from './ledger.js';
+import { MaintenanceMarginBracket } from './liquidation.js';
+import { EngineOrder, EnginePendingOrder } from './order.js';
+import { EngineOrderGroup } from './order-group.js';
+import { OrderArchiveState } from './order-archive.js';
+import {
+  EnginePositionMode,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from './position.js';
+
+/** Current schema version of snapshots produced by AccountStateStore.toSnapshot() */
+export const ACCOUNT_STATE_SNAPSHOT_VERSION = 2;
+
+/**
+ * Serialisable copy of the full account state, as produced by toSnapshot().
+ *
+ * Everything in here is plain JSON, so it can be written to disk, sent to another process, or used as a test fixture.
+ */
+export interface AccountStateSnapshot<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  version: typeof ACCOUNT_STATE_SNAPSHOT_VERSION;
+  createdAtMs: number;
+  /** Positions per symbol, keyed by the side they are stored under */
+  positions: Record<
+    string,
+    Partial<Record<EnginePositionSide, EngineSimplePosition>>
+  >;
+  orders: EngineOrder[];
+  /** Orders not acknowledged by the exchange yet, see addPendingOrder(). Optional, defaults to none. */
+  pendingOrders?: EnginePendingOrder[];
+  /** Order groups (e.g. brackets), keyed by group ID, see setOrderGroup(). Optional, defaults to none. */
+  orderGroups?: Record<string, EngineOrderGroup>;
+  /** symbol:leverageValue */
+  leverage: Record<string, number>;
+  /** Balances per asset */
+  balances: Record<string, EngineAssetBalance>;
+  /** Previous wallet balance of the quote asset, see storePreviousBalance() */
+  previousBalance: number;
+  /** Price of one unit of each asset, in the reporting asset. Optional, conversion prices start empty if missing. */
+  conversionPrices?: Record<string, number>;
+  /** Contract specs per symbol, see setContractSpec() */
+  contractSpecs?: Record<string, EngineContractSpec>;
+  /** Maintenance margin brackets per symbol, see setMaintenanceMarginBrackets() */
+  maintenanceMarginBrackets?: Record<string, MaintenanceMarginBracket[]>;
+  hedgedPositions: number;
+  metadata: Record<string, TEnginePositionMetadata | undefined>;
+  isPendingPersist: boolean;
+  /** Optional, the store's configured position mode is kept if missing */
+  positionMode?: EnginePositionMode;
+  /** Per symbol, per side, margin modes set via setSymbolMarginMode() */
+  marginModes?: MarginModeCache;
+  /** Fills, order execution state & session realised PnL. Optional, the fill ledger starts empty if missing. */
+  fillLedger?: FillLedgerState;
+  /** Archived orders & order status transitions, if the order archive is enabled. Optional, the archive starts empty if missing. */
+  orderArchive?: OrderArchiveState;
+}
+
+/** A snapshot of any (possibly older) schema version, before migration */
+export interface VersionedSnapshot {
+  version: number;
+  [key: string]: unknown;
+}
+
+/** Store configuration that migrations may need, to fill in state missing from older snapshots */
+export interface SnapshotMigrationContext {
+  /** The quote asset of the store restoring this snapshot */
+  quoteAsset: string;
+}
+
+/**
+ * Upgrade a snapshot from one schema version to the next. Keyed by the version being migrated from.
+ *
+ * Each migration must return a snapshot with the version incremented by exactly one.
+ */
+export type AccountStateSnapshotMigrations = Record<
+  number,
+  (
+    snapshot: VersionedSnapshot,
+    context: SnapshotMigrationContext,
+  ) => VersionedSnapshot
+>;
+
+export interface SnapshotRestoreOptions {
+  /** Custom migration hooks. These take priority over any built-in migration for the same version. */
+  migrations?: AccountStateSnapshotMigrations;
+}
@@ -0,0 +1,34 @@
+/** Which kind of data for a symbol is stale */
+export type StaleDataType = 'price' | 'position';
+
+/** How old data may get before it's considered stale */
+export interface StalenessThresholds {
+  /** Max age of the UPNL price (see AccountStateStoreOptions.upnlPriceType). Default: 60000 (1 minute) */
+  priceMaxAgeMs?: number;
+  /** Max time since an active position was last updated via setActivePosition(). Disabled by default, since positions only update when they change. */
+  positionMaxAgeMs?: number;
+}
+
+/** Staleness state for one symbol */
+export interface StaleSymbolState {
+  symbol: string;
+  /** Which kind(s) of data are stale. A symbol with an active position but no price yet has a stale price. */
+  staleData: StaleDataType[];
+  /** When the UPNL price for this symbol was last seen, if ever */
+  priceUpdatedAtMs: number | undefined;
+  priceAgeMs: number | undefined;
+  /** When the least recently updated active position for this symbol was last updated, if there is one */
+  positionUpdatedAtMs: number | undefined;
+  positionAgeMs: number | undefined;
+}
+
+export interface DataRecoveredEvent {
+  symbol: string;
+  /** Staleness state as it was last seen, before the data recovered */
+  previous: StaleSymbolState;
+}
+
+export interface StalenessMonitorOptions {
+  /** How often to check for stale data. Default: 5000 */
+  intervalMs?: number;
+}
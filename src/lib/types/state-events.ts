@@ -0,0 +1,135 @@
+import { EngineFill } from './ledger.js';
+import { EngineOrder, EnginePendingOrder } from './order.js';
+import { OrdersOrphanedEvent } from './order-group.js';
+import {
+  EngineMarginMode,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from './position.js';
+import { ReconcileReport } from './reconcile.js';
+import { DataRecoveredEvent, StaleSymbolState } from './staleness.js';
+
+/** How a position changed, by comparing the asset quantity before & after a change */
+export type PositionChangeType =
+  | 'opened'
+  | 'increased'
+  | 'reduced'
+  | 'closed'
+  | 'flipped'
+  | 'updated';
+
+/**
+ * Emitted whenever a position is set or deleted. Snapshots are copies, so they will not change if the store is mutated later.
+ */
+export interface PositionChangeEvent {
+  symbol: string;
+  side: EnginePositionSide;
+  changeType: PositionChangeType;
+  /** Copy of the position before this change (undefined if there was no position) */
+  previous: EngineSimplePosition | undefined;
+  /** Copy of the position after this change (undefined if the position was deleted) */
+  current: EngineSimplePosition | undefined;
+}
+
+export interface OrderAddedEvent {
+  order: EngineOrder;
+}
+
+export interface OrderUpdatedEvent {
+  previous: EngineOrder;
+  current: EngineOrder;
+}
+
+export interface OrderRemovedEvent {
+  /** Copy of the order as it was last stored */
+  previous: EngineOrder;
+  /** The update that caused this order to be removed, if it was removed due to an order update (e.g. FILLED or CANCELLED) */
+  current: EngineOrder | undefined;
+}
+
+export interface PendingOrderEvent {
+  order: EnginePendingOrder;
+}
+
+export interface PendingOrderLinkedEvent {
+  /** Copy of the pending order, as it was last stored */
+  pending: EnginePendingOrder;
+  /** The order it was linked to, with its exchange order ID */
+  order: EngineOrder;
+}
+
+export interface OrderFilledEvent {
+  fill: EngineFill;
+  /** The order update that this fill was derived from */
+  order: EngineOrder;
+}
+
+/** Emitted when the wallet balance of an asset changes */
+export interface BalanceChangedEvent {
+  asset: string;
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+export interface LeverageChangedEvent {
+  symbol: string;
+  previous: number | undefined;
+  current: number;
+}
+
+export interface MarginModeChangedEvent {
+  symbol: string;
+  side: EnginePositionSide;
+  previous: EngineMarginMode;
+  current: EngineMarginMode;
+}
+
+export interface MetadataChangedEvent<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  symbol: string;
+  previous: TEnginePositionMetadata | undefined;
+  current: TEnginePositionMetadata | undefined;
+}
+
+/** All events emitted by the AccountStateStore, keyed by event name */
+export interface AccountStateEventMap<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /** Emitted for every position change, in addition to the more specific position event */
+  positionChanged: PositionChangeEvent;
+  positionOpened: PositionChangeEvent;
+  positionIncreased: PositionChangeEvent;
+  positionReduced: PositionChangeEvent;
+  positionClosed: PositionChangeEvent;
+  positionFlipped: PositionChangeEvent;
+  /** The position was overwritten without any change in quantity (e.g. new UPNL or liquidation price) */
+  positionUpdated: PositionChangeEvent;
+  orderAdded: OrderAddedEvent;
+  orderUpdated: OrderUpdatedEvent;
+  orderRemoved: OrderRemovedEvent;
+  pendingOrderAdded: PendingOrderEvent;
+  /** A pending order was acknowledged by the exchange, and is now tracked by its exchange order ID */
+  pendingOrderLinked: PendingOrderLinkedEvent;
+  /** A pending order was removed before it was linked (e.g. the order was rejected, or never acknowledged) */
+  pendingOrderRemoved: PendingOrderEvent;
+  /** A pending order was rolled back, as the exchange didn't confirm it before it expired */
+  pendingOrderExpired: PendingOrderEvent;
+  /** The executed quantity of an order increased since the last update for that order */
+  orderFilled: OrderFilledEvent;
+  /** A position closed (or flipped), leaving active orders that can only reduce that position, see AccountStateStore.getOrphanedOrders() */
+  ordersOrphaned: OrdersOrphanedEvent;
+  balanceChanged: BalanceChangedEvent;
+  leverageChanged: LeverageChangedEvent;
+  marginModeChanged: MarginModeChangedEvent;
+  metadataChanged: MetadataChangedEvent<TEnginePositionMetadata>;
+  /** A symbol's price or position data became stale, see AccountStateStore.checkStaleness() */
+  dataStale: StaleSymbolState;
+  /** A symbol's previously stale data is up to date again */
+  dataRecovered: DataRecoveredEvent;
+  /** Emitted after every call to reconcile(), including dry runs */
+  reconciled: ReconcileReport;
+}
+
+export type AccountStateEventName = keyof AccountStateEventMap;
@@ -0,0 +1,41 @@
+import { AccountStateJournal } from '../journal/AccountStateJournal.js';
+import { EnginePriceType } from './events.js';
+import { FillLedgerOptions } from './ledger.js';
+import { OrderArchiveOptions } from './order-archive.js';
+import { EngineMarginMode, EnginePositionMode } from './position.js';
+import { StalenessThresholds } from './staleness.js';
+
+/** Optional configuration for the AccountStateStore */
+export interface AccountStateStoreOptions<
+  TEnginePositionMetadata extends object = Record<string, unknown>,
+> {
+  /**
+   * HEDGE (default) stores separate LONG & SHORT positions per symbol.
+   * ONE_WAY stores a single net position per symbol (under the NONE side), with a negative quantity for short positions.
+   */
+  positionMode?: EnginePositionMode;
+  /** Asset used by single-asset balance methods such as setWalletBalance() & getWalletBalance(). Default: USDT */
+  quoteAsset?: string;
+  /** Asset that aggregate balances are valued in (see setAssetConversionPrice()). Default: the quote asset */
+  reportingAsset?: string;
+  /** Which price type from price events drives UPNL & liquidation estimates. Use mark to match exchange UPNL. Default: last */
+  upnlPriceType?: EnginePriceType;
+  /** When prices & positions are considered stale, see AccountStateStore.getStaleSymbols() */
+  staleness?: StalenessThresholds;
+  /** Margin mode for any symbol without a margin mode set via setSymbolMarginMode(). Default: cross */
+  defaultMarginMode?: EngineMarginMode;
+  /** If provided, every state mutation is recorded in this journal */
+  journal?: AccountStateJournal<TEnginePositionMetadata>;
+  /** Configure how many fills & completed orders are kept in memory */
+  fillLedger?: FillLedgerOptions;
+  /** How long order intents wait for the exchange to confirm them before they're rolled back, see registerOrderIntent(). Default: 10000 */
+  pendingOrderTimeoutMs?: number;
+  /** If provided, terminal orders are archived with their status transitions (see getArchivedOrders()). Disabled by default. */
+  orderArchive?: OrderArchiveOptions;
+  /**
+   * Maintain positions from fills derived from order updates (see applyFill()), instead of relying on setActivePosition().
+   *
+   * Useful for paper trading, or exchanges without a reliable position stream. Default: false
+   */
+  positionsFromFills?: boolean;
+}
@@ -0,0 +1,118 @@
+import {
+  ENGINE_CONTRACT_TYPE,
+  EngineContractSpec,
+} from '../lib/types/contract';
+import {
+  LiquidationPriceParams,
+  MaintenanceMarginBracket,
+} from '../lib/types/liquidation';
+import { getContractPositionValue } from './math';
+
+/**
+ * Find the maintenance margin bracket for a position value. Brackets don't need to be sorted.
+ *
+ * Returns undefined if there are no brackets.
+ */
+export function getMaintenanceMarginBracket(
+  brackets: MaintenanceMarginBracket[] | undefined,
+  notional: number,
+): MaintenanceMarginBracket | undefined {
+  if (!brackets?.length) {
+    return undefined;
+  }
+
+  const sorted = [...brackets].sort(
+    (a, b) => (a.maxNotional ?? Infinity) - (b.maxNotional ?? Infinity),
+  );
+
+  return (
+    sorted.find((bracket) => notional <= (bracket.maxNotional ?? Infinity)) ||
+    sorted[sorted.length - 1]
+  );
+}
+
+/**
+ * Maintenance margin for a position value, using tiered brackets: notional * rate - maintenance amount
+ */
+export function getMaintenanceMargin(
+  brackets: MaintenanceMarginBracket[] | undefined,
+  notional: number,
+): number {
+  const bracket = getMaintenanceMarginBracket(brackets, Math.abs(notional));
+  if (!bracket) {
+    return 0;
+  }
+
+  return Math.max(
+    0,
+    Math.abs(notional) * bracket.maintenanceMarginRate -
+      (bracket.maintenanceAmount || 0),
+  );
+}
+
+/**
+ * Estimate the price at which a position's margin (including unrealised PnL) falls to its maintenance margin.
+ *
+ * Works for both isolated margin (pass the isolated margin) and cross margin (pass the collateral available to this position).
+ * The maintenance margin bracket is picked using the position value at the reference price.
+ *
+ * Returns undefined if the position can't be liquidated (e.g. a long position with more margin than its value).
+ */
+export function estimateLiquidationPrice(
+  params: LiquidationPriceParams,
+  contractSpec?: EngineContractSpec,
+): number | undefined {
+  const { positionQty, entryPrice, margin, brackets } = params;
+  if (!positionQty || !entryPrice) {
+    return undefined;
+  }
+
+  const referencePrice = params.referencePrice || entryPrice;
+  const bracket = getMaintenanceMarginBracket(
+    brackets,
+    getContractPositionValue(contractSpec, referencePrice, positionQty),
+  );
+  const rate = bracket?.maintenanceMarginRate || 0;
+  const maintenanceAmount = bracket?.maintenanceAmount || 0;
+  const contractSize = contractSpec?.contractSize ?? 1;
+  const qty = positionQty * contractSize;
+  const absQty = Math.abs(qty);
+
+  let liquidationPrice: number;
+  if (contractSpec?.contractType === ENGINE_CONTRACT_TYPE.INVERSE) {
+    // margin + qty * (1/entry - 1/P) = |qty| / P * rate - maintenanceAmount
+    const denominator = margin + qty / entryPrice + maintenanceAmount;
+    if (!denominator) {
+      return undefined;
+    }
+    liquidationPrice = (qty + absQty * rate) / denominator;
+  } else {
+    // margin + qty * (P - entry) = |qty| * P * rate - maintenanceAmount
+    const denominator = qty - absQty * rate;
+    if (!denominator) {
+      return undefined;
+    }
+    liquidationPrice =
+      (qty * entryPrice - margin - maintenanceAmount) / denominator;
+  }
+
+  if (!Number.isFinite(liquidationPrice) || liquidationPrice <= 0) {
+    return undefined;
+  }
+  return liquidationPrice;
+}
+
+/**
+ * Margin ratio: maintenance margin / margin balance (margin including unrealised PnL).
+ *
+ * A position (or cross margin account) is liquidated when this reaches 1. Returns Infinity if the margin balance is zero or negative.
+ */
+export function getMarginRatio(
+  maintenanceMargin: number,
+  marginBalance: number,
+): number {
+  if (marginBalance <= 0) {
+    return maintenanceMargin > 0 ? Infinity : 0;
+  }
+  return maintenanceMargin / marginBalance;
+}
@@ -1,3 +1,8 @@
+import {
+  ENGINE_CONTRACT_TYPE,
+  EngineContractSpec,
+} from '../lib/types/contract';
+
 /**
  * toFixed() for numbers
  */
@@ -21,3 +26,69 @@ export function getUnrealisedPNL(
   const priceDiff = lastSeenPrice - positionAvgEntryPrice;
   return positionAssetQuantity * priceDiff;
 }
+
+/**
+ * Unrealised PnL of an inverse contract position, in the settle (base) asset
+ *
+ * For a SHORT position, the contract quantity should be NEGATIVE
+ */
+export function getInverseUnrealisedPNL(
+  lastSeenPrice: number,
+  positionContractQuantity: number,
+  positionAvgEntryPrice: number,
+  contractSize: number = 1,
+): number {
+  if (!lastSeenPrice || !positionAvgEntryPrice) {
+    return 0;
+  }
+  return (
+    positionContractQuantity *
+    contractSize *
+    (1 / positionAvgEntryPrice - 1 / lastSeenPrice)
+  );
+}
+
+/**
+ * Unrealised PnL of a position in the settle asset, for either contract type. Without a contract spec, the position is treated as linear with quantity in the base asset.
+ *
+ * For a SHORT position, the quantity should be NEGATIVE
+ */
+export function getContractUnrealisedPNL(
+  contractSpec: EngineContractSpec | undefined,
+  lastSeenPrice: number,
+  positionQuantity: number,
+  positionAvgEntryPrice: number,
+): number {
+  const contractSize = contractSpec?.contractSize ?? 1;
+  if (contractSpec?.contractType === ENGINE_CONTRACT_TYPE.INVERSE) {
+    return getInverseUnrealisedPNL(
+      lastSeenPrice,
+      positionQuantity,
+      positionAvgEntryPrice,
+      contractSize,
+    );
+  }
+
+  return getUnrealisedPNL(
+    lastSeenPrice,
+    positionQuantity * contractSize,
+    positionAvgEntryPrice,
+  );
+}
+
+/**
+ * Absolute value of a position at a given price, in the settle asset, for either contract type
+ */
+export function getContractPositionValue(
+  contractSpec: EngineContractSpec | undefined,
+  price: number,
+  positionQuantity: number,
+): number {
+  const contractSize = contractSpec?.contractSize ?? 1;
+  const notional = Math.abs(positionQuantity) * contractSize;
+
+  if (contractSpec?.contractType === ENGINE_CONTRACT_TYPE.INVERSE) {
+    return price ? notional / price : 0;
+  }
+  return notional * price;
+}
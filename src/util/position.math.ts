@@ -1,6 +1,47 @@
-import { EngineSimplePosition } from '../lib/types/position';
-import { toFixedNumber } from './math';
-import { DepthSummary, PositionDepthState } from './position.types';
+import {
+  ENGINE_CONTRACT_TYPE,
+  EngineContractSpec,
+} from '../lib/types/contract';
+import {
+  ENGINE_POSITION_MODE,
+  EngineMarginMode,
+  EnginePositionMode,
+  EnginePositionSide,
+  EngineSimplePosition,
+} from '../lib/types/position';
+import {
+  ApplyFillToPositionOptions,
+  ApplyFillToPositionResult,
+  EngineFillInput,
+} from '../lib/types/simulation';
+import {
+  getContractPositionValue,
+  getContractUnrealisedPNL,
+  toFixedNumber,
+} from './math';
+import {
+  DepthSummary,
+  MarginModeCache,
+  PositionDepthState,
+} from './position.types';
+
+/**
+ * Resolve the margin mode for a position, falling back to the account default.
+ *
+ * @param positionMode in one-way mode, margin modes are cached for the NONE side (the net position), whichever way the position faces
+ */
+export function getPositionMarginMode(
+  position: EngineSimplePosition,
+  marginModeCache: MarginModeCache | undefined,
+  defaultMarginMode: EngineMarginMode,
+  positionMode: EnginePositionMode = ENGINE_POSITION_MODE.HEDGE,
+): EngineMarginMode {
+  const side: EnginePositionSide =
+    positionMode === ENGINE_POSITION_MODE.ONE_WAY
+      ? 'NONE'
+      : position.positionSide;
+  return marginModeCache?.[position.symbol]?.[side] || defaultMarginMode;
+}
 
 /** Return the sum the unrealised profit/loss across all active positions */
 export function getUnrealisedPnl(
@@ -30,12 +71,25 @@ export function calculateDepthForPosition(
   unrealisedPnl: number,
   totalNetUnrealisedPnl: number,
   leverage: number,
+  marginMode: EngineMarginMode = 'cross',
+  isolatedMargin?: number,
 ): PositionDepthState {
   const estimatedValue = Math.abs(Number(positionAmount) * Number(entryPrice));
-  const estimatedValueWithLeverage = Math.abs(estimatedValue / (leverage || 1));
+  const isIsolated = marginMode === 'isolated';
+
+  // Isolated positions lock exactly their isolated margin, if known
+  const estimatedValueWithLeverage =
+    isIsolated && isolatedMargin
+      ? Math.abs(isolatedMargin)
+      : Math.abs(estimatedValue / (leverage || 1));
   const positionDepth = (estimatedValueWithLeverage / baseAssetBalance) * 100;
+
+  // Losses on an isolated position are limited to its margin, and don't depend on other positions
+  const unrealisedPnlImpact = isIsolated
+    ? Math.max(Number(unrealisedPnl), -estimatedValueWithLeverage)
+    : totalNetUnrealisedPnl;
   const positionDepthUnrealised =
-    ((estimatedValueWithLeverage - totalNetUnrealisedPnl) / baseAssetBalance) *
+    ((estimatedValueWithLeverage - unrealisedPnlImpact) / baseAssetBalance) *
     100;
   const balanceRemaining = baseAssetBalance - estimatedValueWithLeverage;
 
@@ -44,6 +98,7 @@ export function calculateDepthForPosition(
   return {
     asset,
     symbol,
+    marginMode,
     positionAmount,
     estimatedValue: toFixedNumber(estimatedValue),
     estimatedValueWithLeverage: toFixedNumber(estimatedValueWithLeverage),
@@ -57,59 +112,108 @@ export function calculateDepthForPosition(
 
 /**
  * Aggregate total depth use per position
+ *
+ * @param defaultMarginMode margin mode for any position without a margin mode in the marginModeCache
+ * @param positionMode of the account, to look up margin modes (see getPositionMarginMode())
  */
 export function calculateDepthForPositions(
   balanceAvailable: number,
   symbolLeverageCache: Record<string, number>,
   positions: EngineSimplePosition[] | undefined,
   quoteBalanceAsset: string = 'USDT',
+  defaultMarginMode: EngineMarginMode = 'cross',
+  marginModeCache?: MarginModeCache,
+  positionMode?: EnginePositionMode,
 ): PositionDepthState[] {
   if (!positions) {
     return [];
   }
 
   // console.log(`balance: `, { crossWalletBalance, walletBalance, isSame: crossWalletBalance == walletBalance });
-  const totalNetUnrealisedPnl = getUnrealisedPnl(positions);
+  // Only cross margin positions share their unrealised PnL
+  const totalNetUnrealisedPnl = getUnrealisedPnl(
+    positions.filter(
+      (position) =>
+        getPositionMarginMode(
+          position,
+          marginModeCache,
+          defaultMarginMode,
+          positionMode,
+        ) === 'cross',
+    ),
+  );
 
-  return positions.map(({ assetQty, positionPrice, symbol, valueUpnl }) =>
+  return positions.map((position) =>
     calculateDepthForPosition(
       quoteBalanceAsset,
-      symbol,
+      position.symbol,
       balanceAvailable,
-      Number(assetQty),
-      Number(positionPrice),
-      Number(valueUpnl),
+      Number(position.assetQty),
+      Number(position.positionPrice),
+      Number(position.valueUpnl),
       totalNetUnrealisedPnl,
-      symbolLeverageCache[symbol] || 1,
+      symbolLeverageCache[position.symbol] || 1,
+      getPositionMarginMode(
+        position,
+        marginModeCache,
+        defaultMarginMode,
+        positionMode,
+      ),
+      position.isolatedMargin,
     ),
   );
 }
 
+/**
+ * Summarise depth across all positions.
+ *
+ * Unrealised PnL of cross margin positions is added to the cross balance. Isolated margin positions don't affect the cross balance:
+ * their losses are limited to (and already covered by) their isolated margin, and their profits can't be used as margin elsewhere.
+ *
+ * @param leverageType margin mode for any position without a margin mode in the marginModeCache
+ * @param positionMode of the account, to look up margin modes (see getPositionMarginMode())
+ */
 export function calulateDepthSummaryForAllPositions(
   balance: number,
   symbolLeverageCache: Record<string, number>,
   positions: EngineSimplePosition[] | undefined,
   quoteBalanceAsset: string = 'USDT',
-  leverageType: 'cross' | 'isolated',
+  leverageType: EngineMarginMode,
+  marginModeCache?: MarginModeCache,
+  positionMode?: EnginePositionMode,
 ): DepthSummary {
   const depthByPosition = calculateDepthForPositions(
     balance,
     symbolLeverageCache,
     positions,
     quoteBalanceAsset,
+    leverageType,
+    marginModeCache,
+    positionMode,
   );
 
   const sums = depthByPosition.reduce(
     (acc, pos) => {
       acc.rawDepthSum += pos.positionDepth;
       acc.estimatedValueWithLeverage += pos.estimatedValueWithLeverage;
-      acc.unrealisedPnL += leverageType ? pos.unrealisedPnL : 0;
+
+      if (pos.marginMode === 'cross') {
+        acc.unrealisedPnL += pos.unrealisedPnL;
+      } else {
+        acc.isolatedUnrealisedPnL += Math.max(
+          pos.unrealisedPnL,
+          -pos.estimatedValueWithLeverage,
+        );
+        acc.isolatedMarginSum += pos.estimatedValueWithLeverage;
+      }
       return acc;
     },
     {
       rawDepthSum: 0,
       estimatedValueWithLeverage: 0,
       unrealisedPnL: 0,
+      isolatedUnrealisedPnL: 0,
+      isolatedMarginSum: 0,
     },
   );
 
@@ -131,13 +235,155 @@ export function getDepthPercentForAllPositions(
   walletBalance: number,
   symbolLeverageCache: Record<string, number>,
   quoteBalanceAsset: string = 'USDT',
+  defaultMarginMode: EngineMarginMode = 'cross',
+  marginModeCache?: MarginModeCache,
+  positionMode?: EnginePositionMode,
 ): number {
   const balanceUsageSummary = calulateDepthSummaryForAllPositions(
     walletBalance,
     symbolLeverageCache,
     positions,
     quoteBalanceAsset,
-    'cross',
+    defaultMarginMode,
+    marginModeCache,
+    positionMode,
   );
   return balanceUsageSummary.depthWithPnL;
 }
+
+/**
+ * Average entry price after adding to a position. Inverse contracts average by value (harmonic mean), linear contracts by quantity.
+ */
+export function getAveragedEntryPrice(
+  contractSpec: EngineContractSpec | undefined,
+  positionQty: number,
+  entryPrice: number,
+  addedQty: number,
+  fillPrice: number,
+): number {
+  const totalQty = Math.abs(positionQty) + Math.abs(addedQty);
+  if (!totalQty) {
+    return fillPrice;
+  }
+
+  if (contractSpec?.contractType === ENGINE_CONTRACT_TYPE.INVERSE) {
+    return (
+      totalQty /
+      (Math.abs(positionQty) / entryPrice + Math.abs(addedQty) / fillPrice)
+    );
+  }
+  return (
+    (Math.abs(positionQty) * entryPrice + Math.abs(addedQty) * fillPrice) /
+    totalQty
+  );
+}
+
+/**
+ * Apply a fill to a position, without mutating it: averages into, reduces, closes or (for net positions) flips the position.
+ *
+ * Reduce-only fills only reduce the position, up to its quantity. A fill never opens a LONG or SHORT position in the other direction.
+ * Fields that can't be derived from the fill (e.g. the liquidation price) are reset when the position size changes.
+ */
+export function applyFillToPosition(
+  position: EngineSimplePosition | undefined,
+  fill: Pick<
+    EngineFillInput,
+    'symbol' | 'orderSide' | 'qty' | 'price' | 'timestampMs' | 'isreduceOnly'
+  >,
+  options: ApplyFillToPositionOptions = {},
+): ApplyFillToPositionResult {
+  const { contractSpec, leverage } = options;
+  const storageSide = options.positionSide || 'NONE';
+  const markPrice = options.markPrice || fill.price;
+
+  const positionQty = position?.assetQty || 0;
+  const fillQty = (fill.orderSide === 'BUY' ? 1 : -1) * Math.abs(fill.qty);
+  const isReducing =
+    !!positionQty && Math.sign(fillQty) !== Math.sign(positionQty);
+
+  const closedQty = isReducing
+    ? Math.min(Math.abs(fillQty), Math.abs(positionQty))
+    : 0;
+  const closedEntryPrice = closedQty ? position?.positionPrice : undefined;
+  const realisedPnl = closedEntryPrice
+    ? getContractUnrealisedPNL(
+        contractSpec,
+        fill.price,
+        closedQty * Math.sign(positionQty),
+        closedEntryPrice,
+      )
+    : 0;
+
+  let nextQty = fill.isreduceOnly
+    ? positionQty - Math.sign(positionQty) * closedQty
+    : positionQty + fillQty;
+
+  // Only net positions can flip, a LONG or SHORT position closes at zero
+  const sideDirection =
+    storageSide === 'LONG' ? 1 : storageSide === 'SHORT' ? -1 : 0;
+  if (sideDirection && Math.sign(nextQty) === -sideDirection) {
+    nextQty = 0;
+  }
+  // Ignore floating point dust left after closing a position
+  if (Math.abs(nextQty) <= 1e-9 * Math.abs(positionQty)) {
+    nextQty = 0;
+  }
+
+  if (!nextQty) {
+    return { position: undefined, closedQty, closedEntryPrice, realisedPnl };
+  }
+
+  const isSameDirection =
+    !!position && Math.sign(nextQty) === Math.sign(positionQty);
+  const positionPrice = !isSameDirection
+    ? fill.price
+    : Math.abs(nextQty) <= Math.abs(positionQty)
+    ? position.positionPrice
+    : getAveragedEntryPrice(
+        contractSpec,
+        positionQty,
+        position.positionPrice,
+        nextQty - positionQty,
+        fill.price,
+      );
+
+  const positionSide: EnginePositionSide =
+    storageSide !== 'NONE' ? storageSide : nextQty > 0 ? 'LONG' : 'SHORT';
+  const value = getContractPositionValue(contractSpec, markPrice, nextQty);
+  const marginValue = leverage
+    ? value / leverage
+    : position?.value
+    ? (value * position.marginValue) / position.value
+    : 0;
+
+  return {
+    position: {
+      symbol: fill.symbol,
+      timestampMs: fill.timestampMs ?? Date.now(),
+      positionSide,
+      orderPositionSide:
+        position?.orderPositionSide ||
+        (storageSide === 'NONE' ? 'BOTH' : storageSide),
+      positionPrice,
+      assetQty: nextQty,
+      value,
+      valueUpnl: getContractUnrealisedPNL(
+        contractSpec,
+        markPrice,
+        nextQty,
+        positionPrice,
+      ),
+      marginValue,
+      isolatedMargin:
+        position?.isolatedMargin !== undefined && isSameDirection
+          ? marginValue
+          : undefined,
+      liquidationPrice: 0,
+      stopLossPrice: isSameDirection ? position.stopLossPrice : undefined,
+      takeProfitPrice: isSameDirection ? position.takeProfitPrice : undefined,
+    },
+    closedQty,
+    closedEntryPrice,
+    realisedPnl,
+  };
+}
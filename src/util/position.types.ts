@@ -1,4 +1,10 @@
-import { EnginePositionSide } from '../lib/types/position';
+import { EngineMarginMode, EnginePositionSide } from '../lib/types/position';
+
+/** Per symbol, per side, the margin mode. Sides without a margin mode fall back to the account default. */
+export type MarginModeCache = Record<
+  string,
+  Partial<Record<EnginePositionSide, EngineMarginMode>>
+>;
 
 export interface PositionAgeState {
   symbol: string;
@@ -26,6 +32,7 @@ export interface PositionStateSummary extends PositionAgeState {
 export interface PositionDepthState {
   asset: string;
   symbol: string;
+  marginMode: EngineMarginMode;
   positionAmount: number;
   estimatedValue: number;
   estimatedValueWithLeverage: number;
@@ -40,7 +47,12 @@ export interface PositionDepthState {
 export interface DepthSummary {
   rawDepthSum: number;
   estimatedValueWithLeverage: number;
+  /** Unrealised PnL of cross margin positions, which affects the cross balance */
   unrealisedPnL: number;
+  /** Unrealised PnL of isolated margin positions, which is limited to each position's isolated margin */
+  isolatedUnrealisedPnL: number;
+  /** Margin locked by isolated margin positions */
+  isolatedMarginSum: number;
   crossBalance: number;
   depthWithoutPnL: number;
   depthWithPnL: number;
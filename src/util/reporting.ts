@@ -97,18 +97,18 @@ export async function reportBalanceToApi(
  * @param accountId
  * @param accountViewTags
  * @param state
- * @param quoteBalanceAsset
+ * @param quoteBalanceAsset balance asset to report, defaults to the store's quote asset
  */
 export async function reportBalanceToServer(
   API_URL: string,
   accountId: string,
   accountViewTags: string[],
   state: AccountStateStore,
-  quoteBalanceAsset: string,
+  quoteBalanceAsset: string = state.getQuoteAsset(),
   silent?: boolean,
 ) {
   const totalPositions = state.getTotalActivePositions();
-  const walletBalance = state.getWalletBalance();
+  const walletBalance = state.getWalletBalance(quoteBalanceAsset);
   const positions = state.getAllPositions();
 
   const upnlValue = getUnrealisedPnl(positions);
@@ -118,6 +118,8 @@ export async function reportBalanceToServer(
     walletBalance,
     state.getSymbolLeverageCache(),
     quoteBalanceAsset,
+    state.getDefaultMarginMode(),
+    state.getSymbolMarginModeCache(),
   );
 
   const data: BalanceUpdateEventData = {
@@ -0,0 +1,60 @@
+import { BacktestRunner, parsePriceHistoryJSONL } from '../src';
+
+describe('Backtest', () => {
+  it('closes both sides of hedged positions at the end', async () => {
+    const runner = new BacktestRunner({
+      startingBalance: 1000,
+      storeOptions: { positionMode: 'HEDGE' },
+    });
+    const bars = parsePriceHistoryJSONL(
+      [
+        '{"symbol":"BTCUSDT","timestamp":1000,"close":100}',
+        '{"symbol":"BTCUSDT","timestamp":2000,"close":110}',
+      ].join('\n'),
+    );
+
+    const result = await runner.run(bars, ({ barIndex, engine }) => {
+      if (barIndex) {
+        return;
+      }
+      for (const positionSide of ['LONG', 'SHORT'] as const) {
+        engine.submitOrder({
+          customOrderId: `open-${positionSide}`,
+          symbol: 'BTCUSDT',
+          orderSide: positionSide === 'LONG' ? 'BUY' : 'SELL',
+          positionSide,
+          orderType: 'MARKET',
+          price: 0,
+          originalQuantity: 1,
+          isreduceOnly: false,
+        });
+      }
+    });
+
+    expect(result.store.getAllPositions()).toHaveLength(0);
+    expect(result.trades.map((trade) => trade.side).sort()).toEqual([
+      'LONG',
+      'SHORT',
+    ]);
+
+    const closingOrderIds = result.store
+      .getFills()
+      .map((fill) => fill.customOrderId)
+      .filter((customOrderId) => customOrderId.startsWith('backtest-close'));
+    expect(new Set(closingOrderIds).size).toBe(2);
+
+    const tradeFees = result.trades.reduce((sum, trade) => sum + trade.fees, 0);
+    expect(tradeFees).toBeGreaterThan(0);
+    expect(result.stats.fees).toBeCloseTo(tradeFees);
+  });
+
+  it('reports the line of invalid JSONL price history', () => {
+    expect(() =>
+      parsePriceHistoryJSONL(
+        ['{"symbol":"BTCUSDT","timestamp":1000,"close":100}', '{"close":'].join(
+          '\n',
+        ),
+      ),
+    ).toThrow('Price history line 2: invalid JSON');
+  });
+});
@@ -0,0 +1,55 @@
+import { AccountStateStore } from '../src';
+
+describe('Multi-asset balances', () => {
+  it('tracks balances per asset, defaulting to the quote asset', () => {
+    const store = new AccountStateStore({ quoteAsset: 'USDC' });
+    store.setWalletBalance(1000);
+    store.setWalletBalance(0.5, 'BTC');
+    store.setAssetBalance('BTC', { lockedBalance: 0.1 });
+
+    expect(store.getWalletBalance()).toBe(1000);
+    expect(store.getWalletBalance('USDC')).toBe(1000);
+    expect(store.getAssetBalance('BTC')).toEqual({
+      asset: 'BTC',
+      walletBalance: 0.5,
+      availableBalance: 0.5,
+      lockedBalance: 0.1,
+      equity: 0.5,
+    });
+    expect(store.getWalletBalance('ETH')).toBe(0);
+  });
+
+  it('values aggregate balances in the reporting asset', () => {
+    const store = new AccountStateStore();
+    store.setWalletBalance(1000);
+    store.setWalletBalance(0.5, 'BTC');
+    store.setWalletBalance(10, 'ETH');
+    store.setAssetConversionPrice('BTC', 60000);
+
+    const aggregate = store.getAggregateBalance();
+    expect(aggregate.walletBalance).toBe(31000);
+    expect(aggregate.unpricedAssets).toEqual(['ETH']);
+
+    // Valued in another asset with a known price
+    expect(store.getAggregateBalance('BTC').walletBalance).toBeCloseTo(
+      31000 / 60000,
+    );
+  });
+
+  it('emits balance changes per asset', () => {
+    const store = new AccountStateStore();
+    const onBalanceChanged = jest.fn();
+    store.on('balanceChanged', onBalanceChanged);
+
+    store.setWalletBalance(0.5, 'BTC');
+    // Unchanged wallet balance
+    store.setAssetBalance('BTC', { equity: 0.6 });
+    store.deleteAssetBalance('BTC');
+
+    expect(onBalanceChanged.mock.calls.map(([event]) => event)).toEqual([
+      { asset: 'BTC', previous: 0, current: 0.5, delta: 0.5 },
+      { asset: 'BTC', previous: 0.5, current: 0, delta: -0.5 },
+    ]);
+    expect(store.getAssetBalance('BTC')).toBeUndefined();
+  });
+});
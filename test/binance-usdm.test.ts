@@ -0,0 +1,145 @@
+import {
+  AccountStateStore,
+  applyBinanceUsdmAccountUpdate,
+  applyBinanceUsdmOrderUpdate,
+  mapBinanceUsdmRestOrder,
+  mapBinanceUsdmRestPosition,
+} from '../src';
+import {
+  binanceUsdmRestOrder,
+  binanceUsdmRestPosition,
+  makeBinanceUsdmAccountUpdate,
+  makeBinanceUsdmOrderUpdate,
+} from './payloads/binance-usdm';
+
+describe('Binance USDM adapter', () => {
+  it('maps REST positions & orders', () => {
+    const position = mapBinanceUsdmRestPosition(binanceUsdmRestPosition);
+    expect(position).toMatchObject({
+      symbol: 'BTCUSDT',
+      positionSide: 'SHORT',
+      orderPositionSide: 'BOTH',
+      assetQty: -0.01,
+      positionPrice: 60000,
+      value: 605,
+      marginValue: 60.5,
+      liquidationPrice: 75123.45,
+    });
+    expect(position.isolatedMargin).toBeUndefined();
+
+    expect(mapBinanceUsdmRestOrder(binanceUsdmRestOrder)).toMatchObject({
+      exchangeOrderId: '8389765498412345',
+      positionSide: 'NONE',
+      orderType: 'TAKE_PROFIT_MARKET',
+      status: 'NEW',
+      triggerPrice: 65000,
+      isreduceOnly: true,
+    });
+  });
+
+  it('keeps a running total of fees per order', () => {
+    const store = new AccountStateStore();
+    applyBinanceUsdmOrderUpdate(store, makeBinanceUsdmOrderUpdate());
+    applyBinanceUsdmOrderUpdate(
+      store,
+      makeBinanceUsdmOrderUpdate({
+        x: 'TRADE',
+        X: 'PARTIALLY_FILLED',
+        z: '0.001',
+        ap: '60000',
+        n: '0.012',
+        N: 'USDT',
+      }),
+    );
+    const order = applyBinanceUsdmOrderUpdate(
+      store,
+      makeBinanceUsdmOrderUpdate({
+        x: 'TRADE',
+        X: 'FILLED',
+        z: '0.002',
+        ap: '60000',
+        n: '0.012',
+        N: 'USDT',
+      }),
+    );
+
+    expect(order.cumulativeFee).toBeCloseTo(0.024);
+    expect(store.getRealisedPnl().fees).toBeCloseTo(0.024);
+  });
+
+  it('applies account updates', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    applyBinanceUsdmAccountUpdate(
+      store,
+      makeBinanceUsdmAccountUpdate([
+        {
+          s: 'BTCUSDT',
+          pa: '0.01',
+          ep: '60000',
+          up: '1',
+          mt: 'isolated',
+          iw: '60',
+          ps: 'BOTH',
+        },
+      ]),
+    );
+
+    expect(store.getWalletBalance('USDT')).toBe(1000.5);
+    expect(store.getSymbolMarginMode('BTCUSDT')).toBe('isolated');
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toMatchObject({
+      assetQty: 0.01,
+      isolatedMargin: 60,
+    });
+
+    applyBinanceUsdmAccountUpdate(
+      store,
+      makeBinanceUsdmAccountUpdate([
+        {
+          s: 'BTCUSDT',
+          pa: '0',
+          ep: '0',
+          up: '0',
+          mt: 'isolated',
+          iw: '0',
+          ps: 'BOTH',
+        },
+      ]),
+    );
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+
+  it('replaces the previous side when a one-way position flips in a hedge mode store', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    applyBinanceUsdmAccountUpdate(
+      store,
+      makeBinanceUsdmAccountUpdate([
+        {
+          s: 'BTCUSDT',
+          pa: '0.01',
+          ep: '60000',
+          up: '0',
+          mt: 'cross',
+          iw: '0',
+          ps: 'BOTH',
+        },
+      ]),
+    );
+    applyBinanceUsdmAccountUpdate(
+      store,
+      makeBinanceUsdmAccountUpdate([
+        {
+          s: 'BTCUSDT',
+          pa: '-0.02',
+          ep: '61000',
+          up: '0',
+          mt: 'cross',
+          iw: '0',
+          ps: 'BOTH',
+        },
+      ]),
+    );
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    expect(store.getActivePosition('BTCUSDT', 'SHORT')?.assetQty).toBe(-0.02);
+  });
+});
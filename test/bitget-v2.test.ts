@@ -0,0 +1,72 @@
+import {
+  AccountStateStore,
+  applyBitgetV2OrderUpdate,
+  applyBitgetV2PositionUpdate,
+  mapBitgetV2Order,
+  mapBitgetV2Position,
+} from '../src';
+import {
+  makeBitgetV2Message,
+  makeBitgetV2Order,
+  makeBitgetV2Position,
+} from './payloads/bitget-v2';
+
+describe('Bitget V2 adapter', () => {
+  it('maps positions & orders', () => {
+    expect(
+      mapBitgetV2Position(
+        makeBitgetV2Position({ holdSide: 'short', marginMode: 'isolated' }),
+      ),
+    ).toMatchObject({
+      symbol: 'BTCUSDT',
+      positionSide: 'SHORT',
+      orderPositionSide: 'SHORT',
+      assetQty: -0.1,
+      positionPrice: 60000,
+      isolatedMargin: 600,
+    });
+
+    expect(mapBitgetV2Order(makeBitgetV2Order())).toMatchObject({
+      exchangeOrderId: '1234',
+      positionSide: 'LONG',
+      status: 'PARTIALLY_FILLED',
+      executedQuantity: 0.04,
+      // Bitget reports charged fees as negative
+      cumulativeFee: 0.48,
+      feeAsset: 'USDT',
+    });
+  });
+
+  it('deletes positions missing from a positions push', () => {
+    const store = new AccountStateStore();
+    applyBitgetV2PositionUpdate(
+      store,
+      makeBitgetV2Message('positions', [
+        makeBitgetV2Position(),
+        makeBitgetV2Position({ holdSide: 'short' }),
+      ]),
+    );
+    expect(store.getAllPositions()).toHaveLength(2);
+    expect(store.getSymbolLeverage('BTCUSDT')).toBe(10);
+
+    applyBitgetV2PositionUpdate(
+      store,
+      makeBitgetV2Message('positions', [
+        makeBitgetV2Position({ holdSide: 'short', total: '0.2' }),
+      ]),
+    );
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    expect(store.getActivePosition('BTCUSDT', 'SHORT')?.assetQty).toBe(-0.2);
+  });
+
+  it('applies order updates', () => {
+    const store = new AccountStateStore();
+    applyBitgetV2OrderUpdate(
+      store,
+      makeBitgetV2Message('orders', [makeBitgetV2Order()]),
+    );
+
+    expect(store.getOrders()).toHaveLength(1);
+    expect(store.getFills()[0].qty).toBe(0.04);
+  });
+});
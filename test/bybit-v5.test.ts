@@ -0,0 +1,77 @@
+import {
+  AccountStateStore,
+  applyBybitV5OrderUpdate,
+  applyBybitV5PositionUpdate,
+  mapBybitV5Order,
+  mapBybitV5Position,
+} from '../src';
+import {
+  makeBybitV5Message,
+  makeBybitV5Order,
+  makeBybitV5Position,
+} from './payloads/bybit-v5';
+
+describe('Bybit V5 adapter', () => {
+  it('maps positions & orders', () => {
+    expect(
+      mapBybitV5Position(makeBybitV5Position({ side: 'Sell' })),
+    ).toMatchObject({
+      positionSide: 'SHORT',
+      orderPositionSide: 'BOTH',
+      assetQty: -0.01,
+      positionPrice: 60000,
+      marginValue: 60.3,
+      takeProfitPrice: 65000,
+      stopLossPrice: undefined,
+    });
+
+    expect(mapBybitV5Order(makeBybitV5Order())).toMatchObject({
+      positionSide: 'NONE',
+      orderType: 'STOP_MARKET',
+      status: 'NEW',
+      triggerPrice: 55000,
+      cumulativeFee: 0,
+    });
+  });
+
+  it('applies position & order updates', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    applyBybitV5PositionUpdate(
+      store,
+      makeBybitV5Message('position', [makeBybitV5Position()]),
+    );
+    applyBybitV5OrderUpdate(
+      store,
+      makeBybitV5Message('order', [makeBybitV5Order()]),
+    );
+
+    expect(store.getSymbolLeverage('BTCUSDT')).toBe(10);
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(0.01);
+    expect(store.getOrders()).toHaveLength(1);
+
+    applyBybitV5PositionUpdate(
+      store,
+      makeBybitV5Message('position', [
+        makeBybitV5Position({ side: '', size: '0' }),
+      ]),
+    );
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+
+  it('replaces the previous side when a one-way position flips in a hedge mode store', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    applyBybitV5PositionUpdate(
+      store,
+      makeBybitV5Message('position', [makeBybitV5Position()]),
+    );
+    applyBybitV5PositionUpdate(
+      store,
+      makeBybitV5Message('position', [
+        makeBybitV5Position({ side: 'Sell', size: '0.02' }),
+      ]),
+    );
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    expect(store.getActivePosition('BTCUSDT', 'SHORT')?.assetQty).toBe(-0.02);
+  });
+});
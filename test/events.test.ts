@@ -0,0 +1,75 @@
+import { AccountStateStore, PositionChangeEvent } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('AccountStateStore events', () => {
+  it('emits typed position change events with copies of the position', () => {
+    const store = new AccountStateStore();
+    const changes: PositionChangeEvent[] = [];
+    store.on('positionChanged', (event) => changes.push(event));
+    const onOpened = jest.fn();
+    store.on('positionOpened', onOpened);
+
+    const position = makePosition({ assetQty: 1 });
+    store.setActivePosition('BTCUSDT', 'LONG', position);
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 2 }));
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    store.deleteActivePosition('BTCUSDT', 'LONG');
+
+    expect(changes.map((event) => event.changeType)).toEqual([
+      'opened',
+      'increased',
+      'reduced',
+      'closed',
+    ]);
+    expect(onOpened).toHaveBeenCalledTimes(1);
+
+    position.assetQty = 5;
+    expect(changes[0].current?.assetQty).toBe(1);
+  });
+
+  it('emits order added, updated & removed events', () => {
+    const store = new AccountStateStore();
+    const events: string[] = [];
+    store.on('orderAdded', () => events.push('added'));
+    store.on('orderUpdated', () => events.push('updated'));
+    store.on('orderRemoved', () => events.push('removed'));
+
+    store.upsertActiveOrder(makeOrder());
+    store.upsertActiveOrder(makeOrder({ price: 101 }));
+    store.upsertActiveOrder(makeOrder({ status: 'CANCELLED' }));
+
+    expect(events).toEqual(['added', 'updated', 'removed']);
+  });
+
+  it('supports once() and unsubscribing', () => {
+    const store = new AccountStateStore();
+    const onceListener = jest.fn();
+    const listener = jest.fn();
+    store.once('balanceChanged', onceListener);
+    const unsubscribe = store.on('balanceChanged', listener);
+
+    store.setWalletBalance(100);
+    unsubscribe();
+    store.setWalletBalance(200);
+
+    expect(onceListener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.listenerCount('balanceChanged')).toBe(0);
+  });
+
+  it('does not let a throwing listener interrupt a state update', () => {
+    const store = new AccountStateStore();
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    store.on('balanceChanged', () => {
+      throw new Error('listener failure');
+    });
+
+    store.setWalletBalance(100);
+
+    expect(store.getWalletBalance()).toBe(100);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
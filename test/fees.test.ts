@@ -0,0 +1,100 @@
+import { AccountStateStore } from '../src';
+
+describe('Fees & funding', () => {
+  it('only adds fees in the settle asset to net realised PnL', () => {
+    const store = new AccountStateStore();
+    store.recordTradingFee({
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      amount: 1,
+      asset: 'USDT',
+      timestampMs: 1000,
+    });
+    store.recordTradingFee({
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      amount: 0.01,
+      asset: 'BNB',
+      timestampMs: 1000,
+    });
+
+    const pnl = store.getRealisedPnl('BTCUSDT', 'LONG');
+    expect(pnl.fees).toBe(1);
+    expect(pnl.feesByAsset).toEqual({ USDT: 1, BNB: 0.01 });
+    expect(pnl.netRealisedPnl).toBe(-1);
+  });
+
+  it('aggregates realised PnL per settle asset', () => {
+    const store = new AccountStateStore();
+    store.setContractSpec({
+      symbol: 'BTCUSD',
+      contractType: 'inverse',
+      contractSize: 100,
+      settleAsset: 'BTC',
+    });
+    store.recordFundingPayment({
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      amount: 5,
+      asset: 'USDT',
+      timestampMs: 1000,
+    });
+    store.recordFundingPayment({
+      symbol: 'BTCUSD',
+      positionSide: 'SHORT',
+      amount: 0.001,
+      asset: 'BTC',
+      timestampMs: 1000,
+    });
+
+    const byAsset = store.getRealisedPnlByAsset();
+    expect(byAsset.USDT.funding).toBe(5);
+    expect(byAsset.BTC.funding).toBe(0.001);
+  });
+
+  it('converts realised PnL & fees to the balance asset in the session summary', () => {
+    const store = new AccountStateStore();
+    store.setContractSpec({
+      symbol: 'BTCUSD',
+      contractType: 'inverse',
+      contractSize: 100,
+      settleAsset: 'BTC',
+    });
+    store.recordFundingPayment({
+      symbol: 'BTCUSD',
+      positionSide: 'SHORT',
+      amount: 0.001,
+      asset: 'BTC',
+      timestampMs: 1000,
+    });
+    store.recordTradingFee({
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      amount: 1,
+      asset: 'USDT',
+      timestampMs: 1000,
+    });
+    store.recordTradingFee({
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      amount: 0.01,
+      asset: 'BNB',
+      timestampMs: 1000,
+    });
+
+    // Without conversion prices, only quote asset values are included
+    let { pnlState } = store.getSessionSummary(0).account;
+    expect(pnlState.fees).toBe(1);
+    expect(pnlState.funding).toBe(0);
+
+    store.setAssetConversionPrice('USDT', 1);
+    store.setAssetConversionPrice('BTC', 50000);
+    store.setAssetConversionPrice('BNB', 500);
+
+    pnlState = store.getSessionSummary(0).account.pnlState;
+    expect(pnlState.fees).toBeCloseTo(6);
+    expect(pnlState.funding).toBeCloseTo(50);
+    expect(pnlState.realisedPnl).toBeCloseTo(44);
+    expect(pnlState.realisedPnlByAsset.BTC.funding).toBe(0.001);
+  });
+});
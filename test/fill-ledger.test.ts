@@ -0,0 +1,278 @@
+import { AccountStateStore } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('Fill ledger', () => {
+  it('derives incremental fills from cumulative order updates', () => {
+    const store = new AccountStateStore();
+    store.upsertActiveOrder(makeOrder());
+    store.upsertActiveOrder(
+      makeOrder({
+        status: 'PARTIALLY_FILLED',
+        executedQuantity: 0.4,
+        averagePrice: 100,
+      }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({ status: 'FILLED', executedQuantity: 1, averagePrice: 106 }),
+    );
+    // Duplicate update after the order completed
+    store.upsertActiveOrder(
+      makeOrder({ status: 'FILLED', executedQuantity: 1, averagePrice: 106 }),
+    );
+
+    const fills = store.getFills();
+    expect(fills.map((fill) => fill.qty)).toEqual([0.4, 0.6]);
+    expect(fills[1].price).toBeCloseTo(110);
+    expect(fills.map((fill) => fill.fillId)).toEqual([
+      'order-1:1',
+      'order-1:2',
+    ]);
+  });
+
+  it('realises PnL for fills that reduce a position', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 2, positionPrice: 100 }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        orderSide: 'SELL',
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 110,
+        cumulativeFee: 0.5,
+        feeAsset: 'USDT',
+      }),
+    );
+
+    const pnl = store.getRealisedPnl('BTCUSDT', 'LONG');
+    expect(pnl.realisedPnl).toBe(10);
+    expect(pnl.fees).toBe(0.5);
+    expect(pnl.netRealisedPnl).toBe(9.5);
+  });
+
+  it('keeps tracking fills for orders pending cancellation', () => {
+    const store = new AccountStateStore({ orderArchive: {} });
+    store.upsertActiveOrder(makeOrder());
+    store.upsertActiveOrder(makeOrder({ status: 'PENDING_CANCEL' }));
+
+    expect(store.getOrdersByStatus('PENDING_CANCEL')).toHaveLength(1);
+    expect(store.getArchivedOrders()).toHaveLength(0);
+
+    store.upsertActiveOrder(
+      makeOrder({ status: 'FILLED', executedQuantity: 1, averagePrice: 100 }),
+    );
+
+    expect(store.getFills()).toHaveLength(1);
+    expect(store.getOrders()).toHaveLength(0);
+    expect(store.getArchivedOrders()[0].order.status).toBe('FILLED');
+  });
+
+  it('drops the execution state of deleted orders', () => {
+    const store = new AccountStateStore();
+    store.upsertActiveOrder(
+      makeOrder({
+        status: 'PARTIALLY_FILLED',
+        executedQuantity: 0.4,
+        averagePrice: 100,
+      }),
+    );
+    expect(Object.keys(store.toSnapshot().fillLedger.orderCursors)).toEqual([
+      'order-1',
+    ]);
+
+    store.deleteOrder('order-1');
+    expect(store.toSnapshot().fillLedger.orderCursors).toEqual({});
+  });
+
+  it('remembers a bounded number of completed orders', () => {
+    const store = new AccountStateStore({
+      fillLedger: { maxTerminalOrders: 2 },
+    });
+    for (const exchangeOrderId of ['order-1', 'order-2', 'order-3']) {
+      store.upsertActiveOrder(
+        makeOrder({
+          exchangeOrderId,
+          status: 'FILLED',
+          executedQuantity: 1,
+          averagePrice: 100,
+        }),
+      );
+    }
+
+    const { fillLedger } = store.toSnapshot();
+    expect(fillLedger.orderCursors).toEqual({});
+    expect(fillLedger.completedOrderIds).toEqual(['order-2', 'order-3']);
+
+    // Late update for a completed order, after restoring a snapshot
+    const restored = new AccountStateStore();
+    restored.restoreSnapshot(store.toSnapshot());
+    restored.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'order-3',
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 100,
+      }),
+    );
+    expect(restored.getFills()).toHaveLength(3);
+  });
+
+  describe.each(['HEDGE', 'ONE_WAY'] as const)(
+    'closing fill after the position was closed (%s mode)',
+    (positionMode) => {
+      it('realises PnL against the closed position', () => {
+        const store = new AccountStateStore({ positionMode });
+        store.setActivePosition(
+          'BTCUSDT',
+          'LONG',
+          makePosition({ assetQty: 1, positionPrice: 100 }),
+        );
+        store.upsertActiveOrder(makeOrder({ orderSide: 'SELL' }));
+        store.deleteActivePosition('BTCUSDT', 'LONG');
+        store.upsertActiveOrder(
+          makeOrder({
+            orderSide: 'SELL',
+            status: 'FILLED',
+            executedQuantity: 1,
+            averagePrice: 110,
+          }),
+        );
+
+        const [fill] = store.getFills();
+        expect(fill.closedQty).toBe(1);
+        expect(fill.realisedPnl).toBe(10);
+
+        // A later fill in the same direction opens a new position
+        store.upsertActiveOrder(
+          makeOrder({
+            exchangeOrderId: 'order-2',
+            orderSide: 'SELL',
+            status: 'FILLED',
+            executedQuantity: 1,
+            averagePrice: 110,
+          }),
+        );
+        expect(store.getFills()[1].closedQty).toBe(
+          positionMode === 'HEDGE' ? 1 : 0,
+        );
+      });
+    },
+  );
+
+  it('realises PnL against the position before a one-way flip reported ahead of its fill', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({ orderSide: 'SELL', originalQuantity: 2 }),
+    );
+    // The flipped position arrives before the order update that flipped it
+    store.setActivePosition(
+      'BTCUSDT',
+      'SHORT',
+      makePosition({ assetQty: -1, positionPrice: 110, positionSide: 'SHORT' }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        orderSide: 'SELL',
+        originalQuantity: 2,
+        status: 'FILLED',
+        executedQuantity: 2,
+        averagePrice: 110,
+      }),
+    );
+
+    const [fill] = store.getFills();
+    expect(fill.closedQty).toBe(1);
+    expect(fill.realisedPnl).toBe(10);
+
+    // A later fill in the same direction adds to the short position
+    store.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'order-2',
+        orderSide: 'SELL',
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 110,
+      }),
+    );
+    expect(store.getFills()[1].closedQty).toBe(0);
+  });
+
+  it('realises PnL on the position size only when deriving positions from fills', () => {
+    const store = new AccountStateStore({ positionsFromFills: true });
+    store.upsertActiveOrder(
+      makeOrder({ status: 'FILLED', executedQuantity: 1, averagePrice: 100 }),
+    );
+    // Closes more than the 1 open on the long side
+    store.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'order-2',
+        orderSide: 'SELL',
+        status: 'FILLED',
+        executedQuantity: 2,
+        averagePrice: 110,
+      }),
+    );
+
+    const fill = store.getFills()[1];
+    expect(fill.closedQty).toBe(1);
+    expect(fill.realisedPnl).toBe(10);
+    expect(store.getRealisedPnl('BTCUSDT', 'LONG').realisedPnl).toBe(10);
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+  });
+
+  it('gives applied fills in the same millisecond unique IDs', () => {
+    const store = new AccountStateStore();
+    for (let i = 0; i < 2; i++) {
+      store.applyFill({
+        symbol: 'BTCUSDT',
+        orderSide: 'BUY',
+        qty: 1,
+        price: 100,
+        timestampMs: 1000,
+      });
+    }
+
+    expect(store.getFills().map((fill) => fill.fillId)).toEqual([
+      'BTCUSDT:applied-1',
+      'BTCUSDT:applied-2',
+    ]);
+
+    const restored = new AccountStateStore();
+    restored.restoreSnapshot(store.toSnapshot());
+    expect(
+      restored.applyFill({
+        symbol: 'BTCUSDT',
+        orderSide: 'BUY',
+        qty: 1,
+        price: 100,
+        timestampMs: 1000,
+      }).fillId,
+    ).toBe('BTCUSDT:applied-3');
+  });
+
+  it('treats a reduce-only fill without a known position as closing', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.upsertActiveOrder(
+      makeOrder({
+        orderSide: 'SELL',
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 110,
+        isreduceOnly: true,
+      }),
+    );
+
+    const [fill] = store.getFills();
+    expect(fill.closedQty).toBe(1);
+    // Without an entry price, the realised PnL is unknown
+    expect(fill.realisedPnl).toBe(0);
+  });
+});
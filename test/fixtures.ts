@@ -0,0 +1,43 @@
+import { EngineOrder, EngineSimplePosition } from '../src';
+
+export function makePosition(
+  overrides: Partial<EngineSimplePosition> = {},
+): EngineSimplePosition {
+  const assetQty = overrides.assetQty ?? 1;
+  const positionPrice = overrides.positionPrice ?? 100;
+  return {
+    symbol: 'BTCUSDT',
+    timestampMs: 1000,
+    positionSide: assetQty < 0 ? 'SHORT' : 'LONG',
+    orderPositionSide: assetQty < 0 ? 'SHORT' : 'LONG',
+    positionPrice,
+    assetQty,
+    value: Math.abs(assetQty) * positionPrice,
+    valueUpnl: 0,
+    marginValue: 0,
+    liquidationPrice: 0,
+    stopLossPrice: undefined,
+    takeProfitPrice: undefined,
+    ...overrides,
+  };
+}
+
+export function makeOrder(overrides: Partial<EngineOrder> = {}): EngineOrder {
+  return {
+    exchangeOrderId: 'order-1',
+    customOrderId: 'custom-1',
+    symbol: 'BTCUSDT',
+    orderSide: 'BUY',
+    positionSide: 'LONG',
+    orderType: 'LIMIT',
+    status: 'NEW',
+    price: 100,
+    originalQuantity: 1,
+    executedQuantity: 0,
+    averagePrice: 0,
+    createdAtMs: 1000,
+    updatedAtMs: 1000,
+    isreduceOnly: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,61 @@
+import {
+  AccountStateStore,
+  applyGateFuturesPositionUpdate,
+  mapGateFuturesPosition,
+} from '../src';
+import {
+  makeGateFuturesMessage,
+  makeGateFuturesPosition,
+} from './payloads/gate-futures';
+
+describe('Gate futures adapter', () => {
+  it('maps positions in contracts to the base asset', () => {
+    expect(
+      mapGateFuturesPosition(makeGateFuturesPosition({ size: -10 }), 0.0001),
+    ).toMatchObject({
+      positionSide: 'SHORT',
+      orderPositionSide: 'BOTH',
+      assetQty: -0.001,
+      value: 60,
+      marginValue: 6,
+      isolatedMargin: undefined,
+    });
+  });
+
+  it('applies position updates', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    applyGateFuturesPositionUpdate(
+      store,
+      makeGateFuturesMessage('futures.positions', [makeGateFuturesPosition()]),
+    );
+
+    expect(store.getSymbolMarginMode('BTC_USDT')).toBe('cross');
+    expect(store.getSymbolLeverage('BTC_USDT')).toBe(10);
+    expect(store.getActivePosition('BTC_USDT', 'LONG')?.assetQty).toBe(10);
+
+    applyGateFuturesPositionUpdate(
+      store,
+      makeGateFuturesMessage('futures.positions', [
+        makeGateFuturesPosition({ size: 0 }),
+      ]),
+    );
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+
+  it('replaces the previous side when a single mode position flips in a hedge mode store', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    applyGateFuturesPositionUpdate(
+      store,
+      makeGateFuturesMessage('futures.positions', [makeGateFuturesPosition()]),
+    );
+    applyGateFuturesPositionUpdate(
+      store,
+      makeGateFuturesMessage('futures.positions', [
+        makeGateFuturesPosition({ size: -20 }),
+      ]),
+    );
+
+    expect(store.getActivePosition('BTC_USDT', 'LONG')).toBeUndefined();
+    expect(store.getActivePosition('BTC_USDT', 'SHORT')?.assetQty).toBe(-20);
+  });
+});
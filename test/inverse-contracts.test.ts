@@ -0,0 +1,77 @@
+import {
+  AccountStateStore,
+  getContractPositionValue,
+  getContractUnrealisedPNL,
+} from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+const BTCUSD_SPEC = {
+  symbol: 'BTCUSD',
+  contractType: 'inverse',
+  contractSize: 100,
+  settleAsset: 'BTC',
+} as const;
+
+// 10 contracts of 100 USD, from 50000 to 55000
+const EXPECTED_PNL = 10 * 100 * (1 / 50000 - 1 / 55000);
+
+describe('Inverse contracts', () => {
+  it('calculates PnL & value in the settle asset', () => {
+    expect(getContractUnrealisedPNL(BTCUSD_SPEC, 55000, 10, 50000)).toBeCloseTo(
+      EXPECTED_PNL,
+      12,
+    );
+    expect(
+      getContractUnrealisedPNL(BTCUSD_SPEC, 55000, -10, 50000),
+    ).toBeCloseTo(-EXPECTED_PNL, 12);
+    expect(getContractPositionValue(BTCUSD_SPEC, 50000, -10)).toBe(0.02);
+
+    // Without a spec, positions are linear in the base asset
+    expect(getContractUnrealisedPNL(undefined, 110, 2, 100)).toBe(20);
+  });
+
+  it('marks positions to market in the settle asset', () => {
+    const store = new AccountStateStore();
+    store.setContractSpec(BTCUSD_SPEC);
+    store.setActivePosition(
+      'BTCUSD',
+      'LONG',
+      makePosition({ symbol: 'BTCUSD', assetQty: 10, positionPrice: 50000 }),
+    );
+    store.processPriceEvent({ symbol: 'BTCUSD', price: 55000 });
+
+    const position = store.getActivePosition('BTCUSD', 'LONG');
+    expect(position?.valueUpnl).toBeCloseTo(EXPECTED_PNL, 12);
+    expect(position?.value).toBeCloseTo(1000 / 55000, 12);
+    expect(store.getSettleAsset('BTCUSD')).toBe('BTC');
+  });
+
+  it('realises PnL from fills in the settle asset', () => {
+    const store = new AccountStateStore();
+    store.setContractSpec(BTCUSD_SPEC);
+    store.setActivePosition(
+      'BTCUSD',
+      'LONG',
+      makePosition({ symbol: 'BTCUSD', assetQty: 10, positionPrice: 50000 }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        symbol: 'BTCUSD',
+        orderSide: 'SELL',
+        status: 'FILLED',
+        originalQuantity: 10,
+        executedQuantity: 10,
+        averagePrice: 55000,
+      }),
+    );
+
+    expect(store.getRealisedPnl('BTCUSD', 'LONG').realisedPnl).toBeCloseTo(
+      EXPECTED_PNL,
+      12,
+    );
+    expect(store.getRealisedPnlByAsset().BTC.realisedPnl).toBeCloseTo(
+      EXPECTED_PNL,
+      12,
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { AccountStateJournal, AccountStateStore } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('AccountStateJournal & replay', () => {
+  let nowMs = 0;
+  let dateNow: jest.SpyInstance;
+
+  beforeEach(() => {
+    nowMs = 1_000_000;
+    dateNow = jest.spyOn(Date, 'now').mockImplementation(() => nowMs++);
+  });
+
+  afterEach(() => {
+    dateNow.mockRestore();
+  });
+
+  function recordSession(journal: AccountStateJournal) {
+    const store = new AccountStateStore({ journal });
+    store.setWalletBalance(1000);
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    store.upsertActiveOrder(
+      makeOrder({
+        orderSide: 'SELL',
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 110,
+        // Without an update time, the fill is timed by the mutation
+        updatedAtMs: 0,
+      }),
+    );
+    store.deleteActivePosition('BTCUSDT', 'LONG');
+    const report = store.reconcile({
+      positions: [makePosition({ symbol: 'ETHUSDT', assetQty: 2 })],
+    });
+    return { store, report };
+  }
+
+  it('replays to the same state, regardless of when the replay runs', () => {
+    const journal = new AccountStateJournal();
+    const { store } = recordSession(journal);
+
+    // Replay much later
+    nowMs = 9_000_000;
+    const replayed = AccountStateStore.replay(journal);
+
+    const { createdAtMs: _live, ...liveState } = store.toSnapshot();
+    const { createdAtMs: _replayed, ...replayedState } = replayed.toSnapshot();
+    expect(replayedState).toEqual(liveState);
+    expect(replayed.getSessionStartMs()).toBe(store.getSessionStartMs());
+    expect(replayed.getPositionUpdatedAtMs('ETHUSDT', 'LONG')).toBe(
+      store.getPositionUpdatedAtMs('ETHUSDT', 'LONG'),
+    );
+  });
+
+  it('times mutations by their journal entry', () => {
+    const journal = new AccountStateJournal();
+    const { store, report } = recordSession(journal);
+
+    const entries = journal.getEntries();
+    const reconcileEntry = entries.find((entry) => entry.type === 'reconcile');
+    expect(report.timestampMs).toBe(reconcileEntry?.timestampMs);
+    expect(store.getSessionStartMs()).toBe(entries[0].timestampMs);
+
+    const fillEntry = entries.find(
+      (entry) => entry.type === 'upsertActiveOrder',
+    );
+    expect(store.getFills()[0].timestampMs).toBe(fillEntry?.timestampMs);
+  });
+
+  it('replays until a sequence number', () => {
+    const journal = new AccountStateJournal();
+    recordSession(journal);
+
+    const replayed = AccountStateStore.replay(journal, { untilSeq: 2 });
+    expect(replayed.getWalletBalance()).toBe(1000);
+    expect(replayed.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(1);
+    expect(replayed.getFills()).toHaveLength(0);
+  });
+});
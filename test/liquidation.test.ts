@@ -0,0 +1,73 @@
+import {
+  AccountStateStore,
+  estimateLiquidationPrice,
+  getMaintenanceMargin,
+  getMarginRatio,
+} from '../src';
+import { makePosition } from './fixtures';
+
+const BRACKETS = [
+  { maxNotional: 1000, maintenanceMarginRate: 0.01 },
+  { maintenanceMarginRate: 0.02, maintenanceAmount: 10 },
+];
+
+describe('Liquidation estimates', () => {
+  it('picks the maintenance margin bracket by position value', () => {
+    expect(getMaintenanceMargin(BRACKETS, 500)).toBe(5);
+    expect(getMaintenanceMargin(BRACKETS, -2000)).toBe(30);
+    expect(getMaintenanceMargin(undefined, 2000)).toBe(0);
+  });
+
+  it('estimates where margin falls to the maintenance margin', () => {
+    const long = estimateLiquidationPrice({
+      positionQty: 1,
+      entryPrice: 100,
+      margin: 10,
+      brackets: BRACKETS,
+    });
+    // 10 + (P - 100) = 0.01 * P
+    expect(long).toBeCloseTo(90 / 0.99);
+
+    const short = estimateLiquidationPrice({
+      positionQty: -1,
+      entryPrice: 100,
+      margin: 10,
+      brackets: BRACKETS,
+    });
+    // 10 - (P - 100) = 0.01 * P
+    expect(short).toBeCloseTo(110 / 1.01);
+
+    // A long with more margin than its value can't be liquidated
+    expect(
+      estimateLiquidationPrice({
+        positionQty: 1,
+        entryPrice: 100,
+        margin: 200,
+      }),
+    ).toBeUndefined();
+  });
+
+  it('estimates isolated positions from their isolated margin', () => {
+    const store = new AccountStateStore();
+    store.setSymbolMarginMode('BTCUSDT', 'isolated', 'LONG');
+    store.setMaintenanceMarginBrackets('BTCUSDT', BRACKETS);
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100, isolatedMargin: 10 }),
+    );
+    store.processPriceEvent({ symbol: 'BTCUSDT', price: 95 });
+
+    const estimate = store.getLiquidationEstimate('BTCUSDT', 'LONG');
+    expect(estimate?.marginMode).toBe('isolated');
+    expect(estimate?.liquidationPrice).toBeCloseTo(90 / 0.99);
+    expect(estimate?.maintenanceMargin).toBeCloseTo(0.95);
+    expect(estimate?.marginBalance).toBeCloseTo(5);
+    expect(estimate?.marginRatio).toBeCloseTo(getMarginRatio(0.95, 5));
+  });
+
+  it('reports an infinite margin ratio without margin balance', () => {
+    expect(getMarginRatio(1, 0)).toBe(Infinity);
+    expect(getMarginRatio(0, -1)).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  AccountStateStore,
+  PendingOrderMonitor,
+  StalenessMonitor,
+} from '../src';
+
+describe('Monitors', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('checks for stale data on an interval until stopped', () => {
+    const store = new AccountStateStore();
+    const checkStaleness = jest.spyOn(store, 'checkStaleness');
+    const monitor = new StalenessMonitor(store, { intervalMs: 100 });
+
+    monitor.start();
+    // Starting twice doesn't add a second timer
+    monitor.start();
+    expect(monitor.isRunning()).toBe(true);
+    jest.advanceTimersByTime(250);
+    expect(checkStaleness).toHaveBeenCalledTimes(2);
+
+    monitor.stop();
+    expect(monitor.isRunning()).toBe(false);
+    jest.advanceTimersByTime(250);
+    expect(checkStaleness).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps running after a check throws', () => {
+    const store = new AccountStateStore();
+    const expirePendingOrders = jest
+      .spyOn(store, 'expirePendingOrders')
+      .mockImplementation(() => {
+        throw new Error('Failed to expire');
+      });
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const monitor = new PendingOrderMonitor(store, { intervalMs: 100 });
+
+    monitor.start();
+    jest.advanceTimersByTime(200);
+    monitor.stop();
+
+    expect(expirePendingOrders).toHaveBeenCalledTimes(2);
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'PendingOrderMonitor: exception expiring pending orders',
+      ),
+    );
+  });
+});
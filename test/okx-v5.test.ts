@@ -0,0 +1,60 @@
+import {
+  AccountStateStore,
+  applyOkxV5PositionUpdate,
+  mapOkxV5Position,
+} from '../src';
+import { makeOkxV5Message, makeOkxV5Position } from './payloads/okx-v5';
+
+describe('OKX V5 adapter', () => {
+  it('maps positions in contracts to the base asset', () => {
+    expect(
+      mapOkxV5Position(makeOkxV5Position({ pos: '-10' }), 0.01),
+    ).toMatchObject({
+      positionSide: 'SHORT',
+      orderPositionSide: 'BOTH',
+      assetQty: -0.1,
+      positionPrice: 60000,
+      marginValue: 6,
+      isolatedMargin: undefined,
+    });
+  });
+
+  it('applies position updates', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    const contractSizes = { 'BTC-USDT-SWAP': 0.01 };
+    applyOkxV5PositionUpdate(
+      store,
+      makeOkxV5Message('positions', [makeOkxV5Position()]),
+      contractSizes,
+    );
+
+    expect(store.getSymbolLeverage('BTC-USDT-SWAP')).toBe(10);
+    expect(store.getActivePosition('BTC-USDT-SWAP', 'LONG')?.assetQty).toBe(
+      0.1,
+    );
+
+    applyOkxV5PositionUpdate(
+      store,
+      makeOkxV5Message('positions', [makeOkxV5Position({ pos: '0' })]),
+      contractSizes,
+    );
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+
+  it('replaces the previous side when a net position flips in a hedge mode store', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    applyOkxV5PositionUpdate(
+      store,
+      makeOkxV5Message('positions', [makeOkxV5Position()]),
+    );
+    applyOkxV5PositionUpdate(
+      store,
+      makeOkxV5Message('positions', [makeOkxV5Position({ pos: '-20' })]),
+    );
+
+    expect(store.getActivePosition('BTC-USDT-SWAP', 'LONG')).toBeUndefined();
+    expect(store.getActivePosition('BTC-USDT-SWAP', 'SHORT')?.assetQty).toBe(
+      -20,
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { AccountStateStore } from '../src';
+import { makeOrder } from './fixtures';
+
+describe('Order archive', () => {
+  it('archives terminal orders with their status transitions', () => {
+    const store = new AccountStateStore({ orderArchive: {} });
+    store.upsertActiveOrder(makeOrder({ updatedAtMs: 1000 }));
+    store.upsertActiveOrder(
+      makeOrder({
+        status: 'PARTIALLY_FILLED',
+        executedQuantity: 0.4,
+        averagePrice: 100,
+        updatedAtMs: 2000,
+      }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        status: 'FILLED',
+        executedQuantity: 1,
+        averagePrice: 100,
+        updatedAtMs: 3000,
+      }),
+    );
+
+    expect(store.getOrders()).toHaveLength(0);
+    expect(store.getOrdersByStatus('FILLED')).toHaveLength(1);
+    expect(store.getOrderHistory('order-1')).toEqual([
+      { status: 'NEW', timestampMs: 1000, executedQuantity: 0 },
+      { status: 'PARTIALLY_FILLED', timestampMs: 2000, executedQuantity: 0.4 },
+      { status: 'FILLED', timestampMs: 3000, executedQuantity: 1 },
+    ]);
+    expect(
+      store.getArchivedOrders({ customOrderId: 'custom-1', fromMs: 3000 }),
+    ).toHaveLength(1);
+    expect(store.getArchivedOrders({ fromMs: 3001 })).toHaveLength(0);
+  });
+
+  it('drops the oldest orders beyond the limit', () => {
+    const store = new AccountStateStore({ orderArchive: { maxOrders: 2 } });
+    for (const exchangeOrderId of ['order-1', 'order-2', 'order-3']) {
+      store.upsertActiveOrder(
+        makeOrder({ exchangeOrderId, status: 'CANCELLED' }),
+      );
+    }
+
+    expect(
+      store.getArchivedOrders().map(({ order }) => order.exchangeOrderId),
+    ).toEqual(['order-2', 'order-3']);
+  });
+
+  it('does not archive orders removed without reaching a terminal status', () => {
+    const store = new AccountStateStore({ orderArchive: {} });
+    store.upsertActiveOrder(makeOrder());
+    store.deleteOrder('order-1');
+
+    expect(store.getArchivedOrders()).toHaveLength(0);
+    expect(store.getOrderHistory('order-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { AccountStateStore, EngineOrder } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('Order groups', () => {
+  function makeProtectedStore() {
+    const store = new AccountStateStore();
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'sl-1',
+        customOrderId: 'custom-sl',
+        orderSide: 'SELL',
+        orderType: 'STOP_MARKET',
+        price: 0,
+        triggerPrice: 90,
+        isreduceOnly: true,
+      }),
+    );
+    store.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'tp-1',
+        customOrderId: 'custom-tp',
+        orderSide: 'SELL',
+        orderType: 'TAKE_PROFIT_MARKET',
+        price: 0,
+        triggerPrice: 120,
+        isreduceOnly: true,
+      }),
+    );
+    store.setOrderGroup({
+      groupId: 'btc-oco',
+      type: 'oco',
+      symbol: 'BTCUSDT',
+      positionSide: 'LONG',
+      createdAtMs: 1000,
+      orders: [
+        { orderId: 'custom-sl', role: 'stopLoss' },
+        { orderId: 'tp-1', role: 'takeProfit' },
+      ],
+    });
+    return store;
+  }
+
+  it('syncs the position stop loss & take profit with linked orders', () => {
+    const store = makeProtectedStore();
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toMatchObject({
+      stopLossPrice: 90,
+      takeProfitPrice: 120,
+    });
+    expect(store.getOrderGroupsForOrder('sl-1')).toHaveLength(1);
+    expect(store.getPositionProtection('BTCUSDT', 'LONG')).toMatchObject({
+      stopLossPrice: 90,
+      stopLossQty: 1,
+      isFullyProtected: true,
+    });
+
+    // The stop loss is cancelled
+    store.upsertActiveOrder(
+      makeOrder({
+        exchangeOrderId: 'sl-1',
+        customOrderId: 'custom-sl',
+        orderSide: 'SELL',
+        orderType: 'STOP_MARKET',
+        status: 'CANCELLED',
+        triggerPrice: 90,
+        isreduceOnly: true,
+      }),
+    );
+    expect(store.isPositionProtected('BTCUSDT', 'LONG')).toBe(false);
+    expect(
+      store.getActivePosition('BTCUSDT', 'LONG')?.stopLossPrice,
+    ).toBeUndefined();
+  });
+
+  it('reports linked orders as orphaned once the position closes', () => {
+    const store = makeProtectedStore();
+    const onOrphaned = jest.fn();
+    store.on('ordersOrphaned', onOrphaned);
+
+    store.deleteActivePosition('BTCUSDT', 'LONG');
+
+    expect(onOrphaned).toHaveBeenCalledTimes(1);
+    expect(
+      onOrphaned.mock.calls[0][0].orders.map(
+        (order: EngineOrder) => order.exchangeOrderId,
+      ),
+    ).toEqual(['sl-1', 'tp-1']);
+    expect(store.getOrphanedOrders('BTCUSDT')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,47 @@
+import { AccountStateStore, OrderIndex } from '../src';
+import { makeOrder } from './fixtures';
+
+describe('OrderIndex', () => {
+  it('re-indexes orders when they change', () => {
+    const index = new OrderIndex([
+      makeOrder(),
+      makeOrder({
+        exchangeOrderId: 'order-2',
+        customOrderId: 'custom-2',
+        symbol: 'ETHUSDT',
+        orderSide: 'SELL',
+      }),
+    ]);
+
+    index.set(
+      makeOrder({ customOrderId: 'custom-3', status: 'PARTIALLY_FILLED' }),
+    );
+
+    expect(index.getByCustomId('custom-1')).toBeUndefined();
+    expect(index.getByCustomId('custom-3')?.exchangeOrderId).toBe('order-1');
+    expect(
+      index.getByStatus('NEW').map((order) => order.exchangeOrderId),
+    ).toEqual(['order-2']);
+    expect(index.getForSymbolSide('ETHUSDT', 'SELL')).toHaveLength(1);
+    expect(index.getForSymbolSide('ETHUSDT', 'BUY')).toHaveLength(0);
+
+    index.delete('order-2');
+    expect(index.getForSymbol('ETHUSDT')).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+
+  it('looks up store orders by custom order ID, including pending orders', () => {
+    const store = new AccountStateStore();
+    store.upsertActiveOrder(makeOrder());
+    store.addPendingOrder({
+      ...makeOrder({ customOrderId: 'custom-2', price: 110 }),
+      exchangeOrderId: undefined,
+    });
+
+    expect(store.getOrderByCustomId('custom-1')).toMatchObject({
+      exchangeOrderId: 'order-1',
+    });
+    expect(store.getOrderByCustomId('custom-2')).toMatchObject({ price: 110 });
+    expect(store.getOrdersForSymbol('BTCUSDT')).toHaveLength(1);
+  });
+});
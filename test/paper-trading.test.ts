@@ -0,0 +1,145 @@
+import {
+  AccountStateStore,
+  PaperOrderRequest,
+  PaperTradingEngine,
+} from '../src';
+
+function makeRequest(
+  overrides: Partial<PaperOrderRequest> = {},
+): PaperOrderRequest {
+  return {
+    customOrderId: 'custom-1',
+    symbol: 'BTCUSDT',
+    orderSide: 'BUY',
+    positionSide: 'LONG',
+    orderType: 'MARKET',
+    price: 0,
+    originalQuantity: 1,
+    isreduceOnly: false,
+    ...overrides,
+  };
+}
+
+describe('PaperTradingEngine', () => {
+  function makeEngine(makerFeeRate = 0, takerFeeRate = 0) {
+    const store = new AccountStateStore({ positionsFromFills: true });
+    store.setWalletBalance(1000);
+    const engine = new PaperTradingEngine(store, {
+      makerFeeRate,
+      takerFeeRate,
+    });
+    return { store, engine };
+  }
+
+  it('requires a store deriving positions from fills', () => {
+    expect(() => new PaperTradingEngine(new AccountStateStore())).toThrow(
+      'requires a store with positionsFromFills enabled',
+    );
+  });
+
+  it('rejects market orders without a price', () => {
+    const { engine } = makeEngine();
+    expect(engine.submitOrder(makeRequest()).status).toBe('REJECTED');
+  });
+
+  it('books realised PnL & fees to the wallet balance', () => {
+    const { store, engine } = makeEngine(0, 0.001);
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    engine.submitOrder(makeRequest());
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(1);
+
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 110 });
+    engine.submitOrder(
+      makeRequest({ customOrderId: 'custom-2', orderSide: 'SELL' }),
+    );
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    // 10 realised, less 0.1 + 0.11 in fees
+    expect(store.getWalletBalance()).toBeCloseTo(1009.79);
+  });
+
+  it('only realises PnL on the open quantity when closing more than the position', () => {
+    const { store, engine } = makeEngine();
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    engine.submitOrder(makeRequest());
+
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 110 });
+    engine.submitOrder(
+      makeRequest({
+        customOrderId: 'custom-2',
+        orderSide: 'SELL',
+        originalQuantity: 2,
+      }),
+    );
+
+    expect(store.getWalletBalance()).toBe(1010);
+  });
+
+  it('does not open a hedge side with a closing order after the position is gone', () => {
+    const { store, engine } = makeEngine();
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    engine.submitOrder(makeRequest({ orderSide: 'SELL' }));
+
+    expect(store.getAllPositions()).toHaveLength(0);
+    expect(store.getWalletBalance()).toBe(1000);
+  });
+
+  it('fills resting limit orders as maker once the price crosses', () => {
+    const { store, engine } = makeEngine(0.001, 0);
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    const order = engine.submitOrder(
+      makeRequest({ orderType: 'LIMIT', price: 95 }),
+    );
+    expect(order.status).toBe('NEW');
+    expect(engine.getOpenOrders()).toHaveLength(1);
+
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 94 });
+
+    expect(engine.getOpenOrders()).toHaveLength(0);
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.positionPrice).toBe(95);
+    expect(store.getWalletBalance()).toBeCloseTo(1000 - 0.095);
+  });
+
+  it('triggers trailing stops once the price retraces from its best price', () => {
+    const { store, engine } = makeEngine();
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    engine.submitOrder(makeRequest());
+    engine.submitOrder(
+      makeRequest({
+        customOrderId: 'custom-2',
+        orderSide: 'SELL',
+        orderType: 'TRAILING_STOP_MARKET',
+        callbackRate: 0.1,
+        isreduceOnly: true,
+      }),
+    );
+
+    for (const price of [110, 120, 109]) {
+      engine.processPriceEvent({ symbol: 'BTCUSDT', price });
+    }
+    expect(engine.getOpenOrders()).toHaveLength(1);
+
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 108 });
+    expect(engine.getOpenOrders()).toHaveLength(0);
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    expect(store.getWalletBalance()).toBe(1008);
+  });
+
+  it('expires the remainder of reduce-only orders larger than the position', () => {
+    const { store, engine } = makeEngine();
+    engine.processPriceEvent({ symbol: 'BTCUSDT', price: 100 });
+    engine.submitOrder(makeRequest());
+
+    const order = engine.submitOrder(
+      makeRequest({
+        customOrderId: 'custom-2',
+        orderSide: 'SELL',
+        originalQuantity: 3,
+        isreduceOnly: true,
+      }),
+    );
+
+    expect(order).toMatchObject({ status: 'EXPIRED', executedQuantity: 1 });
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  BinanceUsdmRestOrder,
+  BinanceUsdmRestPosition,
+  BinanceUsdmWsAccountUpdateEvent,
+  BinanceUsdmWsOrderUpdateEvent,
+} from '../../src';
+
+/** GET /fapi/v2/positionRisk, one-way mode */
+export const binanceUsdmRestPosition: BinanceUsdmRestPosition = {
+  symbol: 'BTCUSDT',
+  positionSide: 'BOTH',
+  positionAmt: '-0.010',
+  entryPrice: '60000.0',
+  unRealizedProfit: '-5.00000000',
+  liquidationPrice: '75123.45',
+  notional: '-605.00000000',
+  isolatedWallet: '0',
+  leverage: '10',
+  marginType: 'cross',
+  updateTime: 1700000000000,
+};
+
+/** GET /fapi/v1/openOrders */
+export const binanceUsdmRestOrder: BinanceUsdmRestOrder = {
+  orderId: 8389765498412345,
+  clientOrderId: 'web_abc123',
+  symbol: 'BTCUSDT',
+  side: 'SELL',
+  positionSide: 'BOTH',
+  type: 'TAKE_PROFIT_MARKET',
+  status: 'NEW',
+  price: '0',
+  origQty: '0.010',
+  executedQty: '0',
+  avgPrice: '0.00',
+  stopPrice: '65000',
+  reduceOnly: true,
+  time: 1700000000000,
+  updateTime: 1700000000000,
+};
+
+export function makeBinanceUsdmOrderUpdate(
+  overrides: Partial<BinanceUsdmWsOrderUpdateEvent['o']> = {},
+): BinanceUsdmWsOrderUpdateEvent {
+  return {
+    e: 'ORDER_TRADE_UPDATE',
+    E: 1700000001000,
+    o: {
+      s: 'BTCUSDT',
+      c: 'custom-1',
+      S: 'BUY',
+      o: 'LIMIT',
+      q: '0.002',
+      p: '60000',
+      ap: '0',
+      sp: '0',
+      x: 'NEW',
+      X: 'NEW',
+      i: 42,
+      z: '0',
+      T: 1700000001000,
+      m: false,
+      R: false,
+      ps: 'BOTH',
+      ...overrides,
+    },
+  };
+}
+
+export function makeBinanceUsdmAccountUpdate(
+  positions: BinanceUsdmWsAccountUpdateEvent['a']['P'],
+): BinanceUsdmWsAccountUpdateEvent {
+  return {
+    e: 'ACCOUNT_UPDATE',
+    E: 1700000002000,
+    a: {
+      m: 'ORDER',
+      B: [{ a: 'USDT', wb: '1000.50' }],
+      P: positions,
+    },
+  };
+}
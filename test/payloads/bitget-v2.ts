@@ -0,0 +1,58 @@
+import { BitgetV2Order, BitgetV2Position, BitgetV2WsMessage } from '../../src';
+
+/** "positions" websocket channel, hedge mode */
+export function makeBitgetV2Position(
+  overrides: Partial<BitgetV2Position> = {},
+): BitgetV2Position {
+  return {
+    instId: 'BTCUSDT',
+    marginCoin: 'USDT',
+    holdSide: 'long',
+    posMode: 'hedge_mode',
+    marginMode: 'crossed',
+    total: '0.1',
+    openPriceAvg: '60000',
+    leverage: '10',
+    marginSize: '600',
+    liquidationPrice: '54321.5',
+    unrealizedPL: '1.5',
+    markPrice: '60015',
+    uTime: '1700000000000',
+    ...overrides,
+  };
+}
+
+/** "orders" websocket channel */
+export function makeBitgetV2Order(
+  overrides: Partial<BitgetV2Order> = {},
+): BitgetV2Order {
+  return {
+    instId: 'BTCUSDT',
+    orderId: '1234',
+    clientOid: 'custom-1',
+    side: 'buy',
+    posSide: 'long',
+    orderType: 'limit',
+    status: 'partially_filled',
+    price: '60000',
+    size: '0.1',
+    accBaseVolume: '0.04',
+    priceAvg: '60000',
+    feeDetail: [{ feeCoin: 'USDT', fee: '-0.48' }],
+    reduceOnly: 'NO',
+    cTime: '1700000000000',
+    uTime: '1700000001000',
+    ...overrides,
+  };
+}
+
+export function makeBitgetV2Message<TData>(
+  channel: string,
+  data: TData[],
+): BitgetV2WsMessage<TData> {
+  return {
+    action: 'snapshot',
+    arg: { instType: 'USDT-FUTURES', channel },
+    data,
+  };
+}
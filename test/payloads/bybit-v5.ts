@@ -0,0 +1,56 @@
+import { BybitV5Order, BybitV5Position, BybitV5WsMessage } from '../../src';
+
+/** "position" websocket topic, one-way mode */
+export function makeBybitV5Position(
+  overrides: Partial<BybitV5Position> = {},
+): BybitV5Position {
+  return {
+    symbol: 'BTCUSDT',
+    side: 'Buy',
+    size: '0.01',
+    positionIdx: 0,
+    entryPrice: '60000',
+    positionValue: '600',
+    leverage: '10',
+    liqPrice: '54321.5',
+    positionIM: '60.3',
+    unrealisedPnl: '1.5',
+    takeProfit: '65000',
+    stopLoss: '',
+    updatedTime: '1700000000000',
+    ...overrides,
+  };
+}
+
+/** GET /v5/order/realtime, or the "order" websocket topic */
+export function makeBybitV5Order(
+  overrides: Partial<BybitV5Order> = {},
+): BybitV5Order {
+  return {
+    orderId: 'fd4300ae-7847-404e-b947-b46980a4d140',
+    orderLinkId: 'custom-1',
+    symbol: 'BTCUSDT',
+    side: 'Sell',
+    orderType: 'Market',
+    stopOrderType: 'StopLoss',
+    orderStatus: 'Untriggered',
+    positionIdx: 0,
+    price: '0',
+    qty: '0.01',
+    cumExecQty: '0',
+    avgPrice: '',
+    cumExecFee: '0',
+    triggerPrice: '55000',
+    reduceOnly: true,
+    createdTime: '1700000000000',
+    updatedTime: '1700000000000',
+    ...overrides,
+  };
+}
+
+export function makeBybitV5Message<TData>(
+  topic: string,
+  data: TData[],
+): BybitV5WsMessage<TData> {
+  return { topic, creationTime: 1700000001000, data };
+}
@@ -0,0 +1,26 @@
+import { GateFuturesPosition, GateFuturesWsMessage } from '../../src';
+
+/** "futures.positions" websocket channel, single (one-way) mode */
+export function makeGateFuturesPosition(
+  overrides: Partial<GateFuturesPosition> = {},
+): GateFuturesPosition {
+  return {
+    contract: 'BTC_USDT',
+    size: 10,
+    entry_price: 60000,
+    leverage: 0,
+    cross_leverage_limit: 10,
+    margin: 6,
+    liq_price: 54321.5,
+    mode: 'single',
+    time_ms: 1700000000000,
+    ...overrides,
+  };
+}
+
+export function makeGateFuturesMessage<TData>(
+  channel: string,
+  result: TData[],
+): GateFuturesWsMessage<TData> {
+  return { channel, event: 'update', result };
+}
@@ -0,0 +1,29 @@
+import { OkxV5Position, OkxV5WsMessage } from '../../src';
+
+/** "positions" websocket channel, net mode */
+export function makeOkxV5Position(
+  overrides: Partial<OkxV5Position> = {},
+): OkxV5Position {
+  return {
+    instId: 'BTC-USDT-SWAP',
+    mgnMode: 'cross',
+    posSide: 'net',
+    pos: '10',
+    avgPx: '60000',
+    upl: '1.5',
+    lever: '10',
+    liqPx: '54321.5',
+    imr: '6',
+    margin: '',
+    notionalUsd: '60.15',
+    uTime: '1700000000000',
+    ...overrides,
+  };
+}
+
+export function makeOkxV5Message<TData>(
+  channel: string,
+  data: TData[],
+): OkxV5WsMessage<TData> {
+  return { arg: { channel, instType: 'SWAP' }, data };
+}
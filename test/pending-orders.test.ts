@@ -0,0 +1,61 @@
+import { AccountStateStore } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('Pending orders', () => {
+  function registerIntent(store: AccountStateStore, timeoutMs?: number) {
+    return store.registerOrderIntent({
+      customOrderId: 'custom-1',
+      symbol: 'BTCUSDT',
+      orderSide: 'BUY',
+      positionSide: 'LONG',
+      quantity: 2,
+      price: 100,
+      timeoutMs,
+      createdAtMs: 1000,
+    });
+  }
+
+  it('includes unconfirmed orders in the symbol exposure', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    registerIntent(store);
+
+    expect(store.getSymbolExposure('BTCUSDT')).toMatchObject({
+      positionQty: 1,
+      openBuyQty: 2,
+      pendingBuyQty: 2,
+      maxLongQty: 3,
+    });
+    expect(store.getSymbolExposure('BTCUSDT', false).maxLongQty).toBe(1);
+  });
+
+  it('links pending orders once the exchange confirms them', () => {
+    const store = new AccountStateStore();
+    const onLinked = jest.fn();
+    store.on('pendingOrderLinked', onLinked);
+    registerIntent(store);
+
+    store.upsertActiveOrder(makeOrder({ originalQuantity: 2 }));
+
+    expect(store.getPendingOrders()).toHaveLength(0);
+    expect(store.getOrderByCustomId('custom-1')).toMatchObject({
+      exchangeOrderId: 'order-1',
+    });
+    expect(onLinked).toHaveBeenCalledTimes(1);
+    expect(store.getSymbolExposure('BTCUSDT').openBuyQty).toBe(2);
+  });
+
+  it('rolls back pending orders that were not confirmed in time', () => {
+    const store = new AccountStateStore();
+    const onExpired = jest.fn();
+    store.on('pendingOrderExpired', onExpired);
+    registerIntent(store, 5000);
+
+    expect(store.expirePendingOrders(5999)).toHaveLength(0);
+    expect(store.expirePendingOrders(6000)).toHaveLength(1);
+    expect(onExpired).toHaveBeenCalledWith({
+      order: expect.objectContaining({ customOrderId: 'custom-1' }),
+    });
+    expect(store.getSymbolExposure('BTCUSDT').openBuyQty).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  AccountStateStore,
+  InMemoryMetadataPersistenceAdapter,
+  MetadataPersistenceScheduler,
+} from '../src';
+
+describe('Metadata persistence', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('restores persisted metadata', async () => {
+    const store = new AccountStateStore();
+    const adapter = new InMemoryMetadataPersistenceAdapter({
+      BTCUSDT: { leaderId: 'a' },
+    });
+    const scheduler = new MetadataPersistenceScheduler(store, adapter);
+
+    expect(await scheduler.restore()).toBe(true);
+    expect(store.getSymbolMetadata('BTCUSDT')).toEqual({ leaderId: 'a' });
+    expect(store.isPendingPersist()).toBe(false);
+
+    const emptyScheduler = new MetadataPersistenceScheduler(
+      new AccountStateStore(),
+      new InMemoryMetadataPersistenceAdapter(),
+    );
+    expect(await emptyScheduler.restore()).toBe(false);
+  });
+
+  it('debounces saves of metadata changes', async () => {
+    const store = new AccountStateStore();
+    const adapter = new InMemoryMetadataPersistenceAdapter();
+    const save = jest.spyOn(adapter, 'save');
+    const scheduler = new MetadataPersistenceScheduler(store, adapter, {
+      debounceMs: 100,
+    });
+
+    scheduler.start();
+    store.setSymbolMetadata('BTCUSDT', { leaderId: 'a' });
+    store.setSymbolMetadata('ETHUSDT', { leaderId: 'b' });
+    await jest.advanceTimersByTimeAsync(150);
+    scheduler.stop();
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(store.isPendingPersist()).toBe(false);
+    expect(await adapter.load()).toEqual({
+      BTCUSDT: { leaderId: 'a' },
+      ETHUSDT: { leaderId: 'b' },
+    });
+  });
+
+  it('saves bulk metadata writes', async () => {
+    const store = new AccountStateStore();
+    const adapter = new InMemoryMetadataPersistenceAdapter();
+    const scheduler = new MetadataPersistenceScheduler(store, adapter, {
+      debounceMs: 100,
+    });
+
+    scheduler.start();
+    store.setAllSymbolMetadata({ BTCUSDT: { leaderId: 'a' } });
+    await jest.advanceTimersByTimeAsync(150);
+    scheduler.stop();
+
+    expect(store.isPendingPersist()).toBe(false);
+    expect(await adapter.load()).toEqual({ BTCUSDT: { leaderId: 'a' } });
+  });
+
+  it('retries failed saves', async () => {
+    const store = new AccountStateStore();
+    const adapter = new InMemoryMetadataPersistenceAdapter();
+    const save = jest
+      .spyOn(adapter, 'save')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const scheduler = new MetadataPersistenceScheduler(store, adapter, {
+      debounceMs: 100,
+      retryDelayMs: 500,
+    });
+
+    scheduler.start();
+    store.setSymbolMetadata('BTCUSDT', { leaderId: 'a' });
+    await jest.advanceTimersByTimeAsync(150);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(store.isPendingPersist()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(500);
+    scheduler.stop();
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(store.isPendingPersist()).toBe(false);
+  });
+});
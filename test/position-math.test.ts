@@ -0,0 +1,116 @@
+import {
+  AccountStateStore,
+  applyFillToPosition,
+  getPositionMarginMode,
+} from '../src';
+import { makePosition } from './fixtures';
+
+describe('Position math', () => {
+  it('resolves margin modes of one-way positions via the net side', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.setSymbolMarginMode('BTCUSDT', 'isolated', 'LONG');
+
+    const position = makePosition({ assetQty: -1 });
+    const marginModeCache = store.getSymbolMarginModeCache();
+    expect(getPositionMarginMode(position, marginModeCache, 'cross')).toBe(
+      'cross',
+    );
+    expect(
+      getPositionMarginMode(position, marginModeCache, 'cross', 'ONE_WAY'),
+    ).toBe('isolated');
+  });
+
+  it('resolves margin modes per side in hedge mode', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    store.setSymbolMarginMode('BTCUSDT', 'isolated', 'SHORT');
+
+    const marginModeCache = store.getSymbolMarginModeCache();
+    expect(
+      getPositionMarginMode(
+        makePosition({ assetQty: -1 }),
+        marginModeCache,
+        'cross',
+        'HEDGE',
+      ),
+    ).toBe('isolated');
+    expect(
+      getPositionMarginMode(
+        makePosition({ assetQty: 1 }),
+        marginModeCache,
+        'cross',
+        'HEDGE',
+      ),
+    ).toBe('cross');
+  });
+
+  it('never flips a position with a reduce-only fill', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+
+    const fill = store.applyFill({
+      symbol: 'BTCUSDT',
+      orderSide: 'SELL',
+      qty: 2,
+      price: 110,
+      isreduceOnly: true,
+      timestampMs: 1000,
+    });
+
+    expect(fill.closedQty).toBe(1);
+    expect(fill.realisedPnl).toBe(10);
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+
+  it('never opens a position with a reduce-only fill', () => {
+    const { position, closedQty } = applyFillToPosition(
+      undefined,
+      {
+        symbol: 'BTCUSDT',
+        orderSide: 'BUY',
+        qty: 1,
+        price: 100,
+        isreduceOnly: true,
+      },
+      { positionSide: 'NONE' },
+    );
+
+    expect(position).toBeUndefined();
+    expect(closedQty).toBe(0);
+
+    // Nor adds to one
+    const long = makePosition({ assetQty: 1, positionPrice: 100 });
+    expect(
+      applyFillToPosition(
+        long,
+        {
+          symbol: 'BTCUSDT',
+          orderSide: 'BUY',
+          qty: 1,
+          price: 120,
+          isreduceOnly: true,
+        },
+        { positionSide: 'NONE' },
+      ).position,
+    ).toMatchObject({ assetQty: 1, positionPrice: 100 });
+  });
+
+  it('never opens a hedge side in the wrong direction', () => {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+
+    store.applyFill({
+      symbol: 'BTCUSDT',
+      orderSide: 'SELL',
+      positionSide: 'LONG',
+      qty: 1,
+      price: 100,
+      timestampMs: 1000,
+    });
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')).toBeUndefined();
+    expect(store.getAllPositions()).toHaveLength(0);
+  });
+});
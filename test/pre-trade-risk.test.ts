@@ -0,0 +1,101 @@
+import { AccountStateStore, PreTradeRiskChecker } from '../src';
+import { makePosition } from './fixtures';
+
+describe('PreTradeRiskChecker', () => {
+  function makeHedgedStore(): AccountStateStore {
+    const store = new AccountStateStore({ positionMode: 'HEDGE' });
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    store.setActivePosition('BTCUSDT', 'SHORT', makePosition({ assetQty: -1 }));
+    store.setActivePosition(
+      'ETHUSDT',
+      'LONG',
+      makePosition({ symbol: 'ETHUSDT', assetQty: 1 }),
+    );
+    return store;
+  }
+
+  it('counts each hedged symbol once', () => {
+    const checker = new PreTradeRiskChecker(makeHedgedStore(), {
+      maxHedgedPositions: 2,
+    });
+    const log = jest.spyOn(console, 'log');
+
+    const result = checker.check({
+      symbol: 'ETHUSDT',
+      orderSide: 'SELL',
+      positionSide: 'SHORT',
+      quantity: 1,
+      price: 100,
+    });
+
+    expect(result.allowed).toBe(true);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('denies opening a new hedge once the limit is reached', () => {
+    const checker = new PreTradeRiskChecker(makeHedgedStore(), {
+      maxHedgedPositions: 1,
+      maxOpenPositions: 3,
+    });
+
+    const result = checker.check({
+      symbol: 'ETHUSDT',
+      orderSide: 'SELL',
+      positionSide: 'SHORT',
+      quantity: 1,
+      price: 100,
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons.map((reason) => reason.rule)).toEqual([
+      'maxOpenPositions',
+      'maxHedgedPositions',
+    ]);
+    expect(result.reasons[1].value).toBe(2);
+  });
+
+  it('only projects reduce-only orders against the position they face', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 2 }));
+    const checker = new PreTradeRiskChecker(store);
+
+    const check = (orderSide: 'BUY' | 'SELL') =>
+      checker.check({
+        symbol: 'BTCUSDT',
+        orderSide,
+        quantity: 1,
+        isreduceOnly: true,
+        price: 100,
+      }).projectedPositionQty;
+
+    expect(check('SELL')).toBe(1);
+    // A reduce-only buy can't reduce a long position
+    expect(check('BUY')).toBe(2);
+  });
+
+  it('attributes orders to positions the same way as the store', () => {
+    const checker = new PreTradeRiskChecker(
+      new AccountStateStore({ positionMode: 'HEDGE' }),
+    );
+
+    // Without a position side, a reduce-only sell closes the long position
+    expect(
+      checker.check({
+        symbol: 'BTCUSDT',
+        orderSide: 'SELL',
+        quantity: 1,
+        isreduceOnly: true,
+        price: 100,
+      }).positionSide,
+    ).toBe('LONG');
+    expect(
+      checker.check({
+        symbol: 'BTCUSDT',
+        orderSide: 'SELL',
+        quantity: 1,
+        price: 100,
+      }).positionSide,
+    ).toBe('SHORT');
+  });
+});
@@ -0,0 +1,50 @@
+import { AccountStateStore } from '../src';
+import { makePosition } from './fixtures';
+
+describe('Price events', () => {
+  it('only updates UPNL from the configured price type', () => {
+    const store = new AccountStateStore({ upnlPriceType: 'mark' });
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+
+    store.processPriceEvent({
+      symbol: 'BTCUSDT',
+      price: 110,
+      priceType: 'mark',
+      timestampMs: 1000,
+    });
+    store.processPriceEvent({
+      symbol: 'BTCUSDT',
+      price: 120,
+      priceType: 'last',
+      timestampMs: 2000,
+    });
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.valueUpnl).toBe(10);
+    expect(store.getPrice('BTCUSDT')).toBe(110);
+    expect(store.getPrice('BTCUSDT', 'last')).toBe(120);
+    expect(store.getSymbolPrices('BTCUSDT')).toEqual({
+      mark: { price: 110, timestampMs: 1000 },
+      last: { price: 120, timestampMs: 2000 },
+    });
+  });
+
+  it('defaults to last prices', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+
+    store.processPriceEvent({ symbol: 'BTCUSDT', price: 90, priceType: 'bid' });
+    store.processPriceEvent({ symbol: 'BTCUSDT', price: 95 });
+
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.valueUpnl).toBe(-5);
+    expect(store.getPrice('BTCUSDT')).toBe(95);
+    expect(store.getPrice('BTCUSDT', 'bid')).toBe(90);
+  });
+});
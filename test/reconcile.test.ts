@@ -0,0 +1,51 @@
+import { AccountStateJournal, AccountStateStore } from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('Reconcile', () => {
+  it('applies exchange state and reports drift', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    store.upsertActiveOrder(makeOrder());
+
+    const report = store.reconcile({
+      positions: [makePosition({ symbol: 'ETHUSDT', assetQty: 2 })],
+      orders: [],
+    });
+
+    expect(report.hasDrift).toBe(true);
+    expect(store.getAllPositions().map((position) => position.symbol)).toEqual([
+      'ETHUSDT',
+    ]);
+    expect(store.getOrders()).toHaveLength(0);
+  });
+
+  it('rolls back without events or a journal entry if applying fails', () => {
+    const journal = new AccountStateJournal();
+    const store = new AccountStateStore({ journal });
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    const updatedAtMs = store.getPositionUpdatedAtMs('BTCUSDT', 'LONG');
+    const seqBefore = journal.getLastSeq();
+
+    const onPositionChanged = jest.fn();
+    store.on('positionChanged', onPositionChanged);
+    jest.spyOn(store, 'upsertActiveOrder').mockImplementation(() => {
+      throw new Error('Failed to apply order');
+    });
+
+    expect(() =>
+      store.reconcile({
+        positions: [
+          makePosition({ assetQty: 2 }),
+          makePosition({ symbol: 'ETHUSDT', assetQty: 2 }),
+        ],
+        orders: [makeOrder()],
+      }),
+    ).toThrow('Failed to apply order');
+
+    expect(onPositionChanged).not.toHaveBeenCalled();
+    expect(journal.getLastSeq()).toBe(seqBefore);
+    expect(store.getAllPositions()).toHaveLength(1);
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(1);
+    expect(store.getPositionUpdatedAtMs('BTCUSDT', 'LONG')).toBe(updatedAtMs);
+  });
+});
@@ -0,0 +1,66 @@
+import { AccountStateStore, applyFillToPosition } from '../src';
+import { makePosition } from './fixtures';
+
+describe('What-if simulation', () => {
+  it('averages fills into the entry price', () => {
+    const { position, realisedPnl } = applyFillToPosition(
+      makePosition({ assetQty: 1, positionPrice: 100, positionSide: 'LONG' }),
+      { symbol: 'BTCUSDT', orderSide: 'BUY', qty: 1, price: 110 },
+      { positionSide: 'LONG' },
+    );
+
+    expect(position?.assetQty).toBe(2);
+    expect(position?.positionPrice).toBe(105);
+    expect(realisedPnl).toBe(0);
+  });
+
+  it('flips net positions in one-way mode', () => {
+    const store = new AccountStateStore({ positionMode: 'ONE_WAY' });
+    store.setWalletBalance(1000);
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+
+    const simulation = store.simulateFill({
+      symbol: 'BTCUSDT',
+      orderSide: 'SELL',
+      qty: 3,
+      price: 110,
+      fee: 1,
+    });
+
+    expect(simulation.realisedPnl).toBe(10);
+    expect(simulation.current).toMatchObject({
+      assetQty: -2,
+      positionPrice: 110,
+    });
+    expect(simulation.store.getWalletBalance()).toBe(1009);
+  });
+
+  it('does not change the store', () => {
+    const store = new AccountStateStore();
+    store.setWalletBalance(1000);
+    store.setActivePosition(
+      'BTCUSDT',
+      'LONG',
+      makePosition({ assetQty: 1, positionPrice: 100 }),
+    );
+    const onPositionChanged = jest.fn();
+    store.on('positionChanged', onPositionChanged);
+
+    store.simulateFill({
+      symbol: 'BTCUSDT',
+      orderSide: 'SELL',
+      positionSide: 'LONG',
+      qty: 1,
+      price: 110,
+    });
+
+    expect(onPositionChanged).not.toHaveBeenCalled();
+    expect(store.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(1);
+    expect(store.getWalletBalance()).toBe(1000);
+    expect(store.getFills()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  ACCOUNT_STATE_SNAPSHOT_VERSION,
+  AccountStateStore,
+  migrateSnapshot,
+} from '../src';
+import { makeOrder, makePosition } from './fixtures';
+
+describe('Snapshots', () => {
+  it('restores the full state from a serialised snapshot', () => {
+    const store = new AccountStateStore();
+    store.setWalletBalance(1000);
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    store.upsertActiveOrder(makeOrder());
+    store.setSymbolLeverage('BTCUSDT', 5);
+    store.setSymbolMetadata('BTCUSDT', { leaderId: 'a' });
+
+    const restored = AccountStateStore.fromSnapshot(
+      JSON.parse(JSON.stringify(store.toSnapshot())),
+    );
+
+    expect(restored.getWalletBalance()).toBe(1000);
+    expect(restored.getActivePosition('BTCUSDT', 'LONG')).toEqual(
+      store.getActivePosition('BTCUSDT', 'LONG'),
+    );
+    expect(restored.getOrders()).toEqual(store.getOrders());
+    expect(restored.getSymbolLeverage('BTCUSDT')).toBe(5);
+    expect(restored.getSymbolMetadata('BTCUSDT')).toEqual({ leaderId: 'a' });
+  });
+
+  it('does not share state with the snapshot it was restored from', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition({ assetQty: 1 }));
+    const snapshot = store.toSnapshot();
+
+    const restored = AccountStateStore.fromSnapshot(snapshot);
+    snapshot.positions.BTCUSDT.LONG.assetQty = 2;
+    expect(restored.getActivePosition('BTCUSDT', 'LONG')?.assetQty).toBe(1);
+  });
+
+  it('migrates v1 snapshots with a single wallet balance', () => {
+    const migrated = migrateSnapshot({ version: 1, balance: 500 });
+
+    expect(migrated.version).toBe(ACCOUNT_STATE_SNAPSHOT_VERSION);
+    expect(migrated.balances.USDT.walletBalance).toBe(500);
+    expect('balance' in migrated).toBe(false);
+  });
+
+  it('rejects snapshots from newer or unknown versions', () => {
+    expect(() =>
+      migrateSnapshot({ version: ACCOUNT_STATE_SNAPSHOT_VERSION + 1 }),
+    ).toThrow('is newer than the latest supported version');
+    expect(() => migrateSnapshot({ version: 0 })).toThrow(
+      'No migration available for snapshot version 0',
+    );
+  });
+});
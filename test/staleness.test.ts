@@ -0,0 +1,67 @@
+import { AccountStateStore } from '../src';
+import { makePosition } from './fixtures';
+
+describe('Stale data detection', () => {
+  let nowMs = 0;
+  let dateNow: jest.SpyInstance;
+
+  beforeEach(() => {
+    nowMs = 1_000_000;
+    dateNow = jest.spyOn(Date, 'now').mockImplementation(() => nowMs);
+  });
+
+  afterEach(() => {
+    dateNow.mockRestore();
+  });
+
+  it('treats a position without a price as stale', () => {
+    const store = new AccountStateStore();
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition());
+
+    expect(store.getStaleSymbols()).toEqual([
+      expect.objectContaining({ symbol: 'BTCUSDT', staleData: ['price'] }),
+    ]);
+  });
+
+  it('emits stale & recovered events once per transition', () => {
+    const store = new AccountStateStore({
+      staleness: { priceMaxAgeMs: 1000, positionMaxAgeMs: 5000 },
+    });
+    const onStale = jest.fn();
+    const onRecovered = jest.fn();
+    store.on('dataStale', onStale);
+    store.on('dataRecovered', onRecovered);
+
+    store.setActivePosition('BTCUSDT', 'LONG', makePosition());
+    store.processPriceEvent({
+      symbol: 'BTCUSDT',
+      price: 100,
+      timestampMs: nowMs,
+    });
+    expect(store.checkStaleness()).toEqual([]);
+
+    nowMs += 2000;
+    store.checkStaleness();
+    store.checkStaleness();
+    expect(onStale).toHaveBeenCalledTimes(1);
+    expect(onStale.mock.calls[0][0]).toMatchObject({
+      symbol: 'BTCUSDT',
+      staleData: ['price'],
+      priceAgeMs: 2000,
+    });
+
+    // Recovers on the next fresh price, without waiting for a check
+    store.processPriceEvent({
+      symbol: 'BTCUSDT',
+      price: 101,
+      timestampMs: nowMs,
+    });
+    expect(onRecovered).toHaveBeenCalledTimes(1);
+
+    nowMs += 4000;
+    expect(store.getStaleSymbols(nowMs)[0].staleData).toEqual([
+      'price',
+      'position',
+    ]);
+  });
+});